@@ -0,0 +1,139 @@
+/**
+ * Split and dividend back-adjustment for OHLCV history
+ *
+ * Works from the `dividends` and `splits` columns that Ticker.getHistory
+ * attaches to each bar, so it applies equally to daily and intraday data.
+ */
+
+import { HistoryData, HistoryRow } from '../types';
+
+/**
+ * - split: prices and volume adjusted for splits only
+ * - all: splits and dividends, anchored to the latest bar (like Yahoo's adjclose)
+ * - totalReturn: splits and dividends, anchored to the first bar so the series
+ *   tracks the value of a position with dividends reinvested
+ */
+export type AdjustmentMode = 'split' | 'all' | 'totalReturn';
+
+export interface AdjustmentOptions {
+  /** Adjustment to apply (default: 'all') */
+  mode?: AdjustmentMode;
+  /**
+   * Input prices and volume are already split-adjusted, as Ticker.getHistory
+   * returns them, so split events are ignored rather than applied twice. Set to
+   * false for unadjusted prices. Default: true
+   */
+  splitAdjusted?: boolean;
+}
+
+/**
+ * Multiplicative factors for each bar. Prices are multiplied by
+ * `split * dividend`; volume is divided by `split`.
+ */
+export interface AdjustmentFactors {
+  split: number[];
+  dividend: number[];
+}
+
+/**
+ * Compute per-bar adjustment factors from the splits and dividends columns.
+ * Rows must be in ascending time order. A split or dividend on a bar adjusts
+ * every bar before it (the bar carrying the event is the ex-date).
+ */
+export function getAdjustmentFactors(
+  rows: HistoryRow[],
+  splitAdjusted = true
+): AdjustmentFactors {
+  const split: number[] = new Array(rows.length);
+  const dividend: number[] = new Array(rows.length);
+  let splitFactor = 1;
+  let dividendFactor = 1;
+
+  for (let i = rows.length - 1; i >= 0; i--) {
+    split[i] = splitFactor;
+    dividend[i] = dividendFactor;
+
+    const row = rows[i];
+
+    if (!splitAdjusted && row.splits && row.splits > 0 && row.splits !== 1) {
+      splitFactor /= row.splits;
+    }
+
+    if (row.dividends && row.dividends > 0) {
+      const previousClose = findPreviousClose(rows, i);
+      if (previousClose !== null && previousClose > row.dividends) {
+        // The previous close is on the same split basis as the dividend amount
+        dividendFactor *= 1 - row.dividends / previousClose;
+      }
+    }
+  }
+
+  return { split, dividend };
+}
+
+/**
+ * Adjust a single symbol's bars for splits and/or dividends
+ */
+export function adjustBars(rows: HistoryRow[], options: AdjustmentOptions = {}): HistoryRow[] {
+  const { mode = 'all', splitAdjusted = true } = options;
+  const factors = getAdjustmentFactors(rows, splitAdjusted);
+
+  const priceFactors = rows.map((_, i) =>
+    mode === 'split' ? factors.split[i] : factors.split[i] * factors.dividend[i]
+  );
+
+  if (mode === 'totalReturn') {
+    // Rebase so the first bar keeps its split-adjusted price
+    const first = rows.findIndex((row) => row.close !== null);
+    if (first >= 0) {
+      const rebase = factors.split[first] / priceFactors[first];
+      for (let i = 0; i < priceFactors.length; i++) {
+        priceFactors[i] *= rebase;
+      }
+    }
+  }
+
+  return rows.map((row, i) => {
+    const factor = priceFactors[i];
+    const adjusted: HistoryRow = {
+      ...row,
+      open: scale(row.open, factor),
+      high: scale(row.high, factor),
+      low: scale(row.low, factor),
+      close: scale(row.close, factor),
+      volume: scale(row.volume, 1 / factors.split[i]),
+    };
+    // adjclose no longer applies once the prices themselves are adjusted
+    delete adjusted.adjclose;
+    return adjusted;
+  });
+}
+
+/**
+ * Adjust history for every symbol in a Ticker.getHistory result.
+ * Symbols that returned an error are passed through unchanged.
+ */
+export function adjustHistory(data: HistoryData, options: AdjustmentOptions = {}): HistoryData {
+  const result: HistoryData = {};
+  for (const [symbol, rows] of Object.entries(data)) {
+    result[symbol] = Array.isArray(rows) ? adjustBars(rows, options) : rows;
+  }
+  return result;
+}
+
+/**
+ * Last non-null close before index i
+ */
+function findPreviousClose(rows: HistoryRow[], i: number): number | null {
+  for (let j = i - 1; j >= 0; j--) {
+    const close = rows[j].close;
+    if (close !== null && close !== undefined) {
+      return close;
+    }
+  }
+  return null;
+}
+
+function scale(value: number | null, factor: number): number | null {
+  return value === null || value === undefined ? value : value * factor;
+}
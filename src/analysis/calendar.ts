@@ -0,0 +1,367 @@
+/**
+ * Exchange trading calendar and market clock
+ *
+ * Calendars come from the bundled holiday tables in config/exchanges, keyed by
+ * the exchangeName / exchangeTimezoneName values in chart meta. Exchanges
+ * without a bundled table get a weekday-only calendar built from the
+ * currentTradingPeriod metadata. When chart meta is available, its
+ * currentTradingPeriod overrides the bundled hours for the day it covers.
+ */
+
+import { DateTime } from 'luxon';
+import { EXCHANGE_CALENDARS, ExchangeCalendarConfig, getExchangeCalendar } from '../config/exchanges';
+import { HistoryMeta, HistoryRow, TradingPeriod } from '../types';
+
+export interface ExchangeCalendar extends ExchangeCalendarConfig {
+  /** Bundled calendar key, or the exchange code for meta-derived calendars */
+  key: string;
+}
+
+export type MarketSession = 'pre' | 'regular' | 'post' | 'break' | 'closed';
+
+export interface MarketClock {
+  exchange: string;
+  name: string;
+  timezone: string;
+  /** Current exchange wall-clock time (ISO 8601 with offset) */
+  localTime: string;
+  isOpen: boolean;
+  session: MarketSession;
+  isTradingDay: boolean;
+  /** Holiday name when the exchange is closed for the day */
+  holiday: string | null;
+  isEarlyClose: boolean;
+  /** Next regular session open (ISO 8601 with offset) */
+  nextOpen: string | null;
+  /** Next regular session close, or the current session's close when open */
+  nextClose: string | null;
+  /** False when the bundled holiday table does not cover the current year */
+  holidayDataAvailable: boolean;
+}
+
+/**
+ * Market clock for a symbol's exchange, with the latest trade from chart meta
+ */
+export interface MarketStatus extends MarketClock {
+  symbol: string;
+  exchangeName: string | null;
+  regularMarketPrice: number | null;
+  /** Time of the last regular-market trade (ISO 8601 with offset) */
+  lastTradeTime: string | null;
+  /** Whether regularMarketPrice is a live price rather than the last close */
+  isLive: boolean;
+}
+
+interface Interval {
+  start: DateTime;
+  end: DateTime;
+}
+
+interface DaySchedule {
+  date: string;
+  earlyClose: string | null;
+  /** Regular trading segments (two when the exchange has a lunch break) */
+  regular: Interval[];
+  pre: Interval | null;
+  post: Interval | null;
+}
+
+// How far ahead to search for the next open (covers long holiday runs)
+const LOOKAHEAD_DAYS = 14;
+
+/**
+ * Resolve the calendar for an exchange key, Yahoo exchange code or time zone.
+ * Chart meta is used as a fallback for exchanges without a bundled table.
+ */
+export function resolveCalendar(exchange: string | HistoryMeta): ExchangeCalendar {
+  if (typeof exchange === 'string') {
+    const calendar = findBundled(exchange);
+    if (!calendar) {
+      throw new Error(`Unknown exchange: ${exchange}`);
+    }
+    return calendar;
+  }
+
+  const candidates = [exchange.exchangeName, exchange.exchangeTimezoneName];
+  for (const candidate of candidates) {
+    const calendar = candidate ? findBundled(candidate) : undefined;
+    if (calendar) {
+      return calendar;
+    }
+  }
+
+  return calendarFromMeta(exchange);
+}
+
+/**
+ * Build a weekday-only calendar from chart meta.
+ * Hours are taken from currentTradingPeriod in the exchange time zone.
+ */
+export function calendarFromMeta(meta: HistoryMeta): ExchangeCalendar {
+  const timezone = meta.exchangeTimezoneName ?? meta.timezone ?? 'UTC';
+  const { pre, regular, post } = meta.currentTradingPeriod ?? {};
+  const clock = (ts: number | undefined): string | undefined =>
+    typeof ts === 'number'
+      ? DateTime.fromSeconds(ts, { zone: timezone }).toFormat('HH:mm')
+      : undefined;
+
+  const preOpen = clock(pre?.start);
+  const postClose = clock(post?.end);
+
+  return {
+    key: meta.exchangeName ?? timezone,
+    name: meta.exchangeName ?? timezone,
+    timezone,
+    codes: meta.exchangeName ? [meta.exchangeName] : [],
+    open: clock(regular?.start) ?? '09:30',
+    close: clock(regular?.end) ?? '16:00',
+    ...(preOpen && preOpen !== clock(regular?.start) && { preOpen }),
+    ...(postClose && postClose !== clock(regular?.end) && { postClose }),
+    holidays: {},
+    earlyCloses: {},
+  };
+}
+
+/**
+ * Whether the exchange trades on a date (YYYY-MM-DD in exchange time, or an instant)
+ */
+export function isTradingDay(calendar: ExchangeCalendarConfig, date: string | Date): boolean {
+  const day = toLocalDay(calendar, date);
+  return isWeekday(day) && !(day.toISODate() as string in calendar.holidays);
+}
+
+/**
+ * Trading dates between start and end (inclusive), in exchange time
+ */
+export function getTradingDays(
+  calendar: ExchangeCalendarConfig,
+  start: string | Date,
+  end: string | Date
+): string[] {
+  const days: string[] = [];
+  const last = toLocalDay(calendar, end);
+
+  for (let day = toLocalDay(calendar, start); day <= last; day = day.plus({ days: 1 })) {
+    if (isTradingDay(calendar, day.toISODate() as string)) {
+      days.push(day.toISODate() as string);
+    }
+  }
+
+  return days;
+}
+
+/**
+ * Market state at an instant: open/closed, current session, next open and close.
+ * Pass chart meta to let Yahoo's currentTradingPeriod refine today's hours.
+ */
+export function getMarketClock(
+  calendar: ExchangeCalendar,
+  at: Date = new Date(),
+  meta?: HistoryMeta
+): MarketClock {
+  const now = DateTime.fromJSDate(at, { zone: calendar.timezone });
+  const today = getDaySchedule(calendar, now.startOf('day'), meta);
+
+  let session: MarketSession = 'closed';
+  if (today) {
+    if (today.regular.some((segment) => contains(segment, now))) {
+      session = 'regular';
+    } else if (today.pre && contains(today.pre, now)) {
+      session = 'pre';
+    } else if (today.post && contains(today.post, now)) {
+      session = 'post';
+    } else if (
+      today.regular.length > 1 &&
+      now >= today.regular[0].end &&
+      now < today.regular[today.regular.length - 1].start
+    ) {
+      session = 'break';
+    }
+  }
+
+  // Walk forward through upcoming segments for the next open and close
+  let nextOpen: DateTime | null = null;
+  let nextClose: DateTime | null = null;
+  for (let offset = 0; offset <= LOOKAHEAD_DAYS && !(nextOpen && nextClose); offset++) {
+    const schedule = offset === 0
+      ? today
+      : getDaySchedule(calendar, now.startOf('day').plus({ days: offset }), meta);
+
+    for (const segment of schedule?.regular ?? []) {
+      if (!nextOpen && segment.start > now) {
+        nextOpen = segment.start;
+      }
+      if (!nextClose && segment.end > now) {
+        nextClose = segment.end;
+      }
+    }
+  }
+
+  const dateKey = now.toISODate() as string;
+
+  return {
+    exchange: calendar.key,
+    name: calendar.name,
+    timezone: calendar.timezone,
+    localTime: now.toISO() as string,
+    isOpen: session === 'regular',
+    session,
+    isTradingDay: today !== null,
+    holiday: calendar.holidays[dateKey] ?? null,
+    isEarlyClose: Boolean(today?.earlyClose),
+    nextOpen: nextOpen ? (nextOpen.toISO() as string) : null,
+    nextClose: nextClose ? (nextClose.toISO() as string) : null,
+    holidayDataAvailable: hasHolidayData(calendar, now.year),
+  };
+}
+
+/**
+ * Expected bars absent from a history series.
+ * Daily intervals return missing trading dates; intraday intervals return the
+ * exchange-local start of each missing regular-session bar. Bars with no close
+ * count as missing. Other intervals are not checked.
+ */
+export function findMissingBars(
+  rows: HistoryRow[],
+  calendar: ExchangeCalendarConfig,
+  interval: string
+): string[] {
+  const present = rows.filter((row) => row.close !== null && row.close !== undefined);
+  if (rows.length === 0) {
+    return [];
+  }
+
+  const first = rowInstant(calendar, rows[0]);
+  const last = rowInstant(calendar, rows[rows.length - 1]);
+
+  if (interval === '1d') {
+    const dates = new Set(present.map((row) => rowInstant(calendar, row).toISODate()));
+    return getTradingDays(calendar, first.toISODate() as string, last.toISODate() as string)
+      .filter((date) => !dates.has(date));
+  }
+
+  const minutes = intervalMinutes(interval);
+  if (minutes === null) {
+    return [];
+  }
+
+  const times = new Set(present.map((row) => rowInstant(calendar, row).toMillis()));
+  const missing: string[] = [];
+
+  for (const date of getTradingDays(calendar, first.toISODate() as string, last.toISODate() as string)) {
+    const schedule = getDaySchedule(calendar, DateTime.fromISO(date, { zone: calendar.timezone }));
+    for (const segment of schedule?.regular ?? []) {
+      for (let slot = segment.start; slot < segment.end; slot = slot.plus({ minutes })) {
+        if (slot >= first && slot <= last && !times.has(slot.toMillis())) {
+          missing.push(slot.toISO() as string);
+        }
+      }
+    }
+  }
+
+  return missing;
+}
+
+function findBundled(exchange: string): ExchangeCalendar | undefined {
+  const config = getExchangeCalendar(exchange);
+  if (!config) {
+    return undefined;
+  }
+  const key = Object.keys(EXCHANGE_CALENDARS).find((name) => EXCHANGE_CALENDARS[name] === config);
+  return { key: key ?? exchange, ...config };
+}
+
+/**
+ * Trading hours for one exchange-local day, or null when the exchange is closed
+ */
+function getDaySchedule(
+  calendar: ExchangeCalendarConfig,
+  day: DateTime,
+  meta?: HistoryMeta
+): DaySchedule | null {
+  const date = day.toISODate() as string;
+  if (!isWeekday(day) || date in calendar.holidays) {
+    return null;
+  }
+
+  const earlyClose = calendar.earlyCloses[date] ?? null;
+  const close = earlyClose && calendar.earlyClose ? calendar.earlyClose : calendar.close;
+  let open = atTime(day, calendar.open);
+  let end = atTime(day, close);
+  let pre = calendar.preOpen ? { start: atTime(day, calendar.preOpen), end: open } : null;
+  let post = calendar.postClose && !earlyClose ? { start: end, end: atTime(day, calendar.postClose) } : null;
+
+  // Yahoo's current trading period is authoritative for the day it describes
+  const current = meta?.currentTradingPeriod;
+  const regular = periodOnDay(current?.regular, day);
+  if (regular) {
+    open = regular.start;
+    end = regular.end;
+    const currentPre = periodOnDay(current?.pre, day);
+    const currentPost = periodOnDay(current?.post, day);
+    pre = currentPre && currentPre.start < open ? { start: currentPre.start, end: open } : pre && { ...pre, end: open };
+    post = currentPost && currentPost.end > end ? { start: end, end: currentPost.end } : post && { ...post, start: end };
+  }
+
+  const segments: Interval[] = [];
+  const lunch = calendar.lunchBreak;
+  if (lunch && atTime(day, lunch.start) > open && atTime(day, lunch.end) < end) {
+    segments.push({ start: open, end: atTime(day, lunch.start) });
+    segments.push({ start: atTime(day, lunch.end), end });
+  } else {
+    segments.push({ start: open, end });
+  }
+
+  return { date, earlyClose, regular: segments, pre, post };
+}
+
+function periodOnDay(period: TradingPeriod | undefined, day: DateTime): Interval | null {
+  if (typeof period?.start !== 'number' || typeof period.end !== 'number') {
+    return null;
+  }
+  const start = DateTime.fromSeconds(period.start, { zone: day.zone });
+  if (!start.hasSame(day, 'day')) {
+    return null;
+  }
+  return { start, end: DateTime.fromSeconds(period.end, { zone: day.zone }) };
+}
+
+function hasHolidayData(calendar: ExchangeCalendarConfig, year: number): boolean {
+  return Object.keys(calendar.holidays).some((date) => date.startsWith(`${year}-`));
+}
+
+function contains(interval: Interval, time: DateTime): boolean {
+  return time >= interval.start && time < interval.end;
+}
+
+function isWeekday(day: DateTime): boolean {
+  return day.weekday <= 5;
+}
+
+function atTime(day: DateTime, time: string): DateTime {
+  const [hour, minute] = time.split(':').map(Number);
+  return day.set({ hour, minute, second: 0, millisecond: 0 });
+}
+
+function toLocalDay(calendar: ExchangeCalendarConfig, date: string | Date): DateTime {
+  const local = date instanceof Date
+    ? DateTime.fromJSDate(date, { zone: calendar.timezone })
+    : DateTime.fromISO(date, { zone: calendar.timezone });
+  return local.startOf('day');
+}
+
+function rowInstant(calendar: ExchangeCalendarConfig, row: HistoryRow): DateTime {
+  if (row.date instanceof Date) {
+    return DateTime.fromJSDate(row.date, { zone: calendar.timezone });
+  }
+  // Daily dates are already exchange trading dates
+  return DateTime.fromISO(row.date, { zone: calendar.timezone });
+}
+
+function intervalMinutes(interval: string): number | null {
+  const match = /^(\d+)(m|h)$/.exec(interval);
+  if (!match) {
+    return null;
+  }
+  return Number(match[1]) * (match[2] === 'h' ? 60 : 1);
+}
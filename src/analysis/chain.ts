@@ -0,0 +1,250 @@
+/**
+ * Option chain analytics
+ *
+ * Summarizes a chain from Ticker.getOptionChain per expiration: max pain, put/call
+ * ratios, open interest and volume by strike, and the move implied by the
+ * at-the-money straddle. Across the chain it ranks contracts whose volume is
+ * unusually high against their open interest.
+ */
+
+import { OptionChainResult, OptionContractRow } from '../types';
+import { formatDate } from '../utils/helpers';
+import { contractPrice } from './pricing';
+import { safeDivide } from './ratios';
+
+export interface StrikeActivity {
+  strike: number;
+  callOpenInterest: number;
+  putOpenInterest: number;
+  callVolume: number;
+  putVolume: number;
+}
+
+export interface ExpectedMove {
+  /** Strike of the at-the-money straddle */
+  strike: number;
+  /** Call plus put price, taken as the expected move by expiration */
+  straddlePrice: number;
+  /** Move as a fraction of the underlying price */
+  movePercent: number | null;
+  lower: number | null;
+  upper: number | null;
+}
+
+export interface ExpirationAnalytics {
+  /** Expiration date (YYYY-MM-DD) */
+  expiration: string;
+  /** Strike at which option holders' total payout at expiration is smallest */
+  maxPain: number | null;
+  callVolume: number;
+  putVolume: number;
+  callOpenInterest: number;
+  putOpenInterest: number;
+  putCallVolumeRatio: number | null;
+  putCallOpenInterestRatio: number | null;
+  expectedMove: ExpectedMove | null;
+  strikes: StrikeActivity[];
+}
+
+export interface UnusualContract {
+  contractSymbol: string | null;
+  optionType: 'call' | 'put';
+  expiration: string;
+  strike: number;
+  volume: number;
+  openInterest: number;
+  /** Volume over open interest (open interest floored at 1) */
+  volumeToOpenInterest: number;
+  lastPrice: number | null;
+}
+
+export interface OptionAnalytics {
+  underlyingSymbol: string | null;
+  underlyingPrice: number | null;
+  putCallVolumeRatio: number | null;
+  putCallOpenInterestRatio: number | null;
+  expirations: ExpirationAnalytics[];
+  unusual: UnusualContract[];
+}
+
+export interface OptionAnalyticsOptions {
+  /** Number of unusual contracts to return (default: 10) */
+  unusualLimit?: number;
+  /** Minimum volume for a contract to count as unusual (default: 100) */
+  minVolume?: number;
+}
+
+/**
+ * Strike minimizing the total intrinsic value of open calls and puts at
+ * expiration, or null without open interest
+ */
+export function maxPain(calls: OptionContractRow[], puts: OptionContractRow[]): number | null {
+  const strikes = [...new Set([...calls, ...puts].map((contract) => contract.strike ?? 0))];
+  let best: number | null = null;
+  let lowest = Infinity;
+
+  for (const settle of strikes) {
+    let payout = 0;
+    for (const call of calls) {
+      payout += (call.openInterest ?? 0) * Math.max(settle - (call.strike ?? 0), 0);
+    }
+    for (const put of puts) {
+      payout += (put.openInterest ?? 0) * Math.max((put.strike ?? 0) - settle, 0);
+    }
+    if (payout < lowest) {
+      lowest = payout;
+      best = settle;
+    }
+  }
+
+  const openInterest = [...calls, ...puts].some((contract) => (contract.openInterest ?? 0) > 0);
+  return openInterest ? best : null;
+}
+
+/**
+ * Move implied by the straddle at the strike nearest the underlying price
+ */
+export function expectedMove(
+  calls: OptionContractRow[],
+  puts: OptionContractRow[],
+  underlyingPrice: number | null
+): ExpectedMove | null {
+  if (!underlyingPrice) {
+    return null;
+  }
+
+  let best: ExpectedMove | null = null;
+  for (const call of calls) {
+    const put = puts.find((candidate) => candidate.strike === call.strike);
+    const callPrice = contractPrice(call);
+    const putPrice = put ? contractPrice(put) : null;
+    if (call.strike === undefined || callPrice === null || putPrice === null) {
+      continue;
+    }
+    if (best && Math.abs(call.strike - underlyingPrice) >= Math.abs(best.strike - underlyingPrice)) {
+      continue;
+    }
+
+    const straddlePrice = callPrice + putPrice;
+    best = {
+      strike: call.strike,
+      straddlePrice,
+      movePercent: straddlePrice / underlyingPrice,
+      lower: underlyingPrice - straddlePrice,
+      upper: underlyingPrice + straddlePrice,
+    };
+  }
+
+  return best;
+}
+
+/**
+ * Contracts with the highest volume relative to open interest
+ */
+export function unusualContracts(
+  contracts: OptionContractRow[],
+  options: OptionAnalyticsOptions = {}
+): UnusualContract[] {
+  const { unusualLimit = 10, minVolume = 100 } = options;
+
+  return contracts
+    .filter((contract) => (contract.volume ?? 0) >= minVolume)
+    .map((contract): UnusualContract => ({
+      contractSymbol: contract.contractSymbol ?? null,
+      optionType: contract.optionType,
+      expiration: expirationKey(contract),
+      strike: contract.strike ?? 0,
+      volume: contract.volume ?? 0,
+      openInterest: contract.openInterest ?? 0,
+      volumeToOpenInterest: (contract.volume ?? 0) / Math.max(contract.openInterest ?? 0, 1),
+      lastPrice: contract.lastPrice ?? null,
+    }))
+    .sort((a, b) => b.volumeToOpenInterest - a.volumeToOpenInterest || b.volume - a.volume)
+    .slice(0, unusualLimit);
+}
+
+/**
+ * Compute analytics for a whole chain
+ */
+export function computeOptionAnalytics(chain: OptionChainResult, options: OptionAnalyticsOptions = {}): OptionAnalytics {
+  const underlyingPrice = chain.underlyingPrice ?? null;
+  const groups = new Map<string, { calls: OptionContractRow[]; puts: OptionContractRow[] }>();
+
+  const group = (contract: OptionContractRow) => {
+    const key = expirationKey(contract);
+    let entry = groups.get(key);
+    if (!entry) {
+      entry = { calls: [], puts: [] };
+      groups.set(key, entry);
+    }
+    return entry;
+  };
+  chain.calls.forEach((call) => group(call).calls.push(call));
+  chain.puts.forEach((put) => group(put).puts.push(put));
+
+  const expirations = [...groups.entries()]
+    .sort(([a], [b]) => a.localeCompare(b))
+    .map(([expiration, { calls, puts }]): ExpirationAnalytics => {
+      const totals = activityTotals(calls, puts);
+      return {
+        expiration,
+        maxPain: maxPain(calls, puts),
+        ...totals,
+        putCallVolumeRatio: safeDivide(totals.putVolume, totals.callVolume),
+        putCallOpenInterestRatio: safeDivide(totals.putOpenInterest, totals.callOpenInterest),
+        expectedMove: expectedMove(calls, puts, underlyingPrice),
+        strikes: strikeActivity(calls, puts),
+      };
+    });
+
+  const totals = activityTotals(chain.calls, chain.puts);
+  return {
+    underlyingSymbol: chain.underlyingSymbol ?? null,
+    underlyingPrice,
+    putCallVolumeRatio: safeDivide(totals.putVolume, totals.callVolume),
+    putCallOpenInterestRatio: safeDivide(totals.putOpenInterest, totals.callOpenInterest),
+    expirations,
+    unusual: unusualContracts([...chain.calls, ...chain.puts], options),
+  };
+}
+
+function expirationKey(contract: OptionContractRow): string {
+  return formatDate(contract.expiration.getTime() / 1000);
+}
+
+function activityTotals(calls: OptionContractRow[], puts: OptionContractRow[]) {
+  const sum = (contracts: OptionContractRow[], field: 'volume' | 'openInterest') =>
+    contracts.reduce((total, contract) => total + (contract[field] ?? 0), 0);
+
+  return {
+    callVolume: sum(calls, 'volume'),
+    putVolume: sum(puts, 'volume'),
+    callOpenInterest: sum(calls, 'openInterest'),
+    putOpenInterest: sum(puts, 'openInterest'),
+  };
+}
+
+function strikeActivity(calls: OptionContractRow[], puts: OptionContractRow[]): StrikeActivity[] {
+  const strikes = new Map<number, StrikeActivity>();
+  const entry = (strike: number): StrikeActivity => {
+    let activity = strikes.get(strike);
+    if (!activity) {
+      activity = { strike, callOpenInterest: 0, putOpenInterest: 0, callVolume: 0, putVolume: 0 };
+      strikes.set(strike, activity);
+    }
+    return activity;
+  };
+
+  for (const call of calls) {
+    const activity = entry(call.strike ?? 0);
+    activity.callOpenInterest += call.openInterest ?? 0;
+    activity.callVolume += call.volume ?? 0;
+  }
+  for (const put of puts) {
+    const activity = entry(put.strike ?? 0);
+    activity.putOpenInterest += put.openInterest ?? 0;
+    activity.putVolume += put.volume ?? 0;
+  }
+
+  return [...strikes.values()].sort((a, b) => a.strike - b.strike);
+}
@@ -0,0 +1,17 @@
+/**
+ * Analysis exports
+ */
+
+export * from './adjustments';
+export * from './resample';
+export * from './calendar';
+export * from './indicators';
+export * from './risk';
+export * from './panel';
+export * from './statements';
+export * from './ratios';
+export * from './ttm';
+export * from './pricing';
+export * from './chain';
+export * from './surface';
+export * from './valuation';
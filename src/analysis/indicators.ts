@@ -0,0 +1,606 @@
+/**
+ * Technical indicators over OHLCV history
+ *
+ * Series functions take one value per bar and return one value per bar, with
+ * null during the warm-up period. Bars with missing data are skipped rather
+ * than treated as zero: the indicator is computed over the remaining bars and
+ * the skipped positions are null in the output, so a gap never breaks a window.
+ */
+
+import { HistoryData, HistoryRow, SymbolResult } from '../types';
+
+export type Series = Array<number | null>;
+
+export interface MacdResult {
+  macd: Series;
+  signal: Series;
+  histogram: Series;
+}
+
+export interface BollingerResult {
+  upper: Series;
+  middle: Series;
+  lower: Series;
+}
+
+export interface StochasticResult {
+  k: Series;
+  d: Series;
+}
+
+export interface AdxResult {
+  adx: Series;
+  plusDI: Series;
+  minusDI: Series;
+}
+
+/**
+ * Indicator to add to history rows. Omitted parameters use the usual defaults
+ * (20-bar averages and Bollinger Bands, 14-bar RSI/ATR/ADX/Stochastic, 12/26/9 MACD).
+ */
+export type IndicatorSpec =
+  | { name: 'sma' | 'ema' | 'wma'; period?: number }
+  | { name: 'rsi' | 'atr' | 'adx'; period?: number }
+  | { name: 'macd'; fast?: number; slow?: number; signal?: number }
+  | { name: 'bollinger'; period?: number; stdDev?: number }
+  | { name: 'stochastic'; kPeriod?: number; dPeriod?: number }
+  | { name: 'obv' | 'vwap' };
+
+export type IndicatorName = IndicatorSpec['name'];
+
+/**
+ * A history row with indicator values keyed by column name and parameters,
+ * e.g. `sma20`, `rsi14`, `macd12_26_9`, `macdSignal12_26_9`, `bbUpper20_2`,
+ * `stochK14_3`, `adx14`
+ */
+export interface IndicatorRow extends HistoryRow {
+  indicators: Record<string, number | null>;
+}
+
+const INDICATOR_NAMES: IndicatorName[] = [
+  'sma', 'ema', 'wma', 'rsi', 'macd', 'bollinger', 'atr', 'stochastic', 'obv', 'vwap', 'adx',
+];
+
+// Positional parameters accepted by parseIndicators, in IndicatorSpec order
+const INDICATOR_PARAMS: Record<IndicatorName, string[]> = {
+  sma: ['period'],
+  ema: ['period'],
+  wma: ['period'],
+  rsi: ['period'],
+  atr: ['period'],
+  adx: ['period'],
+  macd: ['fast', 'slow', 'signal'],
+  bollinger: ['period', 'stdDev'],
+  stochastic: ['kPeriod', 'dPeriod'],
+  obv: [],
+  vwap: [],
+};
+
+// The only parameter that is not a window length
+const FRACTIONAL_PARAMS = ['stdDev'];
+
+// ============================================================
+// PRICE SERIES INDICATORS
+// ============================================================
+
+/**
+ * Simple moving average
+ */
+export function sma(values: Series, period: number): Series {
+  return skipNulls(values, (compact) => {
+    const result: Series = new Array(compact.length).fill(null);
+    let sum = 0;
+    for (let i = 0; i < compact.length; i++) {
+      sum += compact[i];
+      if (i >= period) {
+        sum -= compact[i - period];
+      }
+      if (i >= period - 1) {
+        result[i] = sum / period;
+      }
+    }
+    return result;
+  });
+}
+
+/**
+ * Exponential moving average, seeded with the SMA of the first `period` values
+ */
+export function ema(values: Series, period: number): Series {
+  return skipNulls(values, (compact) => {
+    const result: Series = new Array(compact.length).fill(null);
+    const alpha = 2 / (period + 1);
+    let previous: number | null = null;
+
+    for (let i = period - 1; i < compact.length; i++) {
+      previous = previous === null
+        ? mean(compact.slice(0, period))
+        : compact[i] * alpha + previous * (1 - alpha);
+      result[i] = previous;
+    }
+    return result;
+  });
+}
+
+/**
+ * Linearly weighted moving average (most recent value weighted `period`)
+ */
+export function wma(values: Series, period: number): Series {
+  const weightSum = (period * (period + 1)) / 2;
+  return skipNulls(values, (compact) =>
+    compact.map((_, i) => {
+      if (i < period - 1) {
+        return null;
+      }
+      let sum = 0;
+      for (let j = 0; j < period; j++) {
+        sum += compact[i - period + 1 + j] * (j + 1);
+      }
+      return sum / weightSum;
+    })
+  );
+}
+
+/**
+ * Relative Strength Index with Wilder smoothing
+ */
+export function rsi(values: Series, period = 14): Series {
+  return skipNulls(values, (compact) => {
+    const result: Series = new Array(compact.length).fill(null);
+    let avgGain = 0;
+    let avgLoss = 0;
+
+    for (let i = 1; i < compact.length; i++) {
+      const change = compact[i] - compact[i - 1];
+      const gain = Math.max(change, 0);
+      const loss = Math.max(-change, 0);
+
+      if (i <= period) {
+        avgGain += gain / period;
+        avgLoss += loss / period;
+      } else {
+        avgGain = (avgGain * (period - 1) + gain) / period;
+        avgLoss = (avgLoss * (period - 1) + loss) / period;
+      }
+
+      if (i >= period) {
+        if (avgLoss === 0) {
+          result[i] = avgGain === 0 ? 50 : 100;
+        } else {
+          result[i] = 100 - 100 / (1 + avgGain / avgLoss);
+        }
+      }
+    }
+    return result;
+  });
+}
+
+/**
+ * Moving Average Convergence Divergence: fast EMA minus slow EMA, its signal
+ * EMA, and the histogram between them
+ */
+export function macd(values: Series, fast = 12, slow = 26, signal = 9): MacdResult {
+  const fastEma = ema(values, fast);
+  const slowEma = ema(values, slow);
+  const line = fastEma.map((value, i) =>
+    value === null || slowEma[i] === null ? null : value - (slowEma[i] as number)
+  );
+  const signalLine = ema(line, signal);
+
+  return {
+    macd: line,
+    signal: signalLine,
+    histogram: line.map((value, i) =>
+      value === null || signalLine[i] === null ? null : value - (signalLine[i] as number)
+    ),
+  };
+}
+
+/**
+ * Bollinger Bands: SMA plus/minus `stdDev` population standard deviations
+ */
+export function bollingerBands(values: Series, period = 20, stdDev = 2): BollingerResult {
+  const middle = sma(values, period);
+  const deviation = skipNulls(values, (compact) =>
+    compact.map((_, i) => (i < period - 1 ? null : standardDeviation(compact.slice(i - period + 1, i + 1))))
+  );
+
+  return {
+    upper: middle.map((value, i) => (value === null ? null : value + stdDev * (deviation[i] as number))),
+    middle,
+    lower: middle.map((value, i) => (value === null ? null : value - stdDev * (deviation[i] as number))),
+  };
+}
+
+// ============================================================
+// OHLCV INDICATORS
+// ============================================================
+
+/**
+ * Average True Range with Wilder smoothing. Bars missing high, low or close are skipped.
+ */
+export function atr(rows: HistoryRow[], period = 14): Series {
+  return skipInvalidBars(rows, hasRange, (bars) => wilderAverage(trueRanges(bars), period));
+}
+
+/**
+ * Stochastic oscillator: %K over `kPeriod` bars and %D as its `dPeriod` SMA
+ */
+export function stochastic(rows: HistoryRow[], kPeriod = 14, dPeriod = 3): StochasticResult {
+  const k = skipInvalidBars(rows, hasRange, (bars) =>
+    bars.map((bar, i) => {
+      if (i < kPeriod - 1) {
+        return null;
+      }
+      const window = bars.slice(i - kPeriod + 1, i + 1);
+      const highest = Math.max(...window.map((b) => b.high as number));
+      const lowest = Math.min(...window.map((b) => b.low as number));
+      return highest === lowest ? 50 : (100 * ((bar.close as number) - lowest)) / (highest - lowest);
+    })
+  );
+
+  return { k, d: sma(k, dPeriod) };
+}
+
+/**
+ * On-Balance Volume, starting at zero on the first bar with a close.
+ * Missing volume counts as zero.
+ */
+export function obv(rows: HistoryRow[]): Series {
+  return skipInvalidBars(rows, (row) => row.close !== null, (bars) => {
+    let total = 0;
+    return bars.map((bar, i) => {
+      if (i > 0) {
+        const change = (bar.close as number) - (bars[i - 1].close as number);
+        total += Math.sign(change) * (bar.volume ?? 0);
+      }
+      return total;
+    });
+  });
+}
+
+/**
+ * Volume-weighted average price of the typical price (high + low + close) / 3.
+ * Resets at the start of each exchange day for intraday rows; cumulative over
+ * the whole series for daily and longer bars.
+ */
+export function vwap(rows: HistoryRow[]): Series {
+  return skipInvalidBars(rows, hasRange, (bars) => {
+    let day: string | null = null;
+    let priceVolume = 0;
+    let volume = 0;
+
+    return bars.map((bar) => {
+      const barDay = intradayDay(bar);
+      if (barDay !== day) {
+        day = barDay;
+        priceVolume = 0;
+        volume = 0;
+      }
+
+      const typical = ((bar.high as number) + (bar.low as number) + (bar.close as number)) / 3;
+      priceVolume += typical * (bar.volume ?? 0);
+      volume += bar.volume ?? 0;
+      return volume > 0 ? priceVolume / volume : null;
+    });
+  });
+}
+
+/**
+ * Average Directional Index with the +DI and -DI lines (Wilder)
+ */
+export function adx(rows: HistoryRow[], period = 14): AdxResult {
+  const computed = (bars: HistoryRow[]): AdxResult => {
+    const length = bars.length;
+    const plusDI: Series = new Array(length).fill(null);
+    const minusDI: Series = new Array(length).fill(null);
+    const adxLine: Series = new Array(length).fill(null);
+    const ranges = trueRanges(bars);
+
+    let smoothedTr = 0;
+    let smoothedPlus = 0;
+    let smoothedMinus = 0;
+    let adxValue: number | null = null;
+    const dxValues: number[] = [];
+
+    for (let i = 1; i < length; i++) {
+      const up = (bars[i].high as number) - (bars[i - 1].high as number);
+      const down = (bars[i - 1].low as number) - (bars[i].low as number);
+      const plusDM = up > down && up > 0 ? up : 0;
+      const minusDM = down > up && down > 0 ? down : 0;
+
+      if (i <= period) {
+        smoothedTr += ranges[i];
+        smoothedPlus += plusDM;
+        smoothedMinus += minusDM;
+      } else {
+        smoothedTr = smoothedTr - smoothedTr / period + ranges[i];
+        smoothedPlus = smoothedPlus - smoothedPlus / period + plusDM;
+        smoothedMinus = smoothedMinus - smoothedMinus / period + minusDM;
+      }
+
+      if (i < period) {
+        continue;
+      }
+
+      const plus = smoothedTr === 0 ? 0 : (100 * smoothedPlus) / smoothedTr;
+      const minus = smoothedTr === 0 ? 0 : (100 * smoothedMinus) / smoothedTr;
+      plusDI[i] = plus;
+      minusDI[i] = minus;
+
+      const dx = plus + minus === 0 ? 0 : (100 * Math.abs(plus - minus)) / (plus + minus);
+      if (adxValue === null) {
+        dxValues.push(dx);
+        if (dxValues.length === period) {
+          adxValue = mean(dxValues);
+          adxLine[i] = adxValue;
+        }
+      } else {
+        adxValue = (adxValue * (period - 1) + dx) / period;
+        adxLine[i] = adxValue;
+      }
+    }
+
+    return { adx: adxLine, plusDI, minusDI };
+  };
+
+  const valid = validIndices(rows, hasRange);
+  const result = computed(valid.map((i) => rows[i]));
+  return {
+    adx: scatter(valid, result.adx, rows.length),
+    plusDI: scatter(valid, result.plusDI, rows.length),
+    minusDI: scatter(valid, result.minusDI, rows.length),
+  };
+}
+
+// ============================================================
+// APPLYING INDICATORS TO HISTORY
+// ============================================================
+
+/**
+ * Compute indicators for a single symbol's bars (ascending time order) and
+ * attach them to each row. Moving averages and oscillators use the close.
+ */
+export function addIndicators(rows: HistoryRow[], specs: IndicatorSpec[]): IndicatorRow[] {
+  const columns: Record<string, Series> = {};
+  const closes = rows.map((row) => row.close);
+
+  for (const spec of specs) {
+    switch (spec.name) {
+      case 'sma':
+      case 'ema':
+      case 'wma': {
+        const period = spec.period ?? 20;
+        const compute = { sma, ema, wma }[spec.name];
+        columns[`${spec.name}${period}`] = compute(closes, period);
+        break;
+      }
+      case 'rsi': {
+        const period = spec.period ?? 14;
+        columns[`rsi${period}`] = rsi(closes, period);
+        break;
+      }
+      case 'macd': {
+        const { fast = 12, slow = 26, signal = 9 } = spec;
+        const result = macd(closes, fast, slow, signal);
+        const suffix = `${fast}_${slow}_${signal}`;
+        columns[`macd${suffix}`] = result.macd;
+        columns[`macdSignal${suffix}`] = result.signal;
+        columns[`macdHistogram${suffix}`] = result.histogram;
+        break;
+      }
+      case 'bollinger': {
+        const { period = 20, stdDev = 2 } = spec;
+        const result = bollingerBands(closes, period, stdDev);
+        const suffix = `${period}_${stdDev}`;
+        columns[`bbUpper${suffix}`] = result.upper;
+        columns[`bbMiddle${suffix}`] = result.middle;
+        columns[`bbLower${suffix}`] = result.lower;
+        break;
+      }
+      case 'atr': {
+        const period = spec.period ?? 14;
+        columns[`atr${period}`] = atr(rows, period);
+        break;
+      }
+      case 'stochastic': {
+        const { kPeriod = 14, dPeriod = 3 } = spec;
+        const result = stochastic(rows, kPeriod, dPeriod);
+        const suffix = `${kPeriod}_${dPeriod}`;
+        columns[`stochK${suffix}`] = result.k;
+        columns[`stochD${suffix}`] = result.d;
+        break;
+      }
+      case 'obv':
+        columns.obv = obv(rows);
+        break;
+      case 'vwap':
+        columns.vwap = vwap(rows);
+        break;
+      case 'adx': {
+        const period = spec.period ?? 14;
+        const result = adx(rows, period);
+        columns[`adx${period}`] = result.adx;
+        columns[`plusDI${period}`] = result.plusDI;
+        columns[`minusDI${period}`] = result.minusDI;
+        break;
+      }
+      default:
+        throw new Error(`Invalid indicator: ${(spec as { name: string }).name}`);
+    }
+  }
+
+  return rows.map((row, i) => {
+    const indicators: Record<string, number | null> = {};
+    for (const [column, values] of Object.entries(columns)) {
+      indicators[column] = values[i];
+    }
+    return { ...row, indicators };
+  });
+}
+
+/**
+ * Add indicators to every symbol in a Ticker.getHistory result.
+ * Symbols that returned an error are passed through unchanged.
+ */
+export function addHistoryIndicators(
+  data: HistoryData,
+  specs: IndicatorSpec[]
+): SymbolResult<IndicatorRow[]> {
+  const result: SymbolResult<IndicatorRow[]> = {};
+  for (const [symbol, rows] of Object.entries(data)) {
+    result[symbol] = Array.isArray(rows) ? addIndicators(rows, specs) : rows;
+  }
+  return result;
+}
+
+/**
+ * Parse a comma-separated indicator list such as "sma:50,ema:20,rsi,macd:12:26:9".
+ * Parameters follow the indicator name in the order of its IndicatorSpec fields.
+ */
+export function parseIndicators(text: string): IndicatorSpec[] {
+  return text
+    .split(',')
+    .map((part) => part.trim())
+    .filter((part) => part.length > 0)
+    .map((part) => {
+      const [rawName, ...rawParams] = part.split(':');
+      const name = rawName.trim().toLowerCase() as IndicatorName;
+      const params = rawParams.map((param) => Number(param));
+
+      if (!INDICATOR_NAMES.includes(name)) {
+        throw new Error(`Invalid indicator: ${rawName}. Valid indicators: ${INDICATOR_NAMES.join(', ')}`);
+      }
+      if (params.some((param) => !Number.isFinite(param) || param <= 0)) {
+        throw new Error(`Invalid indicator parameters: ${part}`);
+      }
+      const names = INDICATOR_PARAMS[name];
+      if (params.length > names.length) {
+        throw new Error(
+          `Too many parameters for ${name}: ${part} (expected ${names.length > 0 ? names.join(', ') : 'none'})`
+        );
+      }
+      const fractional = params.findIndex((param, i) => !FRACTIONAL_PARAMS.includes(names[i]) && !Number.isInteger(param));
+      if (fractional >= 0) {
+        throw new Error(`Invalid indicator parameters: ${part} (${name} ${names[fractional]} must be a whole number)`);
+      }
+
+      const [first, second, third] = params;
+      switch (name) {
+        case 'macd':
+          return { name, fast: first, slow: second, signal: third };
+        case 'bollinger':
+          return { name, period: first, stdDev: second };
+        case 'stochastic':
+          return { name, kPeriod: first, dPeriod: second };
+        case 'obv':
+        case 'vwap':
+          return { name };
+        default:
+          return { name, period: first };
+      }
+    });
+}
+
+// ============================================================
+// HELPERS
+// ============================================================
+
+/**
+ * Run `compute` over the non-null values and map the results back to their positions
+ */
+function skipNulls(values: Series, compute: (compact: number[]) => Series): Series {
+  const indices: number[] = [];
+  const compact: number[] = [];
+  values.forEach((value, i) => {
+    if (value !== null && value !== undefined && !Number.isNaN(value)) {
+      indices.push(i);
+      compact.push(value);
+    }
+  });
+  return scatter(indices, compute(compact), values.length);
+}
+
+/**
+ * Run `compute` over the bars that pass `isValid` and map the results back
+ */
+function skipInvalidBars(
+  rows: HistoryRow[],
+  isValid: (row: HistoryRow) => boolean,
+  compute: (bars: HistoryRow[]) => Series
+): Series {
+  const indices = validIndices(rows, isValid);
+  return scatter(indices, compute(indices.map((i) => rows[i])), rows.length);
+}
+
+function validIndices(rows: HistoryRow[], isValid: (row: HistoryRow) => boolean): number[] {
+  const indices: number[] = [];
+  rows.forEach((row, i) => {
+    if (isValid(row)) {
+      indices.push(i);
+    }
+  });
+  return indices;
+}
+
+function scatter(indices: number[], values: Series, length: number): Series {
+  const result: Series = new Array(length).fill(null);
+  indices.forEach((index, i) => {
+    result[index] = values[i] ?? null;
+  });
+  return result;
+}
+
+function hasRange(row: HistoryRow): boolean {
+  return row.high !== null && row.low !== null && row.close !== null;
+}
+
+/**
+ * True range per bar; the first bar uses its high-low range
+ */
+function trueRanges(bars: HistoryRow[]): number[] {
+  return bars.map((bar, i) => {
+    const high = bar.high as number;
+    const low = bar.low as number;
+    if (i === 0) {
+      return high - low;
+    }
+    const previousClose = bars[i - 1].close as number;
+    return Math.max(high - low, Math.abs(high - previousClose), Math.abs(low - previousClose));
+  });
+}
+
+/**
+ * Wilder's smoothing: the first value is the mean of the first `period` inputs
+ */
+function wilderAverage(values: number[], period: number): Series {
+  const result: Series = new Array(values.length).fill(null);
+  let average: number | null = null;
+
+  for (let i = period - 1; i < values.length; i++) {
+    average = average === null
+      ? mean(values.slice(0, period))
+      : (average * (period - 1) + values[i]) / period;
+    result[i] = average;
+  }
+  return result;
+}
+
+/**
+ * Exchange day of an intraday bar, or null for daily and longer bars
+ */
+function intradayDay(row: HistoryRow): string | null {
+  if (row.localDate) {
+    return row.localDate.slice(0, 10);
+  }
+  return row.date instanceof Date ? row.date.toISOString().slice(0, 10) : null;
+}
+
+function mean(values: number[]): number {
+  return values.reduce((sum, value) => sum + value, 0) / values.length;
+}
+
+function standardDeviation(values: number[]): number {
+  const average = mean(values);
+  return Math.sqrt(mean(values.map((value) => (value - average) ** 2)));
+}
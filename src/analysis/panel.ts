@@ -0,0 +1,254 @@
+/**
+ * Multi-symbol price panels and correlation
+ *
+ * A panel aligns every symbol from a Ticker.getHistory result on one shared,
+ * ascending date index, giving a wide table with one column per symbol.
+ * Correlation and covariance are computed pairwise over the bars where both
+ * symbols have a value, so one symbol's gap does not drop data for the others.
+ */
+
+import { HistoryData, HistoryRow, SymbolError } from '../types';
+
+/**
+ * How to fill a symbol's value on a date it has no bar for:
+ * - 'ffill': carry the previous value forward (null before the first bar)
+ * - 'drop': keep only dates on which every symbol has a value
+ * - 'null': keep every date and leave gaps as null
+ */
+export type GapPolicy = 'ffill' | 'drop' | 'null';
+
+export type PanelField = 'open' | 'high' | 'low' | 'close' | 'adjclose' | 'volume';
+
+export interface PanelOptions {
+  /** Column to tabulate (default: 'adjclose', falling back to close for series without it) */
+  field?: PanelField;
+  /** Gap policy (default: 'ffill') */
+  gaps?: GapPolicy;
+}
+
+export interface PanelRow {
+  date: string | Date;
+  /** Value per symbol */
+  values: Record<string, number | null>;
+}
+
+export interface PricePanel {
+  field: PanelField;
+  gaps: GapPolicy;
+  /** Symbols with data, in request order */
+  symbols: string[];
+  rows: PanelRow[];
+  /** Symbols that failed, with their error */
+  errors: Record<string, SymbolError>;
+}
+
+export interface CorrelationOptions {
+  /** Correlate bar-to-bar returns rather than price levels (default: true) */
+  returns?: boolean;
+}
+
+/**
+ * Symmetric matrix indexed like `symbols`; null where a pair has fewer than
+ * two shared observations or no variance
+ */
+export interface SymbolMatrix {
+  symbols: string[];
+  matrix: Array<Array<number | null>>;
+}
+
+export interface RollingCorrelation extends SymbolMatrix {
+  date: string | Date;
+}
+
+/**
+ * Correlation and covariance of a panel as returned by Ticker.getCorrelation
+ */
+export interface CorrelationReport {
+  symbols: string[];
+  /** Panel dates the matrices are computed over */
+  startDate: string | Date | null;
+  endDate: string | Date | null;
+  correlation: SymbolMatrix['matrix'];
+  covariance: SymbolMatrix['matrix'];
+  /** Rolling correlation, when a window was requested */
+  rolling?: RollingCorrelation[];
+  /** Symbols that failed, with their error */
+  errors: Record<string, SymbolError>;
+}
+
+/**
+ * Align every symbol in a Ticker.getHistory result on a shared date index
+ */
+export function buildPanel(data: HistoryData, options: PanelOptions = {}): PricePanel {
+  const { field = 'adjclose', gaps = 'ffill' } = options;
+  const symbols: string[] = [];
+  const errors: Record<string, SymbolError> = {};
+  const series = new Map<string, Map<string, number | null>>();
+  const dates = new Map<string, string | Date>();
+
+  for (const [symbol, rows] of Object.entries(data)) {
+    if (!Array.isArray(rows)) {
+      errors[symbol] = rows;
+      continue;
+    }
+
+    const column = field === 'adjclose' && !rows.some((row) => row.adjclose != null) ? 'close' : field;
+    const values = new Map<string, number | null>();
+    for (const row of rows) {
+      const key = dateKey(row.date);
+      dates.set(key, row.date);
+      values.set(key, row[column] ?? null);
+    }
+    symbols.push(symbol);
+    series.set(symbol, values);
+  }
+
+  const index = [...dates.keys()].sort((a, b) => Date.parse(a) - Date.parse(b));
+  const last: Record<string, number | null> = Object.fromEntries(symbols.map((s) => [s, null]));
+  const rows: PanelRow[] = [];
+
+  for (const key of index) {
+    const values: Record<string, number | null> = {};
+    for (const symbol of symbols) {
+      const value = series.get(symbol)?.get(key) ?? null;
+      if (value !== null) {
+        last[symbol] = value;
+      }
+      values[symbol] = gaps === 'ffill' ? last[symbol] : value;
+    }
+
+    if (gaps === 'drop' && symbols.some((symbol) => values[symbol] === null)) {
+      continue;
+    }
+    rows.push({ date: dates.get(key) as string | Date, values });
+  }
+
+  return { field, gaps, symbols, rows, errors };
+}
+
+/**
+ * Panel columns as one array per symbol, aligned with panel.rows
+ */
+export function panelColumns(panel: PricePanel): Record<string, Array<number | null>> {
+  return Object.fromEntries(
+    panel.symbols.map((symbol) => [symbol, panel.rows.map((row) => row.values[symbol])])
+  );
+}
+
+/**
+ * Pairwise Pearson correlation matrix of a panel
+ */
+export function correlationMatrix(panel: PricePanel, options: CorrelationOptions = {}): SymbolMatrix {
+  return pairwiseMatrix(panel.symbols, observations(panel, options), correlation);
+}
+
+/**
+ * Pairwise sample covariance matrix of a panel
+ */
+export function covarianceMatrix(panel: PricePanel, options: CorrelationOptions = {}): SymbolMatrix {
+  return pairwiseMatrix(panel.symbols, observations(panel, options), covariance);
+}
+
+/**
+ * Correlation matrix over a rolling window of `window` observations, one entry
+ * per panel date once the window is full
+ */
+export function rollingCorrelation(
+  panel: PricePanel,
+  window: number,
+  options: CorrelationOptions = {}
+): RollingCorrelation[] {
+  if (!Number.isInteger(window) || window < 2) {
+    throw new Error('Rolling window must be an integer of at least 2');
+  }
+
+  const columns = observations(panel, options);
+  const dates = panel.rows.map((row) => row.date).slice(options.returns === false ? 0 : 1);
+  const result: RollingCorrelation[] = [];
+
+  for (let end = window; end <= dates.length; end++) {
+    const slice = Object.fromEntries(
+      Object.entries(columns).map(([symbol, values]) => [symbol, values.slice(end - window, end)])
+    );
+    result.push({
+      date: dates[end - 1],
+      ...pairwiseMatrix(panel.symbols, slice, correlation),
+    });
+  }
+
+  return result;
+}
+
+/**
+ * Columns to correlate: price levels, or returns between consecutive panel rows
+ */
+function observations(panel: PricePanel, options: CorrelationOptions): Record<string, Array<number | null>> {
+  const columns = panelColumns(panel);
+  if (options.returns === false) {
+    return columns;
+  }
+
+  return Object.fromEntries(
+    Object.entries(columns).map(([symbol, values]) => [
+      symbol,
+      values.slice(1).map((value, i) => {
+        const previous = values[i];
+        return value === null || previous === null || previous === 0 ? null : value / previous - 1;
+      }),
+    ])
+  );
+}
+
+function pairwiseMatrix(
+  symbols: string[],
+  columns: Record<string, Array<number | null>>,
+  measure: (a: number[], b: number[]) => number | null
+): SymbolMatrix {
+  const matrix = symbols.map(() => symbols.map((): number | null => null));
+
+  for (let i = 0; i < symbols.length; i++) {
+    for (let j = i; j < symbols.length; j++) {
+      const a: number[] = [];
+      const b: number[] = [];
+      const left = columns[symbols[i]];
+      const right = columns[symbols[j]];
+      for (let k = 0; k < left.length; k++) {
+        if (left[k] !== null && right[k] !== null) {
+          a.push(left[k] as number);
+          b.push(right[k] as number);
+        }
+      }
+      matrix[i][j] = matrix[j][i] = measure(a, b);
+    }
+  }
+
+  return { symbols, matrix };
+}
+
+function covariance(a: number[], b: number[]): number | null {
+  if (a.length < 2) {
+    return null;
+  }
+  const meanA = a.reduce((sum, value) => sum + value, 0) / a.length;
+  const meanB = b.reduce((sum, value) => sum + value, 0) / b.length;
+  let total = 0;
+  for (let i = 0; i < a.length; i++) {
+    total += (a[i] - meanA) * (b[i] - meanB);
+  }
+  return total / (a.length - 1);
+}
+
+function correlation(a: number[], b: number[]): number | null {
+  const cov = covariance(a, b);
+  const varA = covariance(a, a);
+  const varB = covariance(b, b);
+  if (cov === null || !varA || !varB) {
+    return null;
+  }
+  // Clamp rounding error so perfectly correlated series report exactly +/-1
+  return Math.max(-1, Math.min(1, cov / Math.sqrt(varA * varB)));
+}
+
+function dateKey(date: HistoryRow['date']): string {
+  return date instanceof Date ? date.toISOString() : date;
+}
@@ -0,0 +1,338 @@
+/**
+ * Option pricing, Greeks and implied volatility
+ *
+ * European contracts use Black-Scholes-Merton with a continuous dividend
+ * yield. American contracts use the Barone-Adesi-Whaley quadratic
+ * approximation, which adds an early-exercise premium to the European value;
+ * their Greeks are taken by finite differences of that price. Implied
+ * volatility is solved from the contract's bid/ask midpoint (last price when
+ * there is no two-sided quote) rather than taken from Yahoo.
+ */
+
+import { DateTime } from 'luxon';
+import { OptionChainResult, OptionContractRow, OptionGreeks, OptionStraddleRow } from '../types';
+
+export type OptionType = 'call' | 'put';
+
+export type ExerciseStyle = 'american' | 'european';
+
+export interface PricingInputs {
+  type: OptionType;
+  spot: number;
+  strike: number;
+  /** Time to expiration in years */
+  years: number;
+  /** Annual risk-free rate (continuously compounded) */
+  rate: number;
+  /** Annual dividend yield (continuous) */
+  dividendYield: number;
+  volatility: number;
+}
+
+export interface ChainPricingOptions {
+  riskFreeRate: number;
+  dividendYield?: number;
+  style?: ExerciseStyle;
+  /** Valuation time (default: now) */
+  now?: Date;
+}
+
+const DAYS_PER_YEAR = 365;
+
+const HOUR_MS = 60 * 60 * 1000;
+
+// Yahoo expirations are midnight UTC; US equity options stop trading at the 16:00 ET close
+const EXPIRY_ZONE = 'America/New_York';
+const EXPIRY_CLOSE_HOUR = 16;
+
+// Floor on time to expiration so same-day contracts still price
+const MIN_YEARS = 1 / (DAYS_PER_YEAR * 24);
+
+const MIN_VOLATILITY = 1e-4;
+const MAX_VOLATILITY = 5;
+
+/**
+ * Standard normal density
+ */
+export function normalPdf(x: number): number {
+  return Math.exp(-0.5 * x * x) / Math.sqrt(2 * Math.PI);
+}
+
+/**
+ * Standard normal CDF (complementary error function approximation, relative
+ * error below 1.2e-7)
+ */
+export function normalCdf(x: number): number {
+  const z = Math.abs(x) / Math.SQRT2;
+  const t = 1 / (1 + 0.5 * z);
+  const erfc = t * Math.exp(
+    -z * z - 1.26551223 + t * (1.00002368 + t * (0.37409196 + t * (0.09678418 + t * (-0.18628806 +
+      t * (0.27886807 + t * (-1.13520398 + t * (1.48851587 + t * (-0.82215223 + t * 0.17087277))))))))
+  );
+  return x >= 0 ? 1 - erfc / 2 : erfc / 2;
+}
+
+/**
+ * Black-Scholes-Merton price of a European option
+ */
+export function blackScholesPrice(inputs: PricingInputs): number {
+  const { type, spot, strike, years, rate, dividendYield } = inputs;
+  const { d1, d2 } = dTerms(inputs);
+  const spotDiscount = Math.exp(-dividendYield * years);
+  const strikeDiscount = Math.exp(-rate * years);
+
+  return type === 'call'
+    ? spot * spotDiscount * normalCdf(d1) - strike * strikeDiscount * normalCdf(d2)
+    : strike * strikeDiscount * normalCdf(-d2) - spot * spotDiscount * normalCdf(-d1);
+}
+
+/**
+ * Barone-Adesi-Whaley price of an American option. Calls on non-dividend
+ * payers and puts at non-positive rates are never exercised early and get the
+ * European price.
+ */
+export function baroneAdesiWhaleyPrice(inputs: PricingInputs): number {
+  const { type, spot, strike, years, rate, dividendYield, volatility } = inputs;
+  const european = blackScholesPrice(inputs);
+
+  if ((type === 'call' && dividendYield <= 0) || (type === 'put' && rate <= 0)) {
+    return european;
+  }
+
+  const carry = rate - dividendYield;
+  const variance = volatility * volatility;
+  const n = 2 * carry / variance;
+  // m / k with k = 1 - exp(-rT); at a zero rate it tends to 2 / (σ²T)
+  const mOverK = rate === 0 ? 2 / (variance * years) : (2 * rate / variance) / -Math.expm1(-rate * years);
+  const sign = type === 'call' ? 1 : -1;
+  const exponent = (-(n - 1) + sign * Math.sqrt((n - 1) ** 2 + 4 * mOverK)) / 2;
+
+  const critical = criticalPrice(inputs, exponent);
+  const carryDiscount = Math.exp((carry - rate) * years);
+  const { d1 } = dTerms({ ...inputs, spot: critical });
+  const coefficient = sign * (critical / exponent) * (1 - carryDiscount * normalCdf(sign * d1));
+
+  if (type === 'call') {
+    return spot < critical ? european + coefficient * (spot / critical) ** exponent : spot - strike;
+  }
+  return spot > critical ? european + coefficient * (spot / critical) ** exponent : strike - spot;
+}
+
+/**
+ * Option price for the exercise style
+ */
+export function optionPrice(inputs: PricingInputs, style: ExerciseStyle = 'american'): number {
+  return style === 'american' ? baroneAdesiWhaleyPrice(inputs) : blackScholesPrice(inputs);
+}
+
+/**
+ * Greeks at the given volatility: analytic for European contracts, central
+ * finite differences of the Barone-Adesi-Whaley price for American ones
+ */
+export function optionGreeks(inputs: PricingInputs, style: ExerciseStyle = 'american'): Omit<OptionGreeks, 'impliedVolatility'> {
+  if (style === 'european') {
+    return europeanGreeks(inputs);
+  }
+
+  const price = (changes: Partial<PricingInputs>): number => baroneAdesiWhaleyPrice({ ...inputs, ...changes });
+  const base = price({});
+  const ds = inputs.spot * 1e-3;
+  const dv = 1e-3;
+  const dr = 1e-4;
+  const dt = Math.min(1 / DAYS_PER_YEAR, inputs.years / 2);
+  const up = price({ spot: inputs.spot + ds });
+  const down = price({ spot: inputs.spot - ds });
+
+  return {
+    delta: (up - down) / (2 * ds),
+    gamma: (up - 2 * base + down) / (ds * ds),
+    theta: (price({ years: inputs.years - dt }) - base) / (dt * DAYS_PER_YEAR),
+    vega: (price({ volatility: inputs.volatility + dv }) - price({ volatility: Math.max(inputs.volatility - dv, MIN_VOLATILITY) }))
+      / (inputs.volatility + dv - Math.max(inputs.volatility - dv, MIN_VOLATILITY)) / 100,
+    rho: (price({ rate: inputs.rate + dr }) - price({ rate: inputs.rate - dr })) / (2 * dr) / 100,
+  };
+}
+
+/**
+ * Volatility at which the model price matches the market price, or null when
+ * the price is outside what any volatility between 0.01% and 500% produces
+ * (e.g. a stale quote below intrinsic value)
+ */
+export function impliedVolatility(
+  price: number,
+  inputs: Omit<PricingInputs, 'volatility'>,
+  style: ExerciseStyle = 'american'
+): number | null {
+  const value = (volatility: number): number => optionPrice({ ...inputs, volatility }, style);
+
+  let low = MIN_VOLATILITY;
+  let high = MAX_VOLATILITY;
+  if (!(price > 0) || price < value(low) || price > value(high)) {
+    return null;
+  }
+
+  // Price is increasing in volatility, so bisection always converges
+  for (let i = 0; i < 100 && high - low > 1e-7; i++) {
+    const mid = (low + high) / 2;
+    if (value(mid) < price) {
+      low = mid;
+    } else {
+      high = mid;
+    }
+  }
+  return (low + high) / 2;
+}
+
+/**
+ * Years from now until the contract stops trading on its expiration day
+ */
+export function yearsToExpiration(expiration: Date, now: Date = new Date()): number {
+  const date = DateTime.fromJSDate(expiration, { zone: 'utc' }).toISODate() as string;
+  const close = DateTime.fromISO(date, { zone: EXPIRY_ZONE }).set({ hour: EXPIRY_CLOSE_HOUR }).toMillis();
+  return Math.max((close - now.getTime()) / (DAYS_PER_YEAR * 24 * HOUR_MS), MIN_YEARS);
+}
+
+/**
+ * Market price of a contract: bid/ask midpoint, or last price without a two-sided quote
+ */
+export function contractPrice(contract: OptionContractRow): number | null {
+  const { bid, ask, lastPrice } = contract;
+  if (bid !== undefined && ask !== undefined && bid > 0 && ask >= bid) {
+    return (bid + ask) / 2;
+  }
+  return lastPrice !== undefined && lastPrice > 0 ? lastPrice : null;
+}
+
+/**
+ * Solve implied volatility and Greeks for every contract in a chain. Contracts
+ * get greeks: null when the chain has no underlying price or no volatility
+ * fits the contract's price.
+ */
+export function addOptionGreeks(chain: OptionChainResult, options: ChainPricingOptions): OptionChainResult {
+  const { riskFreeRate, style = 'american', now = new Date() } = options;
+  const dividendYield = options.dividendYield ?? chain.dividendYield ?? 0;
+  const spot = chain.underlyingPrice;
+  const priced = new Map<OptionContractRow, OptionContractRow>();
+
+  const price = (contract: OptionContractRow): OptionContractRow => {
+    let greeks: OptionGreeks | null = null;
+    const market = contractPrice(contract);
+
+    if (spot && contract.strike && market !== null) {
+      const inputs = {
+        type: contract.optionType,
+        spot,
+        strike: contract.strike,
+        years: yearsToExpiration(contract.expiration, now),
+        rate: riskFreeRate,
+        dividendYield,
+      };
+      const volatility = impliedVolatility(market, inputs, style);
+      if (volatility !== null) {
+        greeks = { impliedVolatility: volatility, ...optionGreeks({ ...inputs, volatility }, style) };
+      }
+    }
+
+    const row = { ...contract, greeks };
+    priced.set(contract, row);
+    return row;
+  };
+
+  const calls = chain.calls.map(price);
+  const puts = chain.puts.map(price);
+  const pricedLeg = (contract: OptionContractRow | null): OptionContractRow | null =>
+    contract ? priced.get(contract) ?? price(contract) : null;
+
+  return {
+    ...chain,
+    calls,
+    puts,
+    ...(chain.straddles && {
+      straddles: chain.straddles.map((row): OptionStraddleRow => ({
+        ...row,
+        call: pricedLeg(row.call),
+        put: pricedLeg(row.put),
+      })),
+    }),
+  };
+}
+
+function dTerms(inputs: PricingInputs): { d1: number; d2: number } {
+  const { spot, strike, years, rate, dividendYield, volatility } = inputs;
+  const deviation = volatility * Math.sqrt(years);
+  const d1 = (Math.log(spot / strike) + (rate - dividendYield + volatility * volatility / 2) * years) / deviation;
+  return { d1, d2: d1 - deviation };
+}
+
+function europeanGreeks(inputs: PricingInputs): Omit<OptionGreeks, 'impliedVolatility'> {
+  const { type, spot, strike, years, rate, dividendYield, volatility } = inputs;
+  const { d1, d2 } = dTerms(inputs);
+  const spotDiscount = Math.exp(-dividendYield * years);
+  const strikeDiscount = Math.exp(-rate * years);
+  const density = normalPdf(d1);
+  const decay = -spot * spotDiscount * density * volatility / (2 * Math.sqrt(years));
+
+  const theta = type === 'call'
+    ? decay - rate * strike * strikeDiscount * normalCdf(d2) + dividendYield * spot * spotDiscount * normalCdf(d1)
+    : decay + rate * strike * strikeDiscount * normalCdf(-d2) - dividendYield * spot * spotDiscount * normalCdf(-d1);
+
+  return {
+    delta: type === 'call' ? spotDiscount * normalCdf(d1) : -spotDiscount * normalCdf(-d1),
+    gamma: spotDiscount * density / (spot * volatility * Math.sqrt(years)),
+    theta: theta / DAYS_PER_YEAR,
+    vega: spot * spotDiscount * density * Math.sqrt(years) / 100,
+    rho: (type === 'call'
+      ? strike * years * strikeDiscount * normalCdf(d2)
+      : -strike * years * strikeDiscount * normalCdf(-d2)) / 100,
+  };
+}
+
+/**
+ * Critical spot price beyond which immediate exercise is optimal, by Newton
+ * iteration from the Barone-Adesi-Whaley seed
+ */
+function criticalPrice(inputs: PricingInputs, exponent: number): number {
+  const { type, strike, years, rate, dividendYield, volatility } = inputs;
+  const carry = rate - dividendYield;
+  const variance = volatility * volatility;
+  const deviation = volatility * Math.sqrt(years);
+  const carryDiscount = Math.exp((carry - rate) * years);
+  const m = 2 * rate / variance;
+  const n = 2 * carry / variance;
+
+  if (type === 'call') {
+    const infinite = (-(n - 1) + Math.sqrt((n - 1) ** 2 + 4 * m)) / 2;
+    const limit = strike / (1 - 1 / infinite);
+    const h = -(carry * years + 2 * deviation) * strike / (limit - strike);
+    let s = strike + (limit - strike) * (1 - Math.exp(h));
+
+    for (let i = 0; i < 100; i++) {
+      const { d1 } = dTerms({ ...inputs, spot: s });
+      const rhs = blackScholesPrice({ ...inputs, spot: s }) + (1 - carryDiscount * normalCdf(d1)) * s / exponent;
+      if (Math.abs(s - strike - rhs) / strike < 1e-6) {
+        break;
+      }
+      const slope = carryDiscount * normalCdf(d1) * (1 - 1 / exponent)
+        + (1 - carryDiscount * normalPdf(d1) / deviation) / exponent;
+      s = (strike + rhs - slope * s) / (1 - slope);
+    }
+    return s;
+  }
+
+  const infinite = (-(n - 1) - Math.sqrt((n - 1) ** 2 + 4 * m)) / 2;
+  const limit = strike / (1 - 1 / infinite);
+  const h = (carry * years - 2 * deviation) * strike / (strike - limit);
+  let s = limit + (strike - limit) * Math.exp(h);
+
+  for (let i = 0; i < 100; i++) {
+    const { d1 } = dTerms({ ...inputs, spot: s });
+    const rhs = blackScholesPrice({ ...inputs, spot: s }) - (1 - carryDiscount * normalCdf(-d1)) * s / exponent;
+    if (Math.abs(strike - s - rhs) / strike < 1e-6) {
+      break;
+    }
+    const slope = -carryDiscount * normalCdf(-d1) * (1 - 1 / exponent)
+      - (1 + carryDiscount * normalPdf(-d1) / deviation) / exponent;
+    s = (strike - rhs + slope * s) / (1 + slope);
+  }
+  return s;
+}
@@ -0,0 +1,225 @@
+/**
+ * Financial ratios and growth from statement periods
+ *
+ * Works on the merged statement rows returned by Ticker.getFinancialData
+ * (one row per period, one column per line item). Return and turnover ratios
+ * use the average of the opening and closing balance when the previous period
+ * is available and the closing balance otherwise. Quarterly ratios are not
+ * annualized.
+ */
+
+import { FinancialStatementRow } from '../types';
+
+/**
+ * Line items the ratios and growth metrics are computed from
+ */
+export const RATIO_LINE_ITEMS = [
+  'TotalRevenue',
+  'GrossProfit',
+  'OperatingIncome',
+  'EBIT',
+  'InterestExpense',
+  'PretaxIncome',
+  'TaxProvision',
+  'NetIncome',
+  'DilutedEPS',
+  'TotalAssets',
+  'CurrentAssets',
+  'Inventory',
+  'CurrentLiabilities',
+  'StockholdersEquity',
+  'TotalDebt',
+  'InvestedCapital',
+  'FreeCashFlow',
+];
+
+export type GrowthMetric =
+  | 'revenue'
+  | 'grossProfit'
+  | 'operatingIncome'
+  | 'netIncome'
+  | 'dilutedEPS'
+  | 'freeCashFlow';
+
+export type GrowthValues = Record<GrowthMetric, number | null>;
+
+export interface FinancialRatios {
+  asOfDate: string;
+  periodType: string;
+  currencyCode: string | null;
+  grossMargin: number | null;
+  operatingMargin: number | null;
+  netMargin: number | null;
+  returnOnEquity: number | null;
+  returnOnAssets: number | null;
+  returnOnInvestedCapital: number | null;
+  currentRatio: number | null;
+  quickRatio: number | null;
+  debtToEquity: number | null;
+  interestCoverage: number | null;
+  freeCashFlowMargin: number | null;
+  assetTurnover: number | null;
+  /** Growth against the same period one year earlier */
+  yoyGrowth: GrowthValues;
+  /** Growth against the previous quarter (quarterly data only) */
+  qoqGrowth: GrowthValues | null;
+}
+
+export interface FinancialRatiosReport {
+  periods: FinancialRatios[];
+  /** Compound annual growth from the first to the last period */
+  cagr: GrowthValues;
+  /** Years between the first and last period, or null with fewer than two */
+  cagrYears: number | null;
+}
+
+const GROWTH_ITEMS: Record<GrowthMetric, string> = {
+  revenue: 'TotalRevenue',
+  grossProfit: 'GrossProfit',
+  operatingIncome: 'OperatingIncome',
+  netIncome: 'NetIncome',
+  dilutedEPS: 'DilutedEPS',
+  freeCashFlow: 'FreeCashFlow',
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// How far a period end may drift from exactly one year earlier (fiscal calendars vary)
+const YEAR_TOLERANCE_DAYS = 20;
+
+// Tax rate used for NOPAT when the period's effective rate is unavailable
+const DEFAULT_TAX_RATE = 0.21;
+
+/**
+ * Ratio between two values, null when either is missing or the divisor is zero
+ */
+export function safeDivide(numerator: number | null, denominator: number | null): number | null {
+  if (numerator === null || denominator === null || denominator === 0) {
+    return null;
+  }
+  return numerator / denominator;
+}
+
+/**
+ * Period-over-period growth. The change is measured against the magnitude of
+ * the base, so growth from a loss to a smaller loss is positive.
+ */
+export function growthRate(current: number | null, previous: number | null): number | null {
+  if (current === null || previous === null || previous === 0) {
+    return null;
+  }
+  return (current - previous) / Math.abs(previous);
+}
+
+/**
+ * Compound annual growth rate; null unless both values are positive
+ */
+export function cagr(first: number | null, last: number | null, years: number): number | null {
+  if (first === null || last === null || first <= 0 || last <= 0 || years <= 0) {
+    return null;
+  }
+  return (last / first) ** (1 / years) - 1;
+}
+
+/**
+ * Compute ratios and growth for each period. TTM rows are ignored; rows are
+ * sorted by asOfDate.
+ */
+export function computeFinancialRatios(rows: FinancialStatementRow[]): FinancialRatiosReport {
+  const periods = rows
+    .filter((row) => row.periodType !== 'TTM')
+    .sort((a, b) => a.asOfDate.localeCompare(b.asOfDate));
+  const quarterly = periods.some((row) => row.periodType === '3M');
+
+  const result = periods.map((row, i): FinancialRatios => {
+    const previous = i > 0 ? periods[i - 1] : undefined;
+    const yearAgo = findYearAgo(periods, i);
+
+    const revenue = value(row, 'TotalRevenue');
+    const netIncome = value(row, 'NetIncome');
+    const equity = average(row, previous, 'StockholdersEquity');
+    const assets = average(row, previous, 'TotalAssets');
+    const currentAssets = value(row, 'CurrentAssets');
+    const currentLiabilities = value(row, 'CurrentLiabilities');
+    const interestExpense = value(row, 'InterestExpense');
+
+    const taxRate = safeDivide(value(row, 'TaxProvision'), value(row, 'PretaxIncome'));
+    const operatingIncome = value(row, 'OperatingIncome');
+    const nopat = operatingIncome === null
+      ? null
+      : operatingIncome * (1 - (taxRate !== null && taxRate >= 0 && taxRate < 1 ? taxRate : DEFAULT_TAX_RATE));
+
+    return {
+      asOfDate: row.asOfDate,
+      periodType: row.periodType,
+      currencyCode: row.currencyCode,
+      grossMargin: safeDivide(value(row, 'GrossProfit'), revenue),
+      operatingMargin: safeDivide(operatingIncome, revenue),
+      netMargin: safeDivide(netIncome, revenue),
+      returnOnEquity: safeDivide(netIncome, equity),
+      returnOnAssets: safeDivide(netIncome, assets),
+      returnOnInvestedCapital: safeDivide(nopat, average(row, previous, 'InvestedCapital')),
+      currentRatio: safeDivide(currentAssets, currentLiabilities),
+      quickRatio: safeDivide(
+        currentAssets === null ? null : currentAssets - (value(row, 'Inventory') ?? 0),
+        currentLiabilities
+      ),
+      debtToEquity: safeDivide(value(row, 'TotalDebt'), value(row, 'StockholdersEquity')),
+      interestCoverage: safeDivide(value(row, 'EBIT'), interestExpense === null ? null : Math.abs(interestExpense)),
+      freeCashFlowMargin: safeDivide(value(row, 'FreeCashFlow'), revenue),
+      assetTurnover: safeDivide(revenue, assets),
+      yoyGrowth: growthValues(row, yearAgo),
+      qoqGrowth: quarterly ? growthValues(row, previous) : null,
+    };
+  });
+
+  const first = periods[0];
+  const last = periods[periods.length - 1];
+  const cagrYears = periods.length > 1
+    ? (Date.parse(last.asOfDate) - Date.parse(first.asOfDate)) / (365.25 * DAY_MS)
+    : null;
+
+  return {
+    periods: result,
+    cagr: mapGrowth((item) =>
+      cagrYears === null ? null : cagr(value(first, item), value(last, item), cagrYears)
+    ),
+    cagrYears,
+  };
+}
+
+function value(row: FinancialStatementRow | undefined, item: string): number | null {
+  const raw = row?.[item];
+  return typeof raw === 'number' ? raw : null;
+}
+
+function average(row: FinancialStatementRow, previous: FinancialStatementRow | undefined, item: string): number | null {
+  const closing = value(row, item);
+  const opening = value(previous, item);
+  if (closing === null) {
+    return null;
+  }
+  return opening === null ? closing : (opening + closing) / 2;
+}
+
+/**
+ * The period ending about one year before periods[index]
+ */
+function findYearAgo(periods: FinancialStatementRow[], index: number): FinancialStatementRow | undefined {
+  const target = Date.parse(periods[index].asOfDate) - 365.25 * DAY_MS;
+  return periods
+    .slice(0, index)
+    .find((row) => Math.abs(Date.parse(row.asOfDate) - target) <= YEAR_TOLERANCE_DAYS * DAY_MS);
+}
+
+function growthValues(row: FinancialStatementRow, base: FinancialStatementRow | undefined): GrowthValues {
+  return mapGrowth((item) => growthRate(value(row, item), value(base, item)));
+}
+
+function mapGrowth(compute: (item: string) => number | null): GrowthValues {
+  const result = {} as GrowthValues;
+  for (const [metric, item] of Object.entries(GROWTH_ITEMS) as Array<[GrowthMetric, string]>) {
+    result[metric] = compute(item);
+  }
+  return result;
+}
@@ -0,0 +1,199 @@
+/**
+ * Resample OHLCV history into coarser bars
+ *
+ * Bars are grouped on the exchange's calendar: intraday rows use their
+ * exchange-local `localDate`, daily rows their trading date. Intraday windows
+ * are anchored at the first bar of each session, so 5m bars from a 09:30 open
+ * become 09:30-10:30, 10:30-11:30, ... hourly bars.
+ */
+
+import { DateTime } from 'luxon';
+import { HistoryData, HistoryRow } from '../types';
+
+/**
+ * Target bar size:
+ * - '1h' / '1d': hourly or daily bars
+ * - '1wk' | 'weekly': ISO weeks (Monday to Sunday)
+ * - '1mo' | 'monthly', '3mo' | 'quarterly': calendar months and quarters
+ * - { minutes: N }: N-minute windows within each session
+ * - { bars: N }: every N input bars (restarting each day for intraday data)
+ */
+export type ResampleRule =
+  | '1h'
+  | '1d'
+  | '1wk'
+  | 'weekly'
+  | '1mo'
+  | 'monthly'
+  | '3mo'
+  | 'quarterly'
+  | { minutes: number }
+  | { bars: number };
+
+/**
+ * Resample a single symbol's bars.
+ * Rows must be in ascending time order, as returned by Ticker.getHistory.
+ */
+export function resampleBars(rows: HistoryRow[], rule: ResampleRule): HistoryRow[] {
+  const keyOf = createGroupKey(rule);
+  const groups: HistoryRow[][] = [];
+  let currentKey: string | null = null;
+  const state = { anchors: new Map<string, number>(), counts: new Map<string, number>() };
+
+  for (const row of rows) {
+    const key = keyOf(row, state);
+    if (key !== currentKey) {
+      groups.push([]);
+      currentKey = key;
+    }
+    groups[groups.length - 1].push(row);
+  }
+
+  return groups.map(aggregateBars);
+}
+
+/**
+ * Resample every symbol in a Ticker.getHistory result.
+ * Symbols that returned an error are passed through unchanged.
+ */
+export function resampleHistory(data: HistoryData, rule: ResampleRule): HistoryData {
+  const result: HistoryData = {};
+  for (const [symbol, rows] of Object.entries(data)) {
+    result[symbol] = Array.isArray(rows) ? resampleBars(rows, rule) : rows;
+  }
+  return result;
+}
+
+interface GroupState {
+  anchors: Map<string, number>;
+  counts: Map<string, number>;
+}
+
+type GroupKey = (row: HistoryRow, state: GroupState) => string;
+
+function createGroupKey(rule: ResampleRule): GroupKey {
+  if (typeof rule === 'object' && rule !== null) {
+    if ('minutes' in rule && rule.minutes > 0) {
+      return minuteKey(rule.minutes);
+    }
+    if ('bars' in rule && rule.bars > 0) {
+      const size = Math.floor(rule.bars);
+      return (row, state) => {
+        // Intraday groups restart each day so a window never spans sessions
+        const day = isIntraday(row) ? localTime(row).toISODate() ?? '' : '';
+        const count = state.counts.get(day) ?? 0;
+        state.counts.set(day, count + 1);
+        return `${day}|${Math.floor(count / size)}`;
+      };
+    }
+    throw new Error(`Invalid resample rule: ${JSON.stringify(rule)}`);
+  }
+
+  switch (rule) {
+    case '1h':
+      return minuteKey(60);
+    case '1d':
+      return (row) => localTime(row).toISODate() ?? '';
+    case '1wk':
+    case 'weekly':
+      return (row) => {
+        const time = localTime(row);
+        return `${time.weekYear}-W${time.weekNumber}`;
+      };
+    case '1mo':
+    case 'monthly':
+      return (row) => localTime(row).toFormat('yyyy-MM');
+    case '3mo':
+    case 'quarterly':
+      return (row) => {
+        const time = localTime(row);
+        return `${time.year}-Q${time.quarter}`;
+      };
+    default:
+      throw new Error(`Invalid resample rule: ${String(rule)}`);
+  }
+}
+
+/**
+ * N-minute windows anchored at the first bar of each day and session
+ */
+function minuteKey(minutes: number): GroupKey {
+  return (row, state) => {
+    const time = localTime(row);
+    const segment = `${time.toISODate()}|${row.session ?? ''}`;
+    const minuteOfDay = time.hour * 60 + time.minute;
+
+    if (!state.anchors.has(segment)) {
+      state.anchors.set(segment, minuteOfDay);
+    }
+    const anchor = state.anchors.get(segment) as number;
+
+    return `${segment}|${Math.floor((minuteOfDay - anchor) / minutes)}`;
+  };
+}
+
+function isIntraday(row: HistoryRow): boolean {
+  return row.localDate !== undefined || row.date instanceof Date || String(row.date).includes('T');
+}
+
+/**
+ * Exchange wall-clock time of a bar (UTC when no local time is available)
+ */
+function localTime(row: HistoryRow): DateTime {
+  if (row.localDate) {
+    return DateTime.fromISO(row.localDate, { setZone: true });
+  }
+  if (row.date instanceof Date) {
+    return DateTime.fromJSDate(row.date, { zone: 'utc' });
+  }
+  return DateTime.fromISO(String(row.date), { zone: 'utc' });
+}
+
+/**
+ * Combine bars: first open, max high, min low, last close, summed volume and
+ * dividends, multiplied split ratios
+ */
+function aggregateBars(group: HistoryRow[]): HistoryRow {
+  const first = group[0];
+  const values = (field: 'open' | 'high' | 'low' | 'close' | 'volume' | 'adjclose'): number[] =>
+    group
+      .map((row) => row[field])
+      .filter((value): value is number => value !== null && value !== undefined);
+
+  const opens = values('open');
+  const highs = values('high');
+  const lows = values('low');
+  const closes = values('close');
+  const volumes = values('volume');
+
+  const bar: HistoryRow = {
+    date: first.date,
+    ...(first.localDate && { localDate: first.localDate }),
+    open: opens.length > 0 ? opens[0] : null,
+    high: highs.length > 0 ? Math.max(...highs) : null,
+    low: lows.length > 0 ? Math.min(...lows) : null,
+    close: closes.length > 0 ? closes[closes.length - 1] : null,
+    volume: volumes.length > 0 ? volumes.reduce((sum, v) => sum + v, 0) : null,
+  };
+
+  if (group.some((row) => 'adjclose' in row)) {
+    const adjcloses = values('adjclose');
+    bar.adjclose = adjcloses.length > 0 ? adjcloses[adjcloses.length - 1] : null;
+  }
+
+  if (group.some((row) => row.dividends !== undefined)) {
+    bar.dividends = group.reduce((sum, row) => sum + (row.dividends ?? 0), 0);
+  }
+
+  if (group.some((row) => row.splits !== undefined)) {
+    const ratios = group.map((row) => row.splits ?? 0).filter((ratio) => ratio > 0);
+    bar.splits = ratios.length > 0 ? ratios.reduce((product, ratio) => product * ratio, 1) : 0;
+  }
+
+  const sessions = new Set(group.map((row) => row.session));
+  if (sessions.size === 1 && first.session) {
+    bar.session = first.session;
+  }
+
+  return bar;
+}
@@ -0,0 +1,496 @@
+/**
+ * Return and risk analytics over OHLCV history
+ *
+ * Returns are computed from adjclose when present (so dividends count toward
+ * performance) and from close otherwise. Bars without a price are skipped.
+ * Ratios are annualized with the number of bars per year for the interval;
+ * volatility uses the sample standard deviation.
+ */
+
+import { HistoryData, HistoryRow, SymbolResult } from '../types';
+
+export interface ReturnRow {
+  date: string | Date;
+  /** Simple return since the previous bar */
+  return: number;
+  /** Log return since the previous bar */
+  logReturn: number;
+}
+
+export interface DrawdownResult {
+  /** Largest peak-to-trough decline as a negative fraction (e.g. -0.25) */
+  maxDrawdown: number;
+  peakDate: string | Date;
+  troughDate: string | Date;
+  /** First bar back at the peak price, or null if not yet recovered */
+  recoveryDate: string | Date | null;
+}
+
+export type VarMethod = 'historical' | 'parametric';
+
+export interface RiskOptions {
+  /** Annual risk-free rate as a fraction (default: 0) */
+  riskFreeRate?: number;
+  /** Bars per year used to annualize (default: 252 daily bars) */
+  periodsPerYear?: number;
+  /** Value-at-risk confidence level (default: 0.95) */
+  confidence?: number;
+  /** Value-at-risk method (default: 'historical') */
+  varMethod?: VarMethod;
+}
+
+export interface RiskMetrics {
+  startDate: string | Date | null;
+  endDate: string | Date | null;
+  /** Number of returns the metrics are computed over */
+  observations: number;
+  totalReturn: number | null;
+  annualizedReturn: number | null;
+  annualizedVolatility: number | null;
+  sharpeRatio: number | null;
+  sortinoRatio: number | null;
+  drawdown: DrawdownResult | null;
+  /** Beta and annualized alpha against the benchmark, on matching dates */
+  beta: number | null;
+  alpha: number | null;
+  /** One-bar value-at-risk as a positive loss fraction */
+  valueAtRisk: number | null;
+  /** Expected loss beyond the value-at-risk (expected shortfall) */
+  conditionalValueAtRisk: number | null;
+}
+
+/**
+ * Risk metrics for one symbol as returned by Ticker.getRiskMetrics
+ */
+export interface RiskReport extends RiskMetrics {
+  /** Benchmark symbol used for beta and alpha, or null if unavailable */
+  benchmark: string | null;
+  /** Rolling metrics, when a window was requested */
+  rolling?: RollingRiskMetrics[];
+}
+
+export interface RollingRiskMetrics {
+  date: string | Date;
+  annualizedVolatility: number | null;
+  sharpeRatio: number | null;
+  sortinoRatio: number | null;
+  maxDrawdown: number | null;
+  beta: number | null;
+  alpha: number | null;
+  valueAtRisk: number | null;
+}
+
+const DEFAULT_PERIODS_PER_YEAR = 252;
+
+// Regular-session minutes in a US trading day, used to annualize intraday bars
+const SESSION_MINUTES = 390;
+
+/**
+ * Bars per year for a history interval
+ */
+export function periodsPerYear(interval = '1d'): number {
+  const match = /^(\d+)(m|h|d|wk|mo)$/.exec(interval);
+  if (!match) {
+    return DEFAULT_PERIODS_PER_YEAR;
+  }
+  const count = Number(match[1]);
+  switch (match[2]) {
+    case 'm':
+      return (DEFAULT_PERIODS_PER_YEAR * SESSION_MINUTES) / count;
+    case 'h':
+      return (DEFAULT_PERIODS_PER_YEAR * SESSION_MINUTES) / (count * 60);
+    case 'd':
+      return DEFAULT_PERIODS_PER_YEAR / count;
+    case 'wk':
+      return 52 / count;
+    default:
+      return 12 / count;
+  }
+}
+
+// ============================================================
+// RETURNS
+// ============================================================
+
+/**
+ * Simple returns between consecutive prices
+ */
+export function simpleReturns(prices: number[]): number[] {
+  return prices.slice(1).map((price, i) => price / prices[i] - 1);
+}
+
+/**
+ * Log returns between consecutive prices
+ */
+export function logReturns(prices: number[]): number[] {
+  return prices.slice(1).map((price, i) => Math.log(price / prices[i]));
+}
+
+/**
+ * Per-bar simple and log returns for a symbol's history
+ */
+export function computeReturns(rows: HistoryRow[]): ReturnRow[] {
+  const points = pricePoints(rows);
+  return points.slice(1).map((point, i) => ({
+    date: point.date,
+    return: point.price / points[i].price - 1,
+    logReturn: Math.log(point.price / points[i].price),
+  }));
+}
+
+/**
+ * Compute returns for every symbol in a Ticker.getHistory result.
+ * Symbols that returned an error are passed through unchanged.
+ */
+export function historyReturns(data: HistoryData): SymbolResult<ReturnRow[]> {
+  const result: SymbolResult<ReturnRow[]> = {};
+  for (const [symbol, rows] of Object.entries(data)) {
+    result[symbol] = Array.isArray(rows) ? computeReturns(rows) : rows;
+  }
+  return result;
+}
+
+// ============================================================
+// RISK MEASURES
+// ============================================================
+
+/**
+ * Annualized standard deviation of returns
+ */
+export function annualizedVolatility(
+  returns: number[],
+  periods = DEFAULT_PERIODS_PER_YEAR
+): number | null {
+  const deviation = sampleStandardDeviation(returns);
+  return deviation === null ? null : deviation * Math.sqrt(periods);
+}
+
+/**
+ * Annualized Sharpe ratio: mean excess return over its standard deviation
+ */
+export function sharpeRatio(
+  returns: number[],
+  riskFreeRate = 0,
+  periods = DEFAULT_PERIODS_PER_YEAR
+): number | null {
+  const excess = returns.map((r) => r - riskFreeRate / periods);
+  const deviation = sampleStandardDeviation(excess);
+  if (deviation === null || deviation === 0) {
+    return null;
+  }
+  return (mean(excess) / deviation) * Math.sqrt(periods);
+}
+
+/**
+ * Annualized Sortino ratio: mean excess return over the downside deviation
+ */
+export function sortinoRatio(
+  returns: number[],
+  riskFreeRate = 0,
+  periods = DEFAULT_PERIODS_PER_YEAR
+): number | null {
+  if (returns.length < 2) {
+    return null;
+  }
+  const excess = returns.map((r) => r - riskFreeRate / periods);
+  const downside = Math.sqrt(mean(excess.map((r) => Math.min(r, 0) ** 2)));
+  if (downside === 0) {
+    return null;
+  }
+  return (mean(excess) / downside) * Math.sqrt(periods);
+}
+
+/**
+ * Largest peak-to-trough decline with the dates it started, bottomed and recovered
+ */
+export function maxDrawdown(prices: number[], dates: Array<string | Date>): DrawdownResult | null {
+  if (prices.length < 2) {
+    return null;
+  }
+
+  let peak = 0;
+  let worst = { drawdown: 0, peak: 0, trough: 0 };
+
+  for (let i = 1; i < prices.length; i++) {
+    if (prices[i] > prices[peak]) {
+      peak = i;
+    }
+    const drawdown = prices[i] / prices[peak] - 1;
+    if (drawdown < worst.drawdown) {
+      worst = { drawdown, peak, trough: i };
+    }
+  }
+
+  let recovery: number | null = null;
+  if (worst.drawdown < 0) {
+    for (let i = worst.trough + 1; i < prices.length; i++) {
+      if (prices[i] >= prices[worst.peak]) {
+        recovery = i;
+        break;
+      }
+    }
+  }
+
+  return {
+    maxDrawdown: worst.drawdown,
+    peakDate: dates[worst.peak],
+    troughDate: dates[worst.trough],
+    recoveryDate: recovery === null ? null : dates[recovery],
+  };
+}
+
+/**
+ * Beta and annualized Jensen's alpha of asset returns against benchmark returns.
+ * Both series must be aligned (same bars in the same order).
+ */
+export function betaAlpha(
+  asset: number[],
+  benchmark: number[],
+  riskFreeRate = 0,
+  periods = DEFAULT_PERIODS_PER_YEAR
+): { beta: number; alpha: number } | null {
+  const length = Math.min(asset.length, benchmark.length);
+  if (length < 2) {
+    return null;
+  }
+
+  const a = asset.slice(0, length);
+  const b = benchmark.slice(0, length);
+  const meanA = mean(a);
+  const meanB = mean(b);
+  let covariance = 0;
+  let variance = 0;
+  for (let i = 0; i < length; i++) {
+    covariance += (a[i] - meanA) * (b[i] - meanB);
+    variance += (b[i] - meanB) ** 2;
+  }
+  if (variance === 0) {
+    return null;
+  }
+
+  const beta = covariance / variance;
+  const riskFree = riskFreeRate / periods;
+  const alpha = (meanA - riskFree - beta * (meanB - riskFree)) * periods;
+  return { beta, alpha };
+}
+
+/**
+ * One-bar value-at-risk at a confidence level, as a positive loss fraction.
+ * Historical VaR uses the empirical quantile; parametric assumes normal returns.
+ */
+export function valueAtRisk(
+  returns: number[],
+  confidence = 0.95,
+  method: VarMethod = 'historical'
+): number | null {
+  if (returns.length < 2) {
+    return null;
+  }
+  if (method === 'parametric') {
+    const deviation = sampleStandardDeviation(returns) as number;
+    return -(mean(returns) + normalQuantile(1 - confidence) * deviation);
+  }
+  return -quantile(returns, 1 - confidence);
+}
+
+/**
+ * Expected shortfall: mean loss of the returns at or beyond the historical VaR
+ */
+export function conditionalValueAtRisk(returns: number[], confidence = 0.95): number | null {
+  const threshold = valueAtRisk(returns, confidence, 'historical');
+  if (threshold === null) {
+    return null;
+  }
+  const tail = returns.filter((r) => r <= -threshold);
+  return tail.length > 0 ? -mean(tail) : threshold;
+}
+
+// ============================================================
+// HISTORY-LEVEL METRICS
+// ============================================================
+
+/**
+ * Compute the full set of risk metrics for a symbol's history.
+ * Beta and alpha are included when benchmark history is given.
+ */
+export function computeRiskMetrics(
+  rows: HistoryRow[],
+  benchmarkRows: HistoryRow[] | null = null,
+  options: RiskOptions = {}
+): RiskMetrics {
+  const points = pricePoints(rows);
+  return metricsForPoints(points, benchmarkPriceMap(benchmarkRows), options);
+}
+
+/**
+ * Risk metrics over a rolling window of `window` returns, one entry per bar
+ * once the window is full
+ */
+export function rollingRiskMetrics(
+  rows: HistoryRow[],
+  window: number,
+  benchmarkRows: HistoryRow[] | null = null,
+  options: RiskOptions = {}
+): RollingRiskMetrics[] {
+  if (!Number.isInteger(window) || window < 2) {
+    throw new Error('Rolling window must be an integer of at least 2');
+  }
+
+  const points = pricePoints(rows);
+  const benchmark = benchmarkPriceMap(benchmarkRows);
+  const result: RollingRiskMetrics[] = [];
+
+  for (let end = window; end < points.length; end++) {
+    const metrics = metricsForPoints(points.slice(end - window, end + 1), benchmark, options);
+    result.push({
+      date: points[end].date,
+      annualizedVolatility: metrics.annualizedVolatility,
+      sharpeRatio: metrics.sharpeRatio,
+      sortinoRatio: metrics.sortinoRatio,
+      maxDrawdown: metrics.drawdown?.maxDrawdown ?? null,
+      beta: metrics.beta,
+      alpha: metrics.alpha,
+      valueAtRisk: metrics.valueAtRisk,
+    });
+  }
+
+  return result;
+}
+
+interface PricePoint {
+  date: string | Date;
+  price: number;
+}
+
+function metricsForPoints(
+  points: PricePoint[],
+  benchmark: Map<string, number> | null,
+  options: RiskOptions
+): RiskMetrics {
+  const {
+    riskFreeRate = 0,
+    periodsPerYear: periods = DEFAULT_PERIODS_PER_YEAR,
+    confidence = 0.95,
+    varMethod = 'historical',
+  } = options;
+
+  const prices = points.map((point) => point.price);
+  const dates = points.map((point) => point.date);
+  const returns = simpleReturns(prices);
+
+  let beta: number | null = null;
+  let alpha: number | null = null;
+  if (benchmark) {
+    // Compare each return with the benchmark's return between the same two bars
+    const paired: Array<[number, number]> = [];
+    for (let i = 1; i < points.length; i++) {
+      const from = benchmark.get(dateKey(points[i - 1].date));
+      const to = benchmark.get(dateKey(points[i].date));
+      if (from !== undefined && to !== undefined) {
+        paired.push([returns[i - 1], to / from - 1]);
+      }
+    }
+    const regression = betaAlpha(
+      paired.map(([a]) => a),
+      paired.map(([, b]) => b),
+      riskFreeRate,
+      periods
+    );
+    beta = regression?.beta ?? null;
+    alpha = regression?.alpha ?? null;
+  }
+
+  const totalReturn = prices.length > 1 ? prices[prices.length - 1] / prices[0] - 1 : null;
+
+  return {
+    startDate: dates[0] ?? null,
+    endDate: dates[dates.length - 1] ?? null,
+    observations: returns.length,
+    totalReturn,
+    annualizedReturn: totalReturn === null || totalReturn <= -1
+      ? totalReturn
+      : (1 + totalReturn) ** (periods / returns.length) - 1,
+    annualizedVolatility: annualizedVolatility(returns, periods),
+    sharpeRatio: sharpeRatio(returns, riskFreeRate, periods),
+    sortinoRatio: sortinoRatio(returns, riskFreeRate, periods),
+    drawdown: maxDrawdown(prices, dates),
+    beta,
+    alpha,
+    valueAtRisk: valueAtRisk(returns, confidence, varMethod),
+    conditionalValueAtRisk: conditionalValueAtRisk(returns, confidence),
+  };
+}
+
+/**
+ * Bars with a usable price: adjclose when the series has it, otherwise close
+ */
+function pricePoints(rows: HistoryRow[]): PricePoint[] {
+  const useAdjclose = rows.some((row) => row.adjclose !== undefined && row.adjclose !== null);
+  const points: PricePoint[] = [];
+  for (const row of rows) {
+    const price = useAdjclose ? row.adjclose : row.close;
+    if (price !== null && price !== undefined && price > 0) {
+      points.push({ date: row.date, price });
+    }
+  }
+  return points;
+}
+
+function benchmarkPriceMap(rows: HistoryRow[] | null): Map<string, number> | null {
+  if (!rows) {
+    return null;
+  }
+  return new Map(pricePoints(rows).map((point) => [dateKey(point.date), point.price]));
+}
+
+function dateKey(date: string | Date): string {
+  return date instanceof Date ? date.toISOString() : date;
+}
+
+function mean(values: number[]): number {
+  return values.reduce((sum, value) => sum + value, 0) / values.length;
+}
+
+function sampleStandardDeviation(values: number[]): number | null {
+  if (values.length < 2) {
+    return null;
+  }
+  const average = mean(values);
+  const variance = values.reduce((sum, value) => sum + (value - average) ** 2, 0) / (values.length - 1);
+  return Math.sqrt(variance);
+}
+
+/**
+ * Empirical quantile with linear interpolation between order statistics
+ */
+function quantile(values: number[], p: number): number {
+  const sorted = [...values].sort((a, b) => a - b);
+  const position = (sorted.length - 1) * p;
+  const lower = Math.floor(position);
+  const upper = Math.ceil(position);
+  return sorted[lower] + (sorted[upper] - sorted[lower]) * (position - lower);
+}
+
+/**
+ * Inverse standard normal CDF (Acklam's rational approximation)
+ */
+function normalQuantile(p: number): number {
+  const a = [-39.69683028665376, 220.9460984245205, -275.9285104469687, 138.357751867269, -30.66479806614716, 2.506628277459239];
+  const b = [-54.47609879822406, 161.5858368580409, -155.6989798598866, 66.80131188771972, -13.28068155288572];
+  const c = [-0.007784894002430293, -0.3223964580411365, -2.400758277161838, -2.549732539343734, 4.374664141464968, 2.938163982698783];
+  const d = [0.007784695709041462, 0.3224671290700398, 2.445134137142996, 3.754408661907416];
+  const low = 0.02425;
+
+  if (p < low) {
+    const q = Math.sqrt(-2 * Math.log(p));
+    return (((((c[0] * q + c[1]) * q + c[2]) * q + c[3]) * q + c[4]) * q + c[5]) /
+      ((((d[0] * q + d[1]) * q + d[2]) * q + d[3]) * q + 1);
+  }
+  if (p > 1 - low) {
+    return -normalQuantile(1 - p);
+  }
+  const q = p - 0.5;
+  const r = q * q;
+  return (((((a[0] * r + a[1]) * r + a[2]) * r + a[3]) * r + a[4]) * r + a[5]) * q /
+    (((((b[0] * r + b[1]) * r + b[2]) * r + b[3]) * r + b[4]) * r + 1);
+}
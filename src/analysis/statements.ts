@@ -0,0 +1,62 @@
+/**
+ * Hierarchical financial statements
+ *
+ * Arranges a statement row from Ticker.getIncomeStatement / getBalanceSheet /
+ * getCashFlow into the line-item tree defined by LINE_ITEM_TAXONOMY. Parents
+ * are kept when they or any descendant were reported; line items missing from
+ * the taxonomy become top-level 'other' nodes so no reported value is lost.
+ */
+
+import {
+  getChildLineItems,
+  LINE_ITEM_TAXONOMY,
+  LineItemUnit,
+  StatementSection,
+  StatementType,
+} from '../config/taxonomy';
+import { FinancialStatementRow } from '../types';
+
+export interface StatementNode {
+  name: string;
+  section: StatementSection | 'other';
+  sign: 1 | -1;
+  units: LineItemUnit;
+  /** Reported value, or null if only descendants were reported */
+  value: number | null;
+  children: StatementNode[];
+}
+
+// Period metadata columns on a statement row
+const ROW_FIELDS = new Set(['asOfDate', 'periodType', 'currencyCode']);
+
+/**
+ * Build the line-item tree for one statement period
+ */
+export function buildStatementTree(row: FinancialStatementRow, statement: StatementType): StatementNode[] {
+  const taxonomy = LINE_ITEM_TAXONOMY[statement];
+
+  const build = (name: string): StatementNode | null => {
+    const definition = taxonomy[name];
+    const children = getChildLineItems(statement, name)
+      .map(build)
+      .filter((node): node is StatementNode => node !== null);
+    const value = typeof row[name] === 'number' ? row[name] : null;
+
+    if (value === null && children.length === 0) {
+      return null;
+    }
+    return { name, section: definition.section, sign: definition.sign, units: definition.units, value, children };
+  };
+
+  const roots = getChildLineItems(statement, null)
+    .map(build)
+    .filter((node): node is StatementNode => node !== null);
+
+  for (const [name, value] of Object.entries(row)) {
+    if (!ROW_FIELDS.has(name) && !(name in taxonomy) && typeof value === 'number') {
+      roots.push({ name, section: 'other', sign: 1, units: 'currency', value, children: [] });
+    }
+  }
+
+  return roots;
+}
@@ -0,0 +1,181 @@
+/**
+ * Implied volatility surface
+ *
+ * Built from a chain priced by Ticker.getOptionGreeks. Each expiration slice
+ * uses out-of-the-money contracts (puts below the underlying price, calls at
+ * or above it), which are the liquid side of each strike. ATM volatility is
+ * interpolated in strike at the underlying price, 25-delta volatilities in
+ * delta, and constant-maturity volatilities linearly in total variance
+ * between the bracketing expirations. Nothing is extrapolated: values outside
+ * the quoted range are null. The result holds only strings, numbers and
+ * nulls so it can be stored as JSON.
+ */
+
+import { OptionChainResult, OptionContractRow } from '../types';
+import { formatDate } from '../utils/helpers';
+import { yearsToExpiration } from './pricing';
+
+export interface SurfacePoint {
+  strike: number;
+  /** Strike over underlying price */
+  moneyness: number;
+  optionType: 'call' | 'put';
+  delta: number;
+  impliedVolatility: number;
+}
+
+export interface SurfaceSlice {
+  /** Expiration date (YYYY-MM-DD) */
+  expiration: string;
+  /** Calendar days to expiration */
+  days: number;
+  atmVolatility: number | null;
+  put25DeltaVolatility: number | null;
+  call25DeltaVolatility: number | null;
+  /** 25-delta put volatility minus 25-delta call volatility */
+  skew25Delta: number | null;
+  points: SurfacePoint[];
+}
+
+export interface TermStructurePoint {
+  expiration: string;
+  days: number;
+  atmVolatility: number;
+}
+
+export interface ConstantMaturityVolatility {
+  days: number;
+  volatility: number | null;
+}
+
+export interface VolatilitySurface {
+  underlyingSymbol: string | null;
+  underlyingPrice: number | null;
+  /** Valuation time (ISO 8601) */
+  asOf: string;
+  slices: SurfaceSlice[];
+  /** ATM volatility by expiration */
+  termStructure: TermStructurePoint[];
+  constantMaturity: ConstantMaturityVolatility[];
+}
+
+export interface SurfaceOptions {
+  /** Constant-maturity tenors in calendar days (default: [30, 60]) */
+  tenors?: number[];
+  /** Valuation time (default: now) */
+  now?: Date;
+}
+
+const DAYS_PER_YEAR = 365;
+
+const DEFAULT_TENORS = [30, 60];
+
+/**
+ * Linear interpolation through points sorted by x; null outside their range
+ */
+export function interpolate(points: Array<[number, number]>, x: number): number | null {
+  if (points.length === 0 || x < points[0][0] || x > points[points.length - 1][0]) {
+    return null;
+  }
+  for (let i = 1; i < points.length; i++) {
+    const [x0, y0] = points[i - 1];
+    const [x1, y1] = points[i];
+    if (x <= x1) {
+      return x1 === x0 ? y1 : y0 + (y1 - y0) * (x - x0) / (x1 - x0);
+    }
+  }
+  return points[0][1];
+}
+
+/**
+ * Volatility at a constant maturity, interpolating total variance (vol² × time)
+ * linearly in time between the expirations around it
+ */
+export function constantMaturityVolatility(termStructure: TermStructurePoint[], days: number): number | null {
+  const variance = interpolate(
+    termStructure.map((point): [number, number] => [point.days, point.atmVolatility ** 2 * point.days]),
+    days
+  );
+  return variance === null || days <= 0 ? null : Math.sqrt(variance / days);
+}
+
+/**
+ * Build the surface from a priced chain. Contracts without Greeks are skipped.
+ */
+export function buildVolatilitySurface(chain: OptionChainResult, options: SurfaceOptions = {}): VolatilitySurface {
+  const { tenors = DEFAULT_TENORS, now = new Date() } = options;
+  const spot = chain.underlyingPrice ?? null;
+  const groups = new Map<string, { expiration: Date; contracts: OptionContractRow[] }>();
+
+  if (spot) {
+    for (const contract of [...chain.calls, ...chain.puts]) {
+      const outOfTheMoney = contract.optionType === 'call'
+        ? (contract.strike ?? 0) >= spot
+        : (contract.strike ?? 0) < spot;
+      if (!contract.greeks || contract.strike === undefined || !outOfTheMoney) {
+        continue;
+      }
+      const key = formatDate(contract.expiration.getTime() / 1000);
+      const group = groups.get(key) ?? { expiration: contract.expiration, contracts: [] };
+      group.contracts.push(contract);
+      groups.set(key, group);
+    }
+  }
+
+  const slices = [...groups.entries()]
+    .sort(([a], [b]) => a.localeCompare(b))
+    .map(([expiration, group]) => buildSlice(expiration, group.expiration, group.contracts, spot ?? 0, now));
+
+  const termStructure = slices
+    .filter((slice) => slice.atmVolatility !== null)
+    .map((slice): TermStructurePoint => ({
+      expiration: slice.expiration,
+      days: slice.days,
+      atmVolatility: slice.atmVolatility as number,
+    }));
+
+  return {
+    underlyingSymbol: chain.underlyingSymbol ?? null,
+    underlyingPrice: spot,
+    asOf: now.toISOString(),
+    slices,
+    termStructure,
+    constantMaturity: tenors.map((days) => ({ days, volatility: constantMaturityVolatility(termStructure, days) })),
+  };
+}
+
+function buildSlice(
+  key: string,
+  expiration: Date,
+  contracts: OptionContractRow[],
+  spot: number,
+  now: Date
+): SurfaceSlice {
+  const points = contracts
+    .map((contract): SurfacePoint => ({
+      strike: contract.strike as number,
+      moneyness: (contract.strike as number) / spot,
+      optionType: contract.optionType,
+      delta: contract.greeks?.delta as number,
+      impliedVolatility: contract.greeks?.impliedVolatility as number,
+    }))
+    .sort((a, b) => a.strike - b.strike);
+
+  const byDelta = (type: 'call' | 'put') => points
+    .filter((point) => point.optionType === type)
+    .map((point): [number, number] => [point.delta, point.impliedVolatility])
+    .sort((a, b) => a[0] - b[0]);
+
+  const put25 = interpolate(byDelta('put'), -0.25);
+  const call25 = interpolate(byDelta('call'), 0.25);
+
+  return {
+    expiration: key,
+    days: yearsToExpiration(expiration, now) * DAYS_PER_YEAR,
+    atmVolatility: interpolate(points.map((point) => [point.strike, point.impliedVolatility]), spot),
+    put25DeltaVolatility: put25,
+    call25DeltaVolatility: call25,
+    skew25Delta: put25 !== null && call25 !== null ? put25 - call25 : null,
+    points,
+  };
+}
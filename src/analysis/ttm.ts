@@ -0,0 +1,148 @@
+/**
+ * Trailing-twelve-month series from quarterly statements
+ *
+ * Yahoo only reports TTM values for a few line items and only for the latest
+ * period. This builds a TTM row for every quarter from the quarterly rows of
+ * Ticker.getFinancialData(types, 'q'): flow items (income statement and cash
+ * flow) are summed over the trailing four quarters, point-in-time items
+ * (balance sheet and valuation) take the latest quarter's value.
+ */
+
+import { LINE_ITEM_TAXONOMY } from '../config/taxonomy';
+import { FinancialsData, FinancialStatementRow, SymbolResult } from '../types';
+
+/**
+ * How a line item is combined over the trailing window:
+ * - 'sum': total of the quarters (flows)
+ * - 'last': latest quarter (balances)
+ * - 'first': earliest quarter (e.g. BeginningCashPosition)
+ * - 'average': mean of the quarters (share counts, rates)
+ */
+export type TtmAggregation = 'sum' | 'last' | 'first' | 'average';
+
+export interface TtmOptions {
+  /** Override the aggregation for specific line items */
+  aggregation?: Record<string, TtmAggregation>;
+}
+
+export interface TtmRow {
+  asOfDate: string;
+  periodType: 'TTM';
+  currencyCode: string | null;
+  /** End date of the earliest quarter in the window */
+  startDate: string;
+  /** Quarters in the trailing window */
+  quarters: number;
+  /** False when fewer than four consecutive quarters were available */
+  complete: boolean;
+  [lineItem: string]: string | number | boolean | null;
+}
+
+const QUARTERS_PER_YEAR = 4;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Gap between consecutive quarter ends, allowing for 52/53-week fiscal years
+const MIN_QUARTER_DAYS = 60;
+const MAX_QUARTER_DAYS = 120;
+
+// Period metadata columns on a statement row
+const ROW_FIELDS = new Set(['asOfDate', 'periodType', 'currencyCode']);
+
+/**
+ * Default aggregation for a line item, from its statement and units
+ */
+export function ttmAggregation(lineItem: string): TtmAggregation {
+  if (lineItem === 'BeginningCashPosition') {
+    return 'first';
+  }
+  if (lineItem === 'EndCashPosition' || lineItem in LINE_ITEM_TAXONOMY.balance_sheet || lineItem in LINE_ITEM_TAXONOMY.valuation) {
+    return 'last';
+  }
+
+  const definition = LINE_ITEM_TAXONOMY.income_statement[lineItem] ?? LINE_ITEM_TAXONOMY.cash_flow[lineItem];
+  if (definition?.units === 'shares' || definition?.units === 'ratio') {
+    return 'average';
+  }
+  return 'sum';
+}
+
+/**
+ * Build a TTM row for each quarter. Rows that are not quarterly (12M, TTM)
+ * are ignored. A window stops at a gap in the quarterly series, so quarters
+ * after a missing quarter are flagged incomplete until four are available again.
+ */
+export function buildTtm(rows: FinancialStatementRow[], options: TtmOptions = {}): TtmRow[] {
+  const quarters = rows
+    .filter((row) => row.periodType === '3M')
+    .sort((a, b) => a.asOfDate.localeCompare(b.asOfDate));
+
+  const lineItems = new Set<string>();
+  for (const row of quarters) {
+    for (const name of Object.keys(row)) {
+      if (!ROW_FIELDS.has(name)) {
+        lineItems.add(name);
+      }
+    }
+  }
+
+  return quarters.map((row, i) => {
+    const window = [row];
+    for (let j = i - 1; j >= 0 && window.length < QUARTERS_PER_YEAR; j--) {
+      const gap = (Date.parse(window[0].asOfDate) - Date.parse(quarters[j].asOfDate)) / DAY_MS;
+      if (gap < MIN_QUARTER_DAYS || gap > MAX_QUARTER_DAYS) {
+        break;
+      }
+      window.unshift(quarters[j]);
+    }
+
+    const ttm: TtmRow = {
+      asOfDate: row.asOfDate,
+      periodType: 'TTM',
+      currencyCode: row.currencyCode,
+      startDate: window[0].asOfDate,
+      quarters: window.length,
+      complete: window.length === QUARTERS_PER_YEAR,
+    };
+
+    for (const name of lineItems) {
+      ttm[name] = aggregate(window, name, options.aggregation?.[name] ?? ttmAggregation(name));
+    }
+
+    return ttm;
+  });
+}
+
+/**
+ * Build TTM series for every symbol in a Ticker.getFinancialData result.
+ * Symbols that returned an error are passed through unchanged.
+ */
+export function buildFinancialsTtm(data: FinancialsData, options: TtmOptions = {}): SymbolResult<TtmRow[]> {
+  const result: SymbolResult<TtmRow[]> = {};
+  for (const [symbol, rows] of Object.entries(data)) {
+    result[symbol] = Array.isArray(rows) ? buildTtm(rows, options) : rows;
+  }
+  return result;
+}
+
+/**
+ * Combine one line item over the window. Sums and averages need the item in
+ * every quarter; a quarter without it makes the TTM value null.
+ */
+function aggregate(window: FinancialStatementRow[], name: string, method: TtmAggregation): number | null {
+  const values = window.map((row) => (typeof row[name] === 'number' ? row[name] : null));
+
+  switch (method) {
+    case 'last':
+      return values[values.length - 1];
+    case 'first':
+      return values[0];
+    default: {
+      if (values.some((value) => value === null)) {
+        return null;
+      }
+      const total = (values as number[]).reduce((sum, value) => sum + value, 0);
+      return method === 'sum' ? total : total / values.length;
+    }
+  }
+}
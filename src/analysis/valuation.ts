@@ -0,0 +1,148 @@
+/**
+ * Fair value and Value Analyzer normalization
+ *
+ * Yahoo Finance Premium labels valuations with free text ('Undervalued',
+ * 'Near Fair Value', 'Overvalued', 'Premium', 'Discount'). These helpers map
+ * the label onto one classification, falling back to where the price sits in
+ * the fair-value band, or within a tolerance of the fair value when no band
+ * is quoted. Drilldown series become one row per date.
+ */
+
+import { ValueAnalyzerQuote, ValueAnalyzerSeries } from '../types/api-responses';
+import { formatDate } from '../utils/helpers';
+
+export type ValuationClassification = 'undervalued' | 'fair' | 'overvalued';
+
+export interface ValuationBand {
+  low: number | null;
+  fair: number | null;
+  high: number | null;
+}
+
+export interface FairValue {
+  symbol: string;
+  price: number | null;
+  fairValue: number | null;
+  /** Price over fair value minus one; positive when trading at a premium */
+  premium: number | null;
+  classification: ValuationClassification | null;
+  /** Label as given by the provider */
+  label: string | null;
+}
+
+export interface ValueAnalysis extends FairValue {
+  band: ValuationBand | null;
+}
+
+export interface ValuationBandRow {
+  /** Date (YYYY-MM-DD) */
+  date: string;
+  price: number | null;
+  low: number | null;
+  fair: number | null;
+  high: number | null;
+  classification: ValuationClassification | null;
+}
+
+export interface ValueAnalyzerDrilldown extends ValueAnalysis {
+  series: ValuationBandRow[];
+}
+
+export interface ValuationOptions {
+  /** Premium or discount to fair value still counted as fair, without a band (default: 0.1) */
+  tolerance?: number;
+}
+
+const DEFAULT_TOLERANCE = 0.1;
+
+/**
+ * Map a provider label onto a classification, or null if it is not recognized
+ */
+export function classifyValuationLabel(label: string | null | undefined): ValuationClassification | null {
+  const text = (label ?? '').toLowerCase();
+  if (/under|discount/.test(text)) {
+    return 'undervalued';
+  }
+  if (/over|premium/.test(text)) {
+    return 'overvalued';
+  }
+  if (/fair/.test(text)) {
+    return 'fair';
+  }
+  return null;
+}
+
+/**
+ * Classify a price against its fair-value band, or against the fair value
+ * within a tolerance when the band has no bounds
+ */
+export function classifyValuation(
+  price: number | null,
+  band: ValuationBand,
+  options: ValuationOptions = {}
+): ValuationClassification | null {
+  const { tolerance = DEFAULT_TOLERANCE } = options;
+  if (price === null) {
+    return null;
+  }
+
+  const low = band.low ?? (band.fair !== null ? band.fair * (1 - tolerance) : null);
+  const high = band.high ?? (band.fair !== null ? band.fair * (1 + tolerance) : null);
+  if (low === null || high === null) {
+    return null;
+  }
+  return price < low ? 'undervalued' : price > high ? 'overvalued' : 'fair';
+}
+
+/**
+ * Normalize a Value Analyzer quote; the provider label wins over the band
+ */
+export function normalizeValueAnalysis(
+  symbol: string,
+  quote: ValueAnalyzerQuote,
+  options: ValuationOptions = {}
+): ValueAnalysis {
+  const price = numberOrNull(quote.price);
+  const band: ValuationBand = {
+    low: numberOrNull(quote.lowerBound),
+    fair: numberOrNull(quote.fairValue),
+    high: numberOrNull(quote.upperBound),
+  };
+  const label = typeof quote.valuation === 'string' ? quote.valuation : null;
+
+  return {
+    symbol: quote.symbol ?? symbol,
+    price,
+    fairValue: band.fair,
+    premium: price !== null && band.fair ? price / band.fair - 1 : null,
+    classification: classifyValuationLabel(label) ?? classifyValuation(price, band, options),
+    label,
+    band: band.low === null && band.fair === null && band.high === null ? null : band,
+  };
+}
+
+/**
+ * One row per date of a drilldown series, classified against that day's band
+ */
+export function valuationBandRows(series: ValueAnalyzerSeries | undefined, options: ValuationOptions = {}): ValuationBandRow[] {
+  const timestamps = series?.timestamp ?? [];
+
+  return timestamps.map((timestamp, i): ValuationBandRow => {
+    const price = series?.price?.[i] ?? null;
+    const band: ValuationBand = {
+      low: series?.lowerBound?.[i] ?? null,
+      fair: series?.fairValue?.[i] ?? null,
+      high: series?.upperBound?.[i] ?? null,
+    };
+    return {
+      date: formatDate(timestamp),
+      price,
+      ...band,
+      classification: classifyValuation(price, band, options),
+    };
+  });
+}
+
+function numberOrNull(value: unknown): number | null {
+  return typeof value === 'number' && Number.isFinite(value) ? value : null;
+}
@@ -3,7 +3,7 @@
  * Each endpoint has a path, response field, and query parameters.
  */
 
-import { MODULES_DICT, FUNDAMENTALS_OPTIONS } from './modules';
+import { MODULES_DICT, FUNDAMENTALS_OPTIONS, COMPANY_360_MODULES } from './modules';
 
 export interface QueryParam {
   required: boolean;
@@ -112,6 +112,7 @@ export const CONFIG: Record<string, EndpointConfig> = {
         ],
       },
       events: { required: false, default: 'div,split' },
+      includePrePost: { required: false, default: null },
       numberOfPoints: { required: false, default: null },
       formatted: { required: false, default: false },
     },
@@ -190,18 +191,8 @@ export const CONFIG: Record<string, EndpointConfig> = {
       symbol: { required: true, default: null },
       modules: {
         required: true,
-        default: [
-          'innovations',
-          'sustainability',
-          'insiderSentiments',
-          'significantDevelopments',
-          'supplyChain',
-          'earnings',
-          'dividend',
-          'companyOutlookSummary',
-          'hiring',
-          'companySnapshot',
-        ].join(','),
+        default: COMPANY_360_MODULES.join(','),
+        options: [...COMPANY_360_MODULES],
       },
     },
   },
@@ -291,6 +282,27 @@ export const PERIODS = CONFIG.chart.query.range.options as string[];
 export const INTERVALS = CONFIG.chart.query.interval.options as string[];
 export const MODULES = CONFIG.quoteSummary.query.modules.options as string[];
 
+/**
+ * Chart request limits for intraday intervals, in days.
+ * maxSpan is the longest window a single request may cover and maxLookback
+ * is how far back from today Yahoo serves the interval at all.
+ */
+export interface IntervalLimit {
+  maxSpan: number;
+  maxLookback: number;
+}
+
+export const INTERVAL_LIMITS: Record<string, IntervalLimit> = {
+  '1m': { maxSpan: 7, maxLookback: 30 },
+  '2m': { maxSpan: 60, maxLookback: 60 },
+  '5m': { maxSpan: 60, maxLookback: 60 },
+  '15m': { maxSpan: 60, maxLookback: 60 },
+  '30m': { maxSpan: 60, maxLookback: 60 },
+  '60m': { maxSpan: 60, maxLookback: 60 },
+  '90m': { maxSpan: 60, maxLookback: 60 },
+  '1h': { maxSpan: 730, maxLookback: 730 },
+};
+
 // Visualization/Research config
 export const VIZ_CONFIG = {
   report: {
@@ -0,0 +1,275 @@
+/**
+ * Exchange trading calendars: regular hours, holidays and early closes.
+ * Times are wall-clock times in the exchange's time zone; dates are YYYY-MM-DD.
+ * Holiday tables are bundled per year and need a refresh as new years are published.
+ */
+
+export interface ExchangeCalendarConfig {
+  /** Display name */
+  name: string;
+  /** IANA time zone (matches chart meta.exchangeTimezoneName) */
+  timezone: string;
+  /** Yahoo exchange codes (chart meta.exchangeName) and common aliases */
+  codes: string[];
+  /** Regular session open (HH:mm) */
+  open: string;
+  /** Regular session close (HH:mm) */
+  close: string;
+  /** Close on early-close days (HH:mm) */
+  earlyClose?: string;
+  /** Pre-market open (HH:mm), for exchanges with extended hours */
+  preOpen?: string;
+  /** Post-market close (HH:mm), for exchanges with extended hours */
+  postClose?: string;
+  /** Midday break during which the exchange does not trade */
+  lunchBreak?: { start: string; end: string };
+  /** Full-day closures keyed by date */
+  holidays: Record<string, string>;
+  /** Shortened sessions keyed by date */
+  earlyCloses: Record<string, string>;
+}
+
+export const EXCHANGE_CALENDARS: Record<string, ExchangeCalendarConfig> = {
+  'US': {
+    name: 'NYSE / NASDAQ',
+    timezone: 'America/New_York',
+    codes: ['NYQ', 'NYS', 'NMS', 'NGM', 'NCM', 'NAS', 'ASE', 'PCX', 'BTS', 'NYSE', 'NASDAQ'],
+    open: '09:30',
+    close: '16:00',
+    earlyClose: '13:00',
+    preOpen: '04:00',
+    postClose: '20:00',
+    holidays: {
+      '2025-01-01': "New Year's Day",
+      '2025-01-09': 'National Day of Mourning',
+      '2025-01-20': 'Martin Luther King Jr. Day',
+      '2025-02-17': "Washington's Birthday",
+      '2025-04-18': 'Good Friday',
+      '2025-05-26': 'Memorial Day',
+      '2025-06-19': 'Juneteenth',
+      '2025-07-04': 'Independence Day',
+      '2025-09-01': 'Labor Day',
+      '2025-11-27': 'Thanksgiving Day',
+      '2025-12-25': 'Christmas Day',
+      '2026-01-01': "New Year's Day",
+      '2026-01-19': 'Martin Luther King Jr. Day',
+      '2026-02-16': "Washington's Birthday",
+      '2026-04-03': 'Good Friday',
+      '2026-05-25': 'Memorial Day',
+      '2026-06-19': 'Juneteenth',
+      '2026-07-03': 'Independence Day (observed)',
+      '2026-09-07': 'Labor Day',
+      '2026-11-26': 'Thanksgiving Day',
+      '2026-12-25': 'Christmas Day',
+      '2027-01-01': "New Year's Day",
+      '2027-01-18': 'Martin Luther King Jr. Day',
+      '2027-02-15': "Washington's Birthday",
+      '2027-03-26': 'Good Friday',
+      '2027-05-31': 'Memorial Day',
+      '2027-06-18': 'Juneteenth (observed)',
+      '2027-07-05': 'Independence Day (observed)',
+      '2027-09-06': 'Labor Day',
+      '2027-11-25': 'Thanksgiving Day',
+      '2027-12-24': 'Christmas Day (observed)',
+    },
+    earlyCloses: {
+      '2025-07-03': 'Independence Day eve',
+      '2025-11-28': 'Day after Thanksgiving',
+      '2025-12-24': 'Christmas Eve',
+      '2026-11-27': 'Day after Thanksgiving',
+      '2026-12-24': 'Christmas Eve',
+      '2027-11-26': 'Day after Thanksgiving',
+    },
+  },
+  'LSE': {
+    name: 'London Stock Exchange',
+    timezone: 'Europe/London',
+    codes: ['LSE', 'IOB'],
+    open: '08:00',
+    close: '16:30',
+    earlyClose: '12:30',
+    holidays: {
+      '2025-01-01': "New Year's Day",
+      '2025-04-18': 'Good Friday',
+      '2025-04-21': 'Easter Monday',
+      '2025-05-05': 'Early May Bank Holiday',
+      '2025-05-26': 'Spring Bank Holiday',
+      '2025-08-25': 'Summer Bank Holiday',
+      '2025-12-25': 'Christmas Day',
+      '2025-12-26': 'Boxing Day',
+      '2026-01-01': "New Year's Day",
+      '2026-04-03': 'Good Friday',
+      '2026-04-06': 'Easter Monday',
+      '2026-05-04': 'Early May Bank Holiday',
+      '2026-05-25': 'Spring Bank Holiday',
+      '2026-08-31': 'Summer Bank Holiday',
+      '2026-12-25': 'Christmas Day',
+      '2026-12-28': 'Boxing Day (substitute)',
+      '2027-01-01': "New Year's Day",
+      '2027-03-26': 'Good Friday',
+      '2027-03-29': 'Easter Monday',
+      '2027-05-03': 'Early May Bank Holiday',
+      '2027-05-31': 'Spring Bank Holiday',
+      '2027-08-30': 'Summer Bank Holiday',
+      '2027-12-27': 'Christmas Day (substitute)',
+      '2027-12-28': 'Boxing Day (substitute)',
+    },
+    earlyCloses: {
+      '2025-12-24': 'Christmas Eve',
+      '2025-12-31': "New Year's Eve",
+      '2026-12-24': 'Christmas Eve',
+      '2026-12-31': "New Year's Eve",
+      '2027-12-24': 'Christmas Eve',
+      '2027-12-31': "New Year's Eve",
+    },
+  },
+  'XETRA': {
+    name: 'Xetra',
+    timezone: 'Europe/Berlin',
+    codes: ['GER', 'XETRA'],
+    open: '09:00',
+    close: '17:30',
+    holidays: {
+      '2025-01-01': "New Year's Day",
+      '2025-04-18': 'Good Friday',
+      '2025-04-21': 'Easter Monday',
+      '2025-05-01': 'Labour Day',
+      '2025-12-24': 'Christmas Eve',
+      '2025-12-25': 'Christmas Day',
+      '2025-12-26': 'Boxing Day',
+      '2025-12-31': "New Year's Eve",
+      '2026-01-01': "New Year's Day",
+      '2026-04-03': 'Good Friday',
+      '2026-04-06': 'Easter Monday',
+      '2026-05-01': 'Labour Day',
+      '2026-12-24': 'Christmas Eve',
+      '2026-12-25': 'Christmas Day',
+      '2026-12-31': "New Year's Eve",
+      '2027-01-01': "New Year's Day",
+      '2027-03-26': 'Good Friday',
+      '2027-03-29': 'Easter Monday',
+      '2027-12-24': 'Christmas Eve',
+      '2027-12-31': "New Year's Eve",
+    },
+    earlyCloses: {},
+  },
+  'JPX': {
+    name: 'Tokyo Stock Exchange',
+    timezone: 'Asia/Tokyo',
+    codes: ['JPX', 'TYO', 'OSA', 'TSE'],
+    open: '09:00',
+    close: '15:30',
+    lunchBreak: { start: '11:30', end: '12:30' },
+    holidays: {
+      '2025-01-01': "New Year's Day",
+      '2025-01-02': 'Market Holiday',
+      '2025-01-03': 'Market Holiday',
+      '2025-01-13': 'Coming of Age Day',
+      '2025-02-11': 'National Foundation Day',
+      '2025-02-24': "Emperor's Birthday (observed)",
+      '2025-03-20': 'Vernal Equinox Day',
+      '2025-04-29': 'Showa Day',
+      '2025-05-05': "Children's Day",
+      '2025-05-06': 'Greenery Day (observed)',
+      '2025-07-21': 'Marine Day',
+      '2025-08-11': 'Mountain Day',
+      '2025-09-15': 'Respect for the Aged Day',
+      '2025-09-23': 'Autumnal Equinox Day',
+      '2025-10-13': 'Sports Day',
+      '2025-11-03': 'Culture Day',
+      '2025-11-24': 'Labour Thanksgiving Day (observed)',
+      '2025-12-31': 'Market Holiday',
+      '2026-01-01': "New Year's Day",
+      '2026-01-02': 'Market Holiday',
+      '2026-01-12': 'Coming of Age Day',
+      '2026-02-11': 'National Foundation Day',
+      '2026-02-23': "Emperor's Birthday",
+      '2026-03-20': 'Vernal Equinox Day',
+      '2026-04-29': 'Showa Day',
+      '2026-05-04': 'Greenery Day',
+      '2026-05-05': "Children's Day",
+      '2026-05-06': 'Constitution Memorial Day (observed)',
+      '2026-07-20': 'Marine Day',
+      '2026-08-11': 'Mountain Day',
+      '2026-09-21': 'Respect for the Aged Day',
+      '2026-09-22': 'National Holiday',
+      '2026-09-23': 'Autumnal Equinox Day',
+      '2026-10-12': 'Sports Day',
+      '2026-11-03': 'Culture Day',
+      '2026-11-23': 'Labour Thanksgiving Day',
+      '2026-12-31': 'Market Holiday',
+      '2027-01-01': "New Year's Day",
+      '2027-01-11': 'Coming of Age Day',
+      '2027-02-11': 'National Foundation Day',
+      '2027-02-23': "Emperor's Birthday",
+      '2027-03-22': 'Vernal Equinox Day (observed)',
+      '2027-04-29': 'Showa Day',
+      '2027-05-03': 'Constitution Memorial Day',
+      '2027-05-04': 'Greenery Day',
+      '2027-05-05': "Children's Day",
+      '2027-07-19': 'Marine Day',
+      '2027-08-11': 'Mountain Day',
+      '2027-09-20': 'Respect for the Aged Day',
+      '2027-09-23': 'Autumnal Equinox Day',
+      '2027-10-11': 'Sports Day',
+      '2027-11-03': 'Culture Day',
+      '2027-11-23': 'Labour Thanksgiving Day',
+      '2027-12-31': 'Market Holiday',
+    },
+    earlyCloses: {},
+  },
+  'ASX': {
+    name: 'Australian Securities Exchange',
+    timezone: 'Australia/Sydney',
+    codes: ['ASX'],
+    open: '10:00',
+    close: '16:00',
+    earlyClose: '14:10',
+    holidays: {
+      '2025-01-01': "New Year's Day",
+      '2025-01-27': 'Australia Day (observed)',
+      '2025-04-18': 'Good Friday',
+      '2025-04-21': 'Easter Monday',
+      '2025-04-25': 'Anzac Day',
+      '2025-06-09': "King's Birthday",
+      '2025-12-25': 'Christmas Day',
+      '2025-12-26': 'Boxing Day',
+      '2026-01-01': "New Year's Day",
+      '2026-01-26': 'Australia Day',
+      '2026-04-03': 'Good Friday',
+      '2026-04-06': 'Easter Monday',
+      '2026-06-08': "King's Birthday",
+      '2026-12-25': 'Christmas Day',
+      '2026-12-28': 'Boxing Day (observed)',
+    },
+    earlyCloses: {
+      '2025-12-24': 'Christmas Eve',
+      '2025-12-31': "New Year's Eve",
+      '2026-12-24': 'Christmas Eve',
+      '2026-12-31': "New Year's Eve",
+    },
+  },
+};
+
+/**
+ * Find a bundled calendar by key, Yahoo exchange code or IANA time zone
+ */
+export function getExchangeCalendar(exchange: string): ExchangeCalendarConfig | undefined {
+  const normalized = exchange.toUpperCase();
+
+  if (normalized in EXCHANGE_CALENDARS) {
+    return EXCHANGE_CALENDARS[normalized];
+  }
+
+  return Object.values(EXCHANGE_CALENDARS).find(
+    (calendar) =>
+      calendar.codes.includes(normalized) || calendar.timezone.toUpperCase() === normalized
+  );
+}
+
+/**
+ * Get list of bundled exchange calendar keys
+ */
+export function getValidExchanges(): string[] {
+  return Object.keys(EXCHANGE_CALENDARS);
+}
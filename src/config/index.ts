@@ -4,6 +4,8 @@
 
 export * from './browsers';
 export * from './countries';
+export * from './exchanges';
 export * from './endpoints';
 export * from './modules';
 export * from './screeners';
+export * from './taxonomy';
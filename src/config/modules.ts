@@ -553,3 +553,31 @@ export const CORPORATE_EVENTS = [
   'sigdev_special_events',
   'sigdev_environment',
 ];
+
+/**
+ * Sections of the Premium company360 endpoint.
+ */
+export const COMPANY_360_MODULES = [
+  'innovations',
+  'sustainability',
+  'insiderSentiments',
+  'significantDevelopments',
+  'supplyChain',
+  'earnings',
+  'dividend',
+  'companyOutlookSummary',
+  'hiring',
+  'companySnapshot',
+] as const;
+
+export type Company360Module = (typeof COMPANY_360_MODULES)[number];
+
+/**
+ * Trading horizons of the Premium technical events endpoint, keyed by the
+ * names accepted by Ticker.getTechnicalEvents
+ */
+export const TRADING_HORIZONS = {
+  short: 'SHORT_TERM',
+  intermediate: 'INTERMEDIATE_TERM',
+  long: 'LONG_TERM',
+} as const;
@@ -0,0 +1,497 @@
+/**
+ * Canonical line-item taxonomy for the FUNDAMENTALS_OPTIONS statement types.
+ * Each Yahoo type name maps to a statement section, the line item it rolls up
+ * into, a sign and units, so statements can be rendered as trees and compared
+ * across companies.
+ *
+ * Sign convention: a parent is the sum of sign × reported value over its
+ * children. Yahoo reports expenses as positive amounts (sign -1 where they
+ * reduce a subtotal) and cash outflows and contra accounts as negative
+ * amounts (sign 1).
+ */
+
+export type StatementType = 'income_statement' | 'balance_sheet' | 'cash_flow' | 'valuation';
+
+export type LineItemUnit = 'currency' | 'shares' | 'perShare' | 'ratio';
+
+export type StatementSection =
+  // Income statement
+  | 'revenue'
+  | 'operating'
+  | 'nonOperating'
+  | 'netIncome'
+  | 'shareData'
+  // Balance sheet
+  | 'assets'
+  | 'liabilities'
+  | 'equity'
+  // Cash flow
+  | 'investing'
+  | 'financing'
+  | 'cashPosition'
+  // Valuation
+  | 'valuation'
+  // Memo items that are not part of the statement's roll-up
+  | 'supplemental';
+
+export interface LineItemDefinition {
+  section: StatementSection;
+  /** Line item this one rolls up into, or null for a top-level total */
+  parent: string | null;
+  /** Multiplier applied to the reported value when summing into the parent */
+  sign: 1 | -1;
+  units: LineItemUnit;
+}
+
+function item(
+  section: StatementSection,
+  parent: string | null,
+  sign: 1 | -1 = 1,
+  units: LineItemUnit = 'currency'
+): LineItemDefinition {
+  return { section, parent, sign, units };
+}
+
+const INCOME_STATEMENT: Record<string, LineItemDefinition> = {
+  // Revenue and gross profit
+  TotalRevenue: item('revenue', 'GrossProfit'),
+  OperatingRevenue: item('revenue', 'TotalRevenue'),
+  ExciseTaxes: item('revenue', 'TotalRevenue', -1),
+  CostOfRevenue: item('revenue', 'GrossProfit', -1),
+  GrossProfit: item('operating', 'OperatingIncome'),
+
+  // Operating expenses
+  OperatingExpense: item('operating', 'OperatingIncome', -1),
+  SellingGeneralAndAdministration: item('operating', 'OperatingExpense'),
+  GeneralAndAdministrativeExpense: item('operating', 'SellingGeneralAndAdministration'),
+  SalariesAndWages: item('operating', 'GeneralAndAdministrativeExpense'),
+  RentAndLandingFees: item('operating', 'GeneralAndAdministrativeExpense'),
+  InsuranceAndClaims: item('operating', 'GeneralAndAdministrativeExpense'),
+  OtherGandA: item('operating', 'GeneralAndAdministrativeExpense'),
+  SellingAndMarketingExpense: item('operating', 'SellingGeneralAndAdministration'),
+  ResearchAndDevelopment: item('operating', 'OperatingExpense'),
+  DepreciationAmortizationDepletionIncomeStatement: item('operating', 'OperatingExpense'),
+  DepreciationAndAmortizationInIncomeStatement: item('operating', 'DepreciationAmortizationDepletionIncomeStatement'),
+  DepreciationIncomeStatement: item('operating', 'DepreciationAndAmortizationInIncomeStatement'),
+  Amortization: item('operating', 'DepreciationAndAmortizationInIncomeStatement'),
+  AmortizationOfIntangiblesIncomeStatement: item('operating', 'Amortization'),
+  DepletionIncomeStatement: item('operating', 'DepreciationAmortizationDepletionIncomeStatement'),
+  ProvisionForDoubtfulAccounts: item('operating', 'OperatingExpense'),
+  OtherTaxes: item('operating', 'OperatingExpense'),
+  OtherOperatingExpenses: item('operating', 'OperatingExpense'),
+  OperatingIncome: item('operating', 'PretaxIncome'),
+
+  // Non-operating items
+  NetNonOperatingInterestIncomeExpense: item('nonOperating', 'PretaxIncome'),
+  InterestIncomeNonOperating: item('nonOperating', 'NetNonOperatingInterestIncomeExpense'),
+  InterestExpenseNonOperating: item('nonOperating', 'NetNonOperatingInterestIncomeExpense', -1),
+  TotalOtherFinanceCost: item('nonOperating', 'NetNonOperatingInterestIncomeExpense', -1),
+  OtherIncomeExpense: item('nonOperating', 'PretaxIncome'),
+  SpecialIncomeCharges: item('nonOperating', 'OtherIncomeExpense'),
+  RestructuringAndMergernAcquisition: item('nonOperating', 'SpecialIncomeCharges', -1),
+  ImpairmentOfCapitalAssets: item('nonOperating', 'SpecialIncomeCharges', -1),
+  WriteOff: item('nonOperating', 'SpecialIncomeCharges', -1),
+  OtherSpecialCharges: item('nonOperating', 'SpecialIncomeCharges', -1),
+  GainOnSaleOfBusiness: item('nonOperating', 'SpecialIncomeCharges'),
+  GainOnSaleOfPPE: item('nonOperating', 'SpecialIncomeCharges'),
+  GainOnSaleOfSecurity: item('nonOperating', 'OtherIncomeExpense'),
+  EarningsFromEquityInterest: item('nonOperating', 'OtherIncomeExpense'),
+  OtherNonOperatingIncomeExpenses: item('nonOperating', 'OtherIncomeExpense'),
+  PretaxIncome: item('netIncome', 'NetIncomeContinuousOperations'),
+
+  // Tax and net income
+  TaxProvision: item('netIncome', 'NetIncomeContinuousOperations', -1),
+  EarningsFromEquityInterestNetOfTax: item('netIncome', 'NetIncomeContinuousOperations'),
+  NetIncomeContinuousOperations: item('netIncome', 'NetIncomeIncludingNoncontrollingInterests'),
+  NetIncomeDiscontinuousOperations: item('netIncome', 'NetIncomeIncludingNoncontrollingInterests'),
+  NetIncomeExtraordinary: item('netIncome', 'NetIncomeIncludingNoncontrollingInterests'),
+  NetIncomeFromTaxLossCarryforward: item('netIncome', 'NetIncomeIncludingNoncontrollingInterests'),
+  NetIncomeIncludingNoncontrollingInterests: item('netIncome', 'NetIncome'),
+  MinorityInterests: item('netIncome', 'NetIncome'),
+  NetIncome: item('netIncome', 'NetIncomeCommonStockholders'),
+  PreferredStockDividends: item('netIncome', 'NetIncomeCommonStockholders', -1),
+  OtherunderPreferredStockDividend: item('netIncome', 'NetIncomeCommonStockholders', -1),
+  NetIncomeCommonStockholders: item('netIncome', 'DilutedNIAvailtoComStockholders'),
+  AverageDilutionEarnings: item('netIncome', 'DilutedNIAvailtoComStockholders'),
+  DilutedNIAvailtoComStockholders: item('netIncome', null),
+
+  // Per-share data and share counts
+  BasicEPS: item('shareData', null, 1, 'perShare'),
+  BasicContinuousOperations: item('shareData', 'BasicEPS', 1, 'perShare'),
+  BasicDiscontinuousOperations: item('shareData', 'BasicEPS', 1, 'perShare'),
+  BasicExtraordinary: item('shareData', 'BasicEPS', 1, 'perShare'),
+  BasicAccountingChange: item('shareData', 'BasicEPS', 1, 'perShare'),
+  BasicEPSOtherGainsLosses: item('shareData', 'BasicEPS', 1, 'perShare'),
+  TaxLossCarryforwardBasicEPS: item('shareData', 'BasicEPS', 1, 'perShare'),
+  DilutedEPS: item('shareData', null, 1, 'perShare'),
+  DilutedContinuousOperations: item('shareData', 'DilutedEPS', 1, 'perShare'),
+  DilutedDiscontinuousOperations: item('shareData', 'DilutedEPS', 1, 'perShare'),
+  DilutedExtraordinary: item('shareData', 'DilutedEPS', 1, 'perShare'),
+  DilutedAccountingChange: item('shareData', 'DilutedEPS', 1, 'perShare'),
+  DilutedEPSOtherGainsLosses: item('shareData', 'DilutedEPS', 1, 'perShare'),
+  TaxLossCarryforwardDilutedEPS: item('shareData', 'DilutedEPS', 1, 'perShare'),
+  ContinuingAndDiscontinuedBasicEPS: item('shareData', null, 1, 'perShare'),
+  ContinuingAndDiscontinuedDilutedEPS: item('shareData', null, 1, 'perShare'),
+  NormalizedBasicEPS: item('shareData', null, 1, 'perShare'),
+  NormalizedDilutedEPS: item('shareData', null, 1, 'perShare'),
+  ReportedNormalizedBasicEPS: item('shareData', null, 1, 'perShare'),
+  ReportedNormalizedDilutedEPS: item('shareData', null, 1, 'perShare'),
+  DividendPerShare: item('shareData', null, 1, 'perShare'),
+  BasicAverageShares: item('shareData', null, 1, 'shares'),
+  DilutedAverageShares: item('shareData', null, 1, 'shares'),
+
+  // Memo items
+  TotalExpenses: item('supplemental', null),
+  TotalOperatingIncomeAsReported: item('supplemental', null),
+  EBIT: item('supplemental', null),
+  EBITDA: item('supplemental', null),
+  NormalizedEBITDA: item('supplemental', null),
+  NormalizedIncome: item('supplemental', null),
+  NetIncomeFromContinuingAndDiscontinuedOperation: item('supplemental', null),
+  NetIncomeFromContinuingOperationNetMinorityInterest: item('supplemental', null),
+  NetInterestIncome: item('supplemental', null),
+  InterestIncome: item('supplemental', 'NetInterestIncome'),
+  InterestExpense: item('supplemental', 'NetInterestIncome', -1),
+  ReconciledCostOfRevenue: item('supplemental', null),
+  ReconciledDepreciation: item('supplemental', null),
+  RentExpenseSupplemental: item('supplemental', null),
+  SecuritiesAmortization: item('supplemental', null),
+  TotalUnusualItems: item('supplemental', null),
+  TotalUnusualItemsExcludingGoodwill: item('supplemental', 'TotalUnusualItems'),
+  TaxEffectOfUnusualItems: item('supplemental', null),
+  TaxRateForCalcs: item('supplemental', null, 1, 'ratio'),
+};
+
+const BALANCE_SHEET: Record<string, LineItemDefinition> = {
+  // Current assets
+  TotalAssets: item('assets', null),
+  CurrentAssets: item('assets', 'TotalAssets'),
+  CashCashEquivalentsAndShortTermInvestments: item('assets', 'CurrentAssets'),
+  CashAndCashEquivalents: item('assets', 'CashCashEquivalentsAndShortTermInvestments'),
+  CashFinancial: item('assets', 'CashAndCashEquivalents'),
+  CashEquivalents: item('assets', 'CashAndCashEquivalents'),
+  OtherShortTermInvestments: item('assets', 'CashCashEquivalentsAndShortTermInvestments'),
+  Receivables: item('assets', 'CurrentAssets'),
+  AccountsReceivable: item('assets', 'Receivables'),
+  GrossAccountsReceivable: item('assets', 'AccountsReceivable'),
+  AllowanceForDoubtfulAccountsReceivable: item('assets', 'AccountsReceivable'),
+  TaxesReceivable: item('assets', 'Receivables'),
+  AccruedInterestReceivable: item('assets', 'Receivables'),
+  LoansReceivable: item('assets', 'Receivables'),
+  NotesReceivable: item('assets', 'Receivables'),
+  DuefromRelatedPartiesCurrent: item('assets', 'Receivables'),
+  OtherReceivables: item('assets', 'Receivables'),
+  ReceivablesAdjustmentsAllowances: item('assets', 'Receivables'),
+  Inventory: item('assets', 'CurrentAssets'),
+  RawMaterials: item('assets', 'Inventory'),
+  WorkInProcess: item('assets', 'Inventory'),
+  FinishedGoods: item('assets', 'Inventory'),
+  OtherInventories: item('assets', 'Inventory'),
+  InventoriesAdjustmentsAllowances: item('assets', 'Inventory'),
+  PrepaidAssets: item('assets', 'CurrentAssets'),
+  RestrictedCash: item('assets', 'CurrentAssets'),
+  CurrentDeferredAssets: item('assets', 'CurrentAssets'),
+  CurrentDeferredTaxesAssets: item('assets', 'CurrentDeferredAssets'),
+  AssetsHeldForSaleCurrent: item('assets', 'CurrentAssets'),
+  HedgingAssetsCurrent: item('assets', 'CurrentAssets'),
+  OtherCurrentAssets: item('assets', 'CurrentAssets'),
+
+  // Non-current assets
+  TotalNonCurrentAssets: item('assets', 'TotalAssets'),
+  NetPPE: item('assets', 'TotalNonCurrentAssets'),
+  GrossPPE: item('assets', 'NetPPE'),
+  Properties: item('assets', 'GrossPPE'),
+  LandAndImprovements: item('assets', 'GrossPPE'),
+  BuildingsAndImprovements: item('assets', 'GrossPPE'),
+  MachineryFurnitureEquipment: item('assets', 'GrossPPE'),
+  OtherProperties: item('assets', 'GrossPPE'),
+  ConstructionInProgress: item('assets', 'GrossPPE'),
+  Leases: item('assets', 'GrossPPE'),
+  AccumulatedDepreciation: item('assets', 'NetPPE'),
+  GoodwillAndOtherIntangibleAssets: item('assets', 'TotalNonCurrentAssets'),
+  Goodwill: item('assets', 'GoodwillAndOtherIntangibleAssets'),
+  OtherIntangibleAssets: item('assets', 'GoodwillAndOtherIntangibleAssets'),
+  InvestmentProperties: item('assets', 'TotalNonCurrentAssets'),
+  InvestmentsAndAdvances: item('assets', 'TotalNonCurrentAssets'),
+  LongTermEquityInvestment: item('assets', 'InvestmentsAndAdvances'),
+  InvestmentsinSubsidiariesatCost: item('assets', 'LongTermEquityInvestment'),
+  InvestmentsinAssociatesatCost: item('assets', 'LongTermEquityInvestment'),
+  InvestmentsinJointVenturesatCost: item('assets', 'LongTermEquityInvestment'),
+  InvestmentsInOtherVenturesUnderEquityMethod: item('assets', 'LongTermEquityInvestment'),
+  InvestmentinFinancialAssets: item('assets', 'InvestmentsAndAdvances'),
+  AvailableForSaleSecurities: item('assets', 'InvestmentinFinancialAssets'),
+  HeldToMaturitySecurities: item('assets', 'InvestmentinFinancialAssets'),
+  TradingSecurities: item('assets', 'InvestmentinFinancialAssets'),
+  FinancialAssetsDesignatedasFairValueThroughProfitorLossTotal: item('assets', 'InvestmentinFinancialAssets'),
+  OtherInvestments: item('assets', 'InvestmentsAndAdvances'),
+  FinancialAssets: item('assets', 'TotalNonCurrentAssets'),
+  NonCurrentAccountsReceivable: item('assets', 'TotalNonCurrentAssets'),
+  NonCurrentNoteReceivables: item('assets', 'TotalNonCurrentAssets'),
+  DuefromRelatedPartiesNonCurrent: item('assets', 'TotalNonCurrentAssets'),
+  NonCurrentDeferredAssets: item('assets', 'TotalNonCurrentAssets'),
+  NonCurrentDeferredTaxesAssets: item('assets', 'NonCurrentDeferredAssets'),
+  NonCurrentPrepaidAssets: item('assets', 'TotalNonCurrentAssets'),
+  DefinedPensionBenefit: item('assets', 'TotalNonCurrentAssets'),
+  OtherNonCurrentAssets: item('assets', 'TotalNonCurrentAssets'),
+
+  // Current liabilities
+  TotalLiabilitiesNetMinorityInterest: item('liabilities', null),
+  CurrentLiabilities: item('liabilities', 'TotalLiabilitiesNetMinorityInterest'),
+  PayablesAndAccruedExpenses: item('liabilities', 'CurrentLiabilities'),
+  Payables: item('liabilities', 'PayablesAndAccruedExpenses'),
+  AccountsPayable: item('liabilities', 'Payables'),
+  TotalTaxPayable: item('liabilities', 'Payables'),
+  IncomeTaxPayable: item('liabilities', 'TotalTaxPayable'),
+  DividendsPayable: item('liabilities', 'Payables'),
+  DuetoRelatedPartiesCurrent: item('liabilities', 'Payables'),
+  OtherPayable: item('liabilities', 'Payables'),
+  CurrentAccruedExpenses: item('liabilities', 'PayablesAndAccruedExpenses'),
+  InterestPayable: item('liabilities', 'PayablesAndAccruedExpenses'),
+  CurrentProvisions: item('liabilities', 'CurrentLiabilities'),
+  PensionandOtherPostRetirementBenefitPlansCurrent: item('liabilities', 'CurrentLiabilities'),
+  CurrentDebtAndCapitalLeaseObligation: item('liabilities', 'CurrentLiabilities'),
+  CurrentDebt: item('liabilities', 'CurrentDebtAndCapitalLeaseObligation'),
+  CurrentNotesPayable: item('liabilities', 'CurrentDebt'),
+  CommercialPaper: item('liabilities', 'CurrentDebt'),
+  LineOfCredit: item('liabilities', 'CurrentDebt'),
+  OtherCurrentBorrowings: item('liabilities', 'CurrentDebt'),
+  CurrentCapitalLeaseObligation: item('liabilities', 'CurrentDebtAndCapitalLeaseObligation'),
+  CurrentDeferredLiabilities: item('liabilities', 'CurrentLiabilities'),
+  CurrentDeferredRevenue: item('liabilities', 'CurrentDeferredLiabilities'),
+  CurrentDeferredTaxesLiabilities: item('liabilities', 'CurrentDeferredLiabilities'),
+  OtherCurrentLiabilities: item('liabilities', 'CurrentLiabilities'),
+
+  // Non-current liabilities
+  TotalNonCurrentLiabilitiesNetMinorityInterest: item('liabilities', 'TotalLiabilitiesNetMinorityInterest'),
+  LongTermProvisions: item('liabilities', 'TotalNonCurrentLiabilitiesNetMinorityInterest'),
+  LongTermDebtAndCapitalLeaseObligation: item('liabilities', 'TotalNonCurrentLiabilitiesNetMinorityInterest'),
+  LongTermDebt: item('liabilities', 'LongTermDebtAndCapitalLeaseObligation'),
+  LongTermCapitalLeaseObligation: item('liabilities', 'LongTermDebtAndCapitalLeaseObligation'),
+  NonCurrentDeferredLiabilities: item('liabilities', 'TotalNonCurrentLiabilitiesNetMinorityInterest'),
+  NonCurrentDeferredTaxesLiabilities: item('liabilities', 'NonCurrentDeferredLiabilities'),
+  NonCurrentDeferredRevenue: item('liabilities', 'NonCurrentDeferredLiabilities'),
+  TradeandOtherPayablesNonCurrent: item('liabilities', 'TotalNonCurrentLiabilitiesNetMinorityInterest'),
+  DuetoRelatedPartiesNonCurrent: item('liabilities', 'TotalNonCurrentLiabilitiesNetMinorityInterest'),
+  NonCurrentAccruedExpenses: item('liabilities', 'TotalNonCurrentLiabilitiesNetMinorityInterest'),
+  EmployeeBenefits: item('liabilities', 'TotalNonCurrentLiabilitiesNetMinorityInterest'),
+  NonCurrentPensionAndOtherPostretirementBenefitPlans: item('liabilities', 'EmployeeBenefits'),
+  DerivativeProductLiabilities: item('liabilities', 'TotalNonCurrentLiabilitiesNetMinorityInterest'),
+  PreferredSecuritiesOutsideStockEquity: item('liabilities', 'TotalNonCurrentLiabilitiesNetMinorityInterest'),
+  LiabilitiesHeldforSaleNonCurrent: item('liabilities', 'TotalNonCurrentLiabilitiesNetMinorityInterest'),
+  OtherNonCurrentLiabilities: item('liabilities', 'TotalNonCurrentLiabilitiesNetMinorityInterest'),
+
+  // Equity
+  TotalEquityGrossMinorityInterest: item('equity', null),
+  StockholdersEquity: item('equity', 'TotalEquityGrossMinorityInterest'),
+  CapitalStock: item('equity', 'StockholdersEquity'),
+  CommonStock: item('equity', 'CapitalStock'),
+  PreferredStock: item('equity', 'CapitalStock'),
+  OtherCapitalStock: item('equity', 'CapitalStock'),
+  RestrictedCommonStock: item('equity', 'CapitalStock'),
+  AdditionalPaidInCapital: item('equity', 'StockholdersEquity'),
+  RetainedEarnings: item('equity', 'StockholdersEquity'),
+  TreasuryStock: item('equity', 'StockholdersEquity', -1),
+  GainsLossesNotAffectingRetainedEarnings: item('equity', 'StockholdersEquity'),
+  ForeignCurrencyTranslationAdjustments: item('equity', 'GainsLossesNotAffectingRetainedEarnings'),
+  UnrealizedGainLoss: item('equity', 'GainsLossesNotAffectingRetainedEarnings'),
+  MinimumPensionLiabilities: item('equity', 'GainsLossesNotAffectingRetainedEarnings'),
+  FixedAssetsRevaluationReserve: item('equity', 'StockholdersEquity'),
+  OtherEquityAdjustments: item('equity', 'StockholdersEquity'),
+  OtherEquityInterest: item('equity', 'StockholdersEquity'),
+  TotalPartnershipCapital: item('equity', 'StockholdersEquity'),
+  GeneralPartnershipCapital: item('equity', 'TotalPartnershipCapital'),
+  LimitedPartnershipCapital: item('equity', 'TotalPartnershipCapital'),
+  MinorityInterest: item('equity', 'TotalEquityGrossMinorityInterest'),
+
+  // Memo items
+  CommonStockEquity: item('supplemental', null),
+  PreferredStockEquity: item('supplemental', null),
+  TotalCapitalization: item('supplemental', null),
+  CapitalLeaseObligations: item('supplemental', null),
+  TotalDebt: item('supplemental', null),
+  NetDebt: item('supplemental', null),
+  WorkingCapital: item('supplemental', null),
+  InvestedCapital: item('supplemental', null),
+  TangibleBookValue: item('supplemental', null),
+  NetTangibleAssets: item('supplemental', null),
+  ShareIssued: item('supplemental', null, 1, 'shares'),
+  OrdinarySharesNumber: item('supplemental', null, 1, 'shares'),
+  PreferredSharesNumber: item('supplemental', null, 1, 'shares'),
+  TreasurySharesNumber: item('supplemental', null, 1, 'shares'),
+};
+
+const CASH_FLOW: Record<string, LineItemDefinition> = {
+  // Operating activities
+  OperatingCashFlow: item('operating', 'ChangesInCash'),
+  CashFlowFromContinuingOperatingActivities: item('operating', 'OperatingCashFlow'),
+  NetIncomeFromContinuingOperations: item('operating', 'CashFlowFromContinuingOperatingActivities'),
+  DepreciationAmortizationDepletion: item('operating', 'CashFlowFromContinuingOperatingActivities'),
+  DepreciationAndAmortization: item('operating', 'DepreciationAmortizationDepletion'),
+  Depreciation: item('operating', 'DepreciationAndAmortization'),
+  AmortizationCashFlow: item('operating', 'DepreciationAndAmortization'),
+  AmortizationOfIntangibles: item('operating', 'AmortizationCashFlow'),
+  Depletion: item('operating', 'DepreciationAmortizationDepletion'),
+  DeferredTax: item('operating', 'CashFlowFromContinuingOperatingActivities'),
+  DeferredIncomeTax: item('operating', 'DeferredTax'),
+  OperatingGainsLosses: item('operating', 'CashFlowFromContinuingOperatingActivities'),
+  GainLossOnSaleOfPPE: item('operating', 'OperatingGainsLosses'),
+  GainLossOnSaleOfBusiness: item('operating', 'OperatingGainsLosses'),
+  GainLossOnInvestmentSecurities: item('operating', 'OperatingGainsLosses'),
+  NetForeignCurrencyExchangeGainLoss: item('operating', 'OperatingGainsLosses'),
+  EarningsLossesFromEquityInvestments: item('operating', 'OperatingGainsLosses'),
+  StockBasedCompensation: item('operating', 'CashFlowFromContinuingOperatingActivities'),
+  ExcessTaxBenefitFromStockBasedCompensation: item('operating', 'CashFlowFromContinuingOperatingActivities'),
+  AssetImpairmentCharge: item('operating', 'CashFlowFromContinuingOperatingActivities'),
+  ProvisionandWriteOffofAssets: item('operating', 'CashFlowFromContinuingOperatingActivities'),
+  AmortizationOfSecurities: item('operating', 'CashFlowFromContinuingOperatingActivities'),
+  PensionAndEmployeeBenefitExpense: item('operating', 'CashFlowFromContinuingOperatingActivities'),
+  UnrealizedGainLossOnInvestmentSecurities: item('operating', 'CashFlowFromContinuingOperatingActivities'),
+  OtherNonCashItems: item('operating', 'CashFlowFromContinuingOperatingActivities'),
+  ChangeInWorkingCapital: item('operating', 'CashFlowFromContinuingOperatingActivities'),
+  ChangeInReceivables: item('operating', 'ChangeInWorkingCapital'),
+  ChangesInAccountReceivables: item('operating', 'ChangeInReceivables'),
+  ChangeInInventory: item('operating', 'ChangeInWorkingCapital'),
+  ChangeInPrepaidAssets: item('operating', 'ChangeInWorkingCapital'),
+  ChangeInPayablesAndAccruedExpense: item('operating', 'ChangeInWorkingCapital'),
+  ChangeInPayable: item('operating', 'ChangeInPayablesAndAccruedExpense'),
+  ChangeInAccountPayable: item('operating', 'ChangeInPayable'),
+  ChangeInTaxPayable: item('operating', 'ChangeInPayable'),
+  ChangeInIncomeTaxPayable: item('operating', 'ChangeInTaxPayable'),
+  ChangeInDividendPayable: item('operating', 'ChangeInPayable'),
+  ChangeInAccruedExpense: item('operating', 'ChangeInPayablesAndAccruedExpense'),
+  ChangeInInterestPayable: item('operating', 'ChangeInPayablesAndAccruedExpense'),
+  ChangeInOtherCurrentAssets: item('operating', 'ChangeInWorkingCapital'),
+  ChangeInOtherCurrentLiabilities: item('operating', 'ChangeInWorkingCapital'),
+  ChangeInOtherWorkingCapital: item('operating', 'ChangeInWorkingCapital'),
+  DividendPaidCFO: item('operating', 'CashFlowFromContinuingOperatingActivities'),
+  DividendReceivedCFO: item('operating', 'CashFlowFromContinuingOperatingActivities'),
+  InterestPaidCFO: item('operating', 'CashFlowFromContinuingOperatingActivities'),
+  InterestReceivedCFO: item('operating', 'CashFlowFromContinuingOperatingActivities'),
+  TaxesRefundPaid: item('operating', 'CashFlowFromContinuingOperatingActivities'),
+  CashFlowsfromusedinOperatingActivitiesDirect: item('operating', 'CashFlowFromContinuingOperatingActivities'),
+  ClassesofCashReceiptsfromOperatingActivities: item('operating', 'CashFlowsfromusedinOperatingActivitiesDirect'),
+  ReceiptsfromCustomers: item('operating', 'ClassesofCashReceiptsfromOperatingActivities'),
+  ReceiptsfromGovernmentGrants: item('operating', 'ClassesofCashReceiptsfromOperatingActivities'),
+  OtherCashReceiptsfromOperatingActivities: item('operating', 'ClassesofCashReceiptsfromOperatingActivities'),
+  ClassesofCashPayments: item('operating', 'CashFlowsfromusedinOperatingActivitiesDirect'),
+  PaymentstoSuppliersforGoodsandServices: item('operating', 'ClassesofCashPayments'),
+  PaymentsonBehalfofEmployees: item('operating', 'ClassesofCashPayments'),
+  OtherCashPaymentsfromOperatingActivities: item('operating', 'ClassesofCashPayments'),
+  DividendsPaidDirect: item('operating', 'CashFlowsfromusedinOperatingActivitiesDirect'),
+  DividendsReceivedDirect: item('operating', 'CashFlowsfromusedinOperatingActivitiesDirect'),
+  InterestPaidDirect: item('operating', 'CashFlowsfromusedinOperatingActivitiesDirect'),
+  InterestReceivedDirect: item('operating', 'CashFlowsfromusedinOperatingActivitiesDirect'),
+  TaxesRefundPaidDirect: item('operating', 'CashFlowsfromusedinOperatingActivitiesDirect'),
+  CashFromDiscontinuedOperatingActivities: item('operating', 'OperatingCashFlow'),
+
+  // Investing activities
+  InvestingCashFlow: item('investing', 'ChangesInCash'),
+  CashFlowFromContinuingInvestingActivities: item('investing', 'InvestingCashFlow'),
+  NetPPEPurchaseAndSale: item('investing', 'CashFlowFromContinuingInvestingActivities'),
+  PurchaseOfPPE: item('investing', 'NetPPEPurchaseAndSale'),
+  SaleOfPPE: item('investing', 'NetPPEPurchaseAndSale'),
+  NetIntangiblesPurchaseAndSale: item('investing', 'CashFlowFromContinuingInvestingActivities'),
+  PurchaseOfIntangibles: item('investing', 'NetIntangiblesPurchaseAndSale'),
+  SaleOfIntangibles: item('investing', 'NetIntangiblesPurchaseAndSale'),
+  NetBusinessPurchaseAndSale: item('investing', 'CashFlowFromContinuingInvestingActivities'),
+  PurchaseOfBusiness: item('investing', 'NetBusinessPurchaseAndSale'),
+  SaleOfBusiness: item('investing', 'NetBusinessPurchaseAndSale'),
+  NetInvestmentPurchaseAndSale: item('investing', 'CashFlowFromContinuingInvestingActivities'),
+  PurchaseOfInvestment: item('investing', 'NetInvestmentPurchaseAndSale'),
+  SaleOfInvestment: item('investing', 'NetInvestmentPurchaseAndSale'),
+  NetInvestmentPropertiesPurchaseAndSale: item('investing', 'CashFlowFromContinuingInvestingActivities'),
+  PurchaseOfInvestmentProperties: item('investing', 'NetInvestmentPropertiesPurchaseAndSale'),
+  SaleOfInvestmentProperties: item('investing', 'NetInvestmentPropertiesPurchaseAndSale'),
+  DividendsReceivedCFI: item('investing', 'CashFlowFromContinuingInvestingActivities'),
+  InterestReceivedCFI: item('investing', 'CashFlowFromContinuingInvestingActivities'),
+  NetOtherInvestingChanges: item('investing', 'CashFlowFromContinuingInvestingActivities'),
+  CashFromDiscontinuedInvestingActivities: item('investing', 'InvestingCashFlow'),
+
+  // Financing activities
+  FinancingCashFlow: item('financing', 'ChangesInCash'),
+  CashFlowFromContinuingFinancingActivities: item('financing', 'FinancingCashFlow'),
+  NetIssuancePaymentsOfDebt: item('financing', 'CashFlowFromContinuingFinancingActivities'),
+  NetLongTermDebtIssuance: item('financing', 'NetIssuancePaymentsOfDebt'),
+  LongTermDebtIssuance: item('financing', 'NetLongTermDebtIssuance'),
+  LongTermDebtPayments: item('financing', 'NetLongTermDebtIssuance'),
+  NetShortTermDebtIssuance: item('financing', 'NetIssuancePaymentsOfDebt'),
+  ShortTermDebtIssuance: item('financing', 'NetShortTermDebtIssuance'),
+  ShortTermDebtPayments: item('financing', 'NetShortTermDebtIssuance'),
+  NetCommonStockIssuance: item('financing', 'CashFlowFromContinuingFinancingActivities'),
+  CommonStockIssuance: item('financing', 'NetCommonStockIssuance'),
+  CommonStockPayments: item('financing', 'NetCommonStockIssuance'),
+  NetPreferredStockIssuance: item('financing', 'CashFlowFromContinuingFinancingActivities'),
+  PreferredStockIssuance: item('financing', 'NetPreferredStockIssuance'),
+  PreferredStockPayments: item('financing', 'NetPreferredStockIssuance'),
+  CashDividendsPaid: item('financing', 'CashFlowFromContinuingFinancingActivities'),
+  CommonStockDividendPaid: item('financing', 'CashDividendsPaid'),
+  PreferredStockDividendPaid: item('financing', 'CashDividendsPaid'),
+  InterestPaidCFF: item('financing', 'CashFlowFromContinuingFinancingActivities'),
+  ProceedsFromStockOptionExercised: item('financing', 'CashFlowFromContinuingFinancingActivities'),
+  NetOtherFinancingCharges: item('financing', 'CashFlowFromContinuingFinancingActivities'),
+  CashFromDiscontinuedFinancingActivities: item('financing', 'FinancingCashFlow'),
+
+  // Cash position
+  EndCashPosition: item('cashPosition', null),
+  BeginningCashPosition: item('cashPosition', 'EndCashPosition'),
+  ChangesInCash: item('cashPosition', 'EndCashPosition'),
+  OtherCashAdjustmentInsideChangeinCash: item('cashPosition', 'ChangesInCash'),
+  EffectOfExchangeRateChanges: item('cashPosition', 'EndCashPosition'),
+  OtherCashAdjustmentOutsideChangeinCash: item('cashPosition', 'EndCashPosition'),
+
+  // Memo items
+  FreeCashFlow: item('supplemental', null),
+  CapitalExpenditure: item('supplemental', 'FreeCashFlow'),
+  CapitalExpenditureReported: item('supplemental', null),
+  NetIncome: item('supplemental', null),
+  CashFlowFromDiscontinuedOperation: item('supplemental', null),
+  ChangeInCashSupplementalAsReported: item('supplemental', null),
+  IssuanceOfCapitalStock: item('supplemental', null),
+  IssuanceOfDebt: item('supplemental', null),
+  RepaymentOfDebt: item('supplemental', null),
+  RepurchaseOfCapitalStock: item('supplemental', null),
+  InterestPaidSupplementalData: item('supplemental', null),
+  IncomeTaxPaidSupplementalData: item('supplemental', null),
+  DomesticSales: item('supplemental', null),
+  ForeignSales: item('supplemental', null),
+  AdjustedGeographySegmentData: item('supplemental', null),
+};
+
+const VALUATION: Record<string, LineItemDefinition> = {
+  MarketCap: item('valuation', null),
+  EnterpriseValue: item('valuation', null),
+  PeRatio: item('valuation', null, 1, 'ratio'),
+  ForwardPeRatio: item('valuation', null, 1, 'ratio'),
+  PegRatio: item('valuation', null, 1, 'ratio'),
+  PsRatio: item('valuation', null, 1, 'ratio'),
+  PbRatio: item('valuation', null, 1, 'ratio'),
+  EnterprisesValueRevenueRatio: item('valuation', null, 1, 'ratio'),
+  EnterprisesValueEBITDARatio: item('valuation', null, 1, 'ratio'),
+};
+
+/**
+ * Line items per statement. Names are unique within a statement (NetIncome appears on both the income
+ * statement and the cash flow statement).
+ */
+export const LINE_ITEM_TAXONOMY: Record<StatementType, Record<string, LineItemDefinition>> = {
+  income_statement: INCOME_STATEMENT,
+  balance_sheet: BALANCE_SHEET,
+  cash_flow: CASH_FLOW,
+  valuation: VALUATION,
+};
+
+/**
+ * Look up a line item on a statement
+ */
+export function getLineItem(statement: StatementType, name: string): LineItemDefinition | undefined {
+  return LINE_ITEM_TAXONOMY[statement][name];
+}
+
+/**
+ * Line items that roll up directly into `parent` (top-level items for null)
+ */
+export function getChildLineItems(statement: StatementType, parent: string | null): string[] {
+  return Object.entries(LINE_ITEM_TAXONOMY[statement])
+    .filter(([, definition]) => definition.parent === parent)
+    .map(([name]) => name);
+}
@@ -17,7 +17,7 @@ import {
   sleep,
   addJitter,
 } from '../utils/helpers';
-import { BaseFinanceOptions, QueryParams } from '../types';
+import { BaseFinanceOptions, QueryParams, SymbolError } from '../types';
 
 // Maximum symbols per request chunk
 const CHUNK_SIZE = 1500;
@@ -34,6 +34,8 @@ export abstract class BaseFinance {
   protected session: SessionManager;
   protected crumb: string | null = null;
   protected initialized = false;
+  /** Errors for symbols known to fail (e.g. invalid), returned without a request */
+  protected symbolErrors: Record<string, SymbolError> = {};
   /** Minimum delay between sequential requests (ms) to avoid rate limiting */
   protected requestDelay: number;
   /** Timestamp of the last request made */
@@ -85,6 +87,15 @@ export abstract class BaseFinance {
     this.initialized = true;
   }
 
+  /**
+   * Whether the session is logged in to Yahoo Finance Premium; logs in on
+   * first use when credentials are configured
+   */
+  async hasPremium(): Promise<boolean> {
+    await this.initialize();
+    return this.session.hasPremium();
+  }
+
   // Symbol getter/setter
   get symbols(): string[] {
     return this._symbols;
@@ -137,6 +148,14 @@ export abstract class BaseFinance {
     const constructedParams = this.constructParams(config, params);
     const responseField = config.response_field;
 
+    // Every symbol of a multi-symbol request has a known error: nothing to request
+    const perSymbol = Array.isArray(constructedParams);
+    if (!perSymbol && 'symbols' in config.query && constructedParams.symbols === '' && this._symbols.length > 0) {
+      return options.listResult
+        ? [] as unknown as Record<string, T>
+        : this.addSymbolErrors({}) as Record<string, T>;
+    }
+
     // Execute requests
     const data = await this.executeRequests<T>(
       config,
@@ -145,9 +164,27 @@ export abstract class BaseFinance {
       options
     );
 
+    // Results keyed by symbol include the known errors of symbols not requested;
+    // list results are keyed by the caller (see addSymbolErrors)
+    if (perSymbol || ('symbols' in config.query && !options.listResult && !Array.isArray(data))) {
+      this.addSymbolErrors(data);
+    }
+
     return data;
   }
 
+  /**
+   * Add the known errors of this instance's symbols to a result keyed by symbol
+   */
+  protected addSymbolErrors<T extends Record<string, unknown>>(result: T): T {
+    for (const symbol of this._symbols) {
+      if (this.symbolErrors[symbol]) {
+        (result as Record<string, unknown>)[symbol] = this.symbolErrors[symbol];
+      }
+    }
+    return result;
+  }
+
   /**
    * Construct query parameters from config and defaults
    */
@@ -186,14 +223,17 @@ export abstract class BaseFinance {
     // Convert booleans to lowercase strings
     const stringified = stringifyBooleans(result);
 
+    // Symbols with a known error are not requested
+    const symbols = this._symbols.filter((symbol) => !this.symbolErrors[symbol]);
+
     // Create per-symbol params if endpoint uses {symbol} in path
     if (config.path.includes('{symbol}') || 'symbol' in config.query) {
-      return this._symbols.map((symbol) => ({ ...stringified, symbol }));
+      return symbols.map((symbol) => ({ ...stringified, symbol }));
     }
 
     // If endpoint uses 'symbols' param (plural), join all symbols
     if ('symbols' in config.query) {
-      return { ...stringified, symbols: this._symbols.join(',') };
+      return { ...stringified, symbols: symbols.join(',') };
     }
 
     return stringified;
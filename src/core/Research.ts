@@ -5,7 +5,7 @@
  */
 
 import { BaseFinance } from './BaseFinance';
-import { convertToList } from '../utils/helpers';
+import { convertToList, htmlToText, isSymbolError, mapConcurrent } from '../utils/helpers';
 import { BaseFinanceOptions } from '../types';
 
 // Research data configuration
@@ -200,8 +200,45 @@ export interface ResearchResult {
   [key: string]: unknown;
 }
 
+/**
+ * Full report or trade idea, with HTML fields converted to plain text
+ */
+export type ResearchDetail = Record<string, unknown>;
+
+export interface ResearchOptions {
+  /** Fetch the detail of every row into a `detail` field (default: false) */
+  details?: boolean;
+  /** Detail requests in flight at once (default: 5) */
+  concurrency?: number;
+}
+
 type ResearchType = 'report' | 'trade' | 'earnings' | 'splits' | 'ipo';
 
+const DETAIL_CONCURRENCY = 5;
+
+// Strings containing an HTML tag
+const HTML_PATTERN = /<[a-z][\s\S]*>/i;
+
+/**
+ * Replace HTML strings, at any depth, with plain text
+ */
+function toPlainText(value: unknown): unknown {
+  if (typeof value === 'string') {
+    return HTML_PATTERN.test(value) ? htmlToText(value) : value;
+  }
+  if (Array.isArray(value)) {
+    return value.map(toPlainText);
+  }
+  if (typeof value === 'object' && value !== null) {
+    const result: Record<string, unknown> = {};
+    for (const [key, item] of Object.entries(value)) {
+      result[key] = toPlainText(item);
+    }
+    return result;
+  }
+  return value;
+}
+
 export class Research extends BaseFinance {
   private static readonly OPERATORS = ['lt', 'lte', 'gt', 'gte', 'btwn', 'eq', 'and', 'or'];
   private static readonly RESEARCH_URL = 'https://query2.finance.yahoo.com/v1/finance/visualization';
@@ -357,28 +394,87 @@ export class Research extends BaseFinance {
     return results;
   }
 
+  /**
+   * Fetch one report or trade idea from its overlay endpoint
+   */
+  private async getDetail(key: 'reports' | 'trade_ideas', params: Record<string, string>): Promise<ResearchDetail | null> {
+    await this.initialize();
+
+    try {
+      const data = await this.getData<unknown>(key, params);
+      if (isSymbolError(data)) {
+        console.warn(`Research detail request failed: ${data.error}`);
+        return null;
+      }
+      return toPlainText(data) as ResearchDetail;
+    } catch (error) {
+      console.warn(`Research detail request failed: ${(error as Error).message}`);
+      return null;
+    }
+  }
+
+  /**
+   * Add the detail of each row, fetched concurrently, as a `detail` field
+   */
+  private async hydrate(
+    rows: Array<Record<string, unknown>>,
+    fetch: (id: string) => Promise<ResearchDetail | null>,
+    concurrency = DETAIL_CONCURRENCY
+  ): Promise<Array<Record<string, unknown>>> {
+    return mapConcurrent(rows, concurrency, async (row) => ({
+      ...row,
+      detail: row.id ? await fetch(String(row.id)) : null,
+    }));
+  }
+
   /**
    * Get research reports
    * @param size - Number of reports to return (default: 100)
    * @param filters - Optional filters (investment_rating, sector, report_type, report_date)
+   * @param options - Set `details` to include each report's full text
    */
   async getReports(
     size = 100,
-    filters: ReportFilters = {}
+    filters: ReportFilters = {},
+    options: ResearchOptions = {}
   ): Promise<Array<Record<string, unknown>>> {
-    return this.getResearch('report', size, filters as Record<string, string | string[]>);
+    const rows = await this.getResearch('report', size, filters as Record<string, string | string[]>);
+    return options.details
+      ? this.hydrate(rows, (id) => this.getReportDetail(id), options.concurrency)
+      : rows;
+  }
+
+  /**
+   * Get the full research report (e.g. the Argus thesis) as plain text
+   * @param id - Report id from getReports
+   */
+  async getReportDetail(id: string): Promise<ResearchDetail | null> {
+    return this.getDetail('reports', { reportId: id });
   }
 
   /**
    * Get trade ideas
    * @param size - Number of trades to return (default: 100)
    * @param filters - Optional filters (trend, sector, term, startdatetime)
+   * @param options - Set `details` to include each trade idea's full text
    */
   async getTrades(
     size = 100,
-    filters: TradeFilters = {}
+    filters: TradeFilters = {},
+    options: ResearchOptions = {}
   ): Promise<Array<Record<string, unknown>>> {
-    return this.getResearch('trade', size, filters as Record<string, string | string[]>);
+    const rows = await this.getResearch('trade', size, filters as Record<string, string | string[]>);
+    return options.details
+      ? this.hydrate(rows, (id) => this.getTradeIdeaDetail(id), options.concurrency)
+      : rows;
+  }
+
+  /**
+   * Get the full trade idea as plain text
+   * @param id - Trade idea id from getTrades
+   */
+  async getTradeIdeaDetail(id: string): Promise<ResearchDetail | null> {
+    return this.getDetail('trade_ideas', { ideaId: id });
   }
 
   /**
@@ -6,36 +6,423 @@
  */
 
 import { BaseFinance } from './BaseFinance';
-import { CONFIG, FUND_DETAILS } from '../config/endpoints';
-import { MODULES_DICT, FUNDAMENTALS_OPTIONS, FUNDAMENTALS_TIME_ARGS, CORPORATE_EVENTS } from '../config/modules';
-import { convertToTimestamp, flattenList } from '../utils/helpers';
-import { TickerOptions, HistoryParams, FinancialsData, HistoryData, OptionChainData } from '../types';
+import { CONFIG, FUND_DETAILS, INTERVAL_LIMITS } from '../config/endpoints';
+import { adjustBars } from '../analysis/adjustments';
+import { findMissingBars, getMarketClock, MarketStatus, resolveCalendar } from '../analysis/calendar';
+import {
+  buildPanel,
+  correlationMatrix,
+  CorrelationReport,
+  covarianceMatrix,
+  PricePanel,
+  rollingCorrelation,
+} from '../analysis/panel';
+import { computeFinancialRatios, FinancialRatiosReport, RATIO_LINE_ITEMS } from '../analysis/ratios';
+import { buildFinancialsTtm, TtmOptions, TtmRow } from '../analysis/ttm';
+import { addOptionGreeks } from '../analysis/pricing';
+import { computeOptionAnalytics, OptionAnalytics } from '../analysis/chain';
+import { buildVolatilitySurface, VolatilitySurface } from '../analysis/surface';
+import {
+  FairValue,
+  normalizeValueAnalysis,
+  ValueAnalysis,
+  ValueAnalyzerDrilldown,
+  valuationBandRows,
+} from '../analysis/valuation';
+import {
+  computeRiskMetrics,
+  historyReturns,
+  periodsPerYear,
+  ReturnRow,
+  RiskReport,
+  rollingRiskMetrics,
+} from '../analysis/risk';
+import {
+  MODULES_DICT,
+  FUNDAMENTALS_OPTIONS,
+  FUNDAMENTALS_TIME_ARGS,
+  CORPORATE_EVENTS,
+  COMPANY_360_MODULES,
+  Company360Module,
+  TRADING_HORIZONS,
+} from '../config/modules';
+import {
+  convertToTimestamp,
+  flattenList,
+  formatDate,
+  formatDateInZone,
+  formatDateTimeInZone,
+  isSymbolError,
+  mapConcurrent,
+  periodToTimestamp,
+  secondsSinceMidnightInZone,
+  splitTimeWindows,
+  TimeWindow,
+} from '../utils/helpers';
+import {
+  TickerOptions,
+  HistoryParams,
+  HistoryRow,
+  RiskParams,
+  PanelParams,
+  CorrelationParams,
+  HistoryMeta,
+  TradingPeriod,
+  TradingSession,
+  FinancialsData,
+  HistoryData,
+  OptionChainData,
+  OptionChainParams,
+  OptionGreeksParams,
+  OptionAnalyticsParams,
+  VolatilitySurfaceParams,
+  OptionChain,
+  OptionContractRow,
+  OptionStraddleRow,
+  QueryParams,
+  TimeSeries,
+  TimeSeriesData,
+  TimeSeriesDataPoint,
+  FinancialStatementRow,
+  ChartResult,
+  SymbolResult,
+  QuoteSummaryModule,
+  QuoteSummaryModules,
+  QuoteSummaryModuleName,
+  QuoteSummaryModulesResult,
+  QuoteSummaryResult,
+  AssetProfile,
+  CalendarEvents,
+  Company360,
+  CompanyOfficer,
+  DefaultKeyStatistics,
+  Earnings,
+  EsgChart,
+  EsgChartResponse,
+  EsgChartRow,
+  EsgPeerScores,
+  EsgScores,
+  EsgSeries,
+  FinancialData,
+  FundCategoryHoldings,
+  FundHolding,
+  Insights,
+  InvalidSymbolError,
+  Price,
+  Quote,
+  SearchResult,
+  SummaryDetail,
+  SymbolRecommendations,
+  NewsItem,
+  TechnicalEvent,
+  TechnicalEventRow,
+  TechnicalEventsParams,
+  TechnicalEventsResponse,
+  TopHoldings,
+  TradingHorizon,
+  ValueAnalyzerDrilldownResponse,
+  ValueAnalyzerQuote,
+} from '../types';
 
 // Type for quote summary data
 type QuoteSummaryData = Record<string, unknown>;
 
+// Raw per-symbol chart results
+type ChartData = SymbolResult<ChartResult>;
+
+const DAY_SECONDS = 24 * 60 * 60;
+
+// Maximum chart requests in flight when a history range is split into windows
+const HISTORY_CONCURRENCY = 3;
+
+// Default risk-free rate for option pricing: 13-week Treasury bill yield
+const RISK_FREE_SYMBOL = '^IRX';
+
+// Epoch-second field in ESG responses; scores are published per UTC month
+const ESG_DATE_FIELD = 'timestamp';
+const ESG_TIME_ZONE = 'UTC';
+
+const SEARCH_URL = 'https://query2.finance.yahoo.com/v1/finance/search';
+
+// Suggested corrections requested per invalid symbol
+const SUGGESTION_COUNT = 5;
+
+/**
+ * Map chart events to the index of the bar they belong to. Daily and longer
+ * bars take events that fall within them; intraday events go to the first bar
+ * at or after the event (the ex-date open) on the same day.
+ */
+function alignEvents<T extends { date: number }>(
+  timestamps: number[],
+  events: Record<string, T> | undefined,
+  isDaily: boolean
+): Map<number, T> {
+  const aligned = new Map<number, T>();
+
+  for (const event of Object.values(events ?? {})) {
+    let index: number;
+    if (isDaily) {
+      index = timestamps.findIndex((ts, i) =>
+        ts <= event.date && (i === timestamps.length - 1 || timestamps[i + 1] > event.date)
+      );
+    } else {
+      index = timestamps.findIndex((ts) => ts >= event.date);
+      if (index >= 0 && timestamps[index] - event.date >= DAY_SECONDS) {
+        index = -1;
+      }
+    }
+
+    if (index >= 0) {
+      aligned.set(index, event);
+    }
+  }
+
+  return aligned;
+}
+
+/**
+ * Sort key for a history row (daily rows carry a date string, intraday a Date)
+ */
+function rowTime(row: HistoryRow): number {
+  return row.date instanceof Date ? row.date.getTime() : Date.parse(row.date);
+}
+
+/**
+ * Rows of an ESG chart series, one per published month
+ */
+function esgSeriesRows(series: EsgSeries | undefined): EsgChartRow[] {
+  const score = (values: Array<number | null> | undefined, i: number): number | null => values?.[i] ?? null;
+
+  return (series?.timestamp ?? []).map((timestamp, i) => ({
+    date: formatDateInZone(timestamp, ESG_TIME_ZONE),
+    esgScore: score(series?.esgScore, i),
+    environmentScore: score(series?.environmentScore, i),
+    socialScore: score(series?.socialScore, i),
+    governanceScore: score(series?.governanceScore, i),
+  }));
+}
+
+/**
+ * Format ESG timestamps, at any depth, as YYYY-MM-DD like the chart series
+ */
+function formatEsgDates(value: unknown): unknown {
+  if (Array.isArray(value)) {
+    return value.map(formatEsgDates);
+  }
+  if (typeof value !== 'object' || value === null) {
+    return value;
+  }
+  const formatted: Record<string, unknown> = {};
+  for (const [key, item] of Object.entries(value)) {
+    formatted[key] = key !== ESG_DATE_FIELD
+      ? formatEsgDates(item)
+      : typeof item === 'number'
+        ? formatDateInZone(item, ESG_TIME_ZONE)
+        : Array.isArray(item)
+          ? item.map((ts) => (typeof ts === 'number' ? formatDateInZone(ts, ESG_TIME_ZONE) : ts))
+          : item;
+  }
+  return formatted;
+}
+
+/**
+ * Normalize a Trading Central event: horizon names as in TRADING_HORIZONS,
+ * dates as YYYY-MM-DD
+ */
+function technicalEventRow(event: TechnicalEvent): TechnicalEventRow {
+  const tradeType = (event.tradeType ?? '').toLowerCase();
+  let direction: TechnicalEventRow['direction'] = tradeType ? 'neutral' : null;
+  if (tradeType.startsWith('bull')) {
+    direction = 'bullish';
+  } else if (tradeType.startsWith('bear')) {
+    direction = 'bearish';
+  }
+  const horizon = Object.entries(TRADING_HORIZONS)
+    .find(([, value]) => value === event.tradingHorizon?.toUpperCase())?.[0] as TradingHorizon | undefined;
+  const date = typeof event.date === 'number'
+    ? formatDate(event.date)
+    : typeof event.date === 'string' ? event.date.slice(0, 10) : null;
+
+  return {
+    pattern: event.eventType ?? null,
+    direction,
+    horizon: horizon ?? null,
+    date,
+    target: typeof event.targetPrice === 'number' ? event.targetPrice : null,
+  };
+}
+
+/**
+ * Adjust OHLC for splits and dividends. Bars with adjclose are rescaled to it;
+ * intraday data has no adjclose and is back-adjusted from the dividend events
+ * instead. Yahoo's prices are already split-adjusted, so splits are not
+ * re-applied. Rows must cover the whole requested range, in time order.
+ */
+function adjustOhlc(rows: HistoryRow[]): HistoryRow[] {
+  if (!rows.some((row) => 'adjclose' in row)) {
+    return adjustBars(rows, { mode: 'all' });
+  }
+
+  for (const row of rows) {
+    if (row.close && row.adjclose) {
+      const adjust = (row.close as number) / (row.adjclose as number);
+      row.open = (row.open as number) / adjust;
+      row.high = (row.high as number) / adjust;
+      row.low = (row.low as number) / adjust;
+      row.close = row.adjclose;
+      delete row.adjclose;
+    }
+  }
+  return rows;
+}
+
+/**
+ * Yahoo keys option expirations by midnight UTC of the expiration day
+ */
+function toExpirationTimestamp(expiration: string | Date | number): number {
+  const timestamp = typeof expiration === 'number' ? expiration : convertToTimestamp(expiration);
+  return Math.floor(timestamp / DAY_SECONDS) * DAY_SECONDS;
+}
+
+/**
+ * Combine per-expiration option responses into one chain per symbol. A symbol
+ * is an error only if every request for it failed.
+ */
+function mergeOptionChains(chains: Array<SymbolResult<OptionChain>>): SymbolResult<OptionChain> {
+  const merged: SymbolResult<OptionChain> = {};
+
+  for (const chain of chains) {
+    for (const [symbol, data] of Object.entries(chain)) {
+      const existing = merged[symbol];
+      if (isSymbolError(data)) {
+        merged[symbol] = existing ?? data;
+      } else if (!existing || isSymbolError(existing)) {
+        merged[symbol] = { ...data, options: [...(data.options ?? [])] };
+      } else {
+        existing.options = [...(existing.options ?? []), ...(data.options ?? [])];
+      }
+    }
+  }
+
+  return merged;
+}
+
+/**
+ * Pair calls and puts by expiration and strike
+ */
+function pairStraddles(calls: OptionContractRow[], puts: OptionContractRow[]): OptionStraddleRow[] {
+  const straddles = new Map<string, OptionStraddleRow>();
+  const entry = (contract: OptionContractRow): OptionStraddleRow => {
+    const key = `${contract.expiration.getTime()}|${contract.strike}`;
+    let straddle = straddles.get(key);
+    if (!straddle) {
+      straddle = { expiration: contract.expiration, strike: contract.strike ?? 0, call: null, put: null };
+      straddles.set(key, straddle);
+    }
+    return straddle;
+  };
+
+  for (const call of calls) {
+    entry(call).call = call;
+  }
+  for (const put of puts) {
+    entry(put).put = put;
+  }
+
+  return [...straddles.values()].sort((a, b) =>
+    a.expiration.getTime() - b.expiration.getTime() || a.strike - b.strike
+  );
+}
+
 export class Ticker extends BaseFinance {
   invalidSymbols: string[] | null = null;
 
+  // Chart meta from the latest history request, per symbol
+  private historyMeta: Record<string, HistoryMeta> = {};
+
+  // Validate symbols on the first data call (TickerOptions.validate)
+  private validateOnUse: boolean;
+
+  // Running or finished validation, shared by every data call
+  private validation: Promise<void> | null = null;
+
   constructor(symbols: string | string[], options: TickerOptions = {}) {
     const { validate, ...baseOptions } = options;
     super(baseOptions);
     this.symbols = symbols;
+    this.validateOnUse = Boolean(validate);
+  }
 
-    // Validation will be handled separately since it's async
-    if (validate) {
-      // Store a flag to validate on first use
-      (this as unknown as { _needsValidation: boolean })._needsValidation = true;
+  /**
+   * Initialize the session, then wait for symbol validation. The first call
+   * starts it; concurrent calls await the same validation.
+   */
+  protected async initialize(): Promise<void> {
+    await super.initialize();
+    if (this.validateOnUse && !this.validation) {
+      this.validation = this.runValidation();
+    }
+    if (this.validation) {
+      await this.validation;
     }
   }
 
   /**
-   * Validate symbols and separate valid from invalid
+   * Validate symbols and separate valid from invalid: invalid symbols are
+   * removed from symbols and listed in invalidSymbols
    */
   async validate(): Promise<void> {
-    const { valid, invalid } = await this.validateSymbols();
-    this._symbols = valid;
-    this.invalidSymbols = invalid.length > 0 ? invalid : null;
+    const invalidSymbols = await this.findInvalidSymbols();
+    this._symbols = this._symbols.filter((symbol) => !invalidSymbols.includes(symbol));
+    this.invalidSymbols = invalidSymbols.length > 0 ? invalidSymbols : null;
+    this.symbolErrors = {};
+    // Nothing left for validateOnUse to check
+    this.validation = Promise.resolve();
+  }
+
+  /**
+   * Validation for TickerOptions.validate: invalid symbols stay in symbols
+   * and get an InvalidSymbolError with suggested corrections
+   */
+  private async runValidation(): Promise<void> {
+    this.symbolErrors = {};
+    const invalidSymbols = await this.findInvalidSymbols();
+
+    for (const symbol of invalidSymbols) {
+      const error: InvalidSymbolError = {
+        error: `Invalid symbol: ${symbol}`,
+        invalidSymbol: true,
+        suggestions: await this.suggestSymbols(symbol),
+      };
+      this.symbolErrors[symbol] = error;
+    }
+    this.invalidSymbols = invalidSymbols.length > 0 ? invalidSymbols : null;
+  }
+
+  /**
+   * Requested symbols that Yahoo Finance does not recognize
+   */
+  private async findInvalidSymbols(): Promise<string[]> {
+    await super.initialize();
+    const { invalid } = await this.validateSymbols();
+    // Validation failures are keyed by 'error', not by symbol
+    return invalid.filter((symbol) => this._symbols.includes(symbol));
+  }
+
+  /**
+   * Symbols Yahoo Finance search returns for a (mistyped) symbol
+   */
+  private async suggestSymbols(symbol: string): Promise<string[]> {
+    try {
+      const response = await this.session.get<SearchResult>(SEARCH_URL, {
+        params: { q: symbol, quotes_count: SUGGESTION_COUNT, news_count: 0, ...this.defaultQueryParams },
+      });
+      return (response.quotes ?? [])
+        .map((quote) => quote.symbol)
+        .filter((suggestion): suggestion is string => Boolean(suggestion) && suggestion !== symbol);
+    } catch {
+      return [];
+    }
   }
 
   // ============================================================
@@ -82,21 +469,28 @@ export class Ticker extends BaseFinance {
   /**
    * Get all available quote summary modules
    */
-  async getAllModules(): Promise<QuoteSummaryData> {
+  async getAllModules(): Promise<SymbolResult<QuoteSummaryResult>> {
     const options = CONFIG.quoteSummary.query.modules.options;
     const modules = Array.isArray(options) ? options : Object.keys(MODULES_DICT);
-    return this.quoteSummary(modules);
+    return this.quoteSummary(modules) as Promise<SymbolResult<QuoteSummaryResult>>;
   }
 
   /**
-   * Get specific quote summary modules
+   * Get specific quote summary modules.
+   * A single module is returned unwrapped; several are keyed by module name.
    */
-  async getModules(modules: string | string[]): Promise<QuoteSummaryData> {
+  async getModules<const M extends readonly QuoteSummaryModuleName[]>(
+    modules: M
+  ): Promise<SymbolResult<QuoteSummaryModulesResult<M>>>;
+  async getModules(
+    modules: string | string[]
+  ): Promise<SymbolResult<QuoteSummaryModules[QuoteSummaryModuleName] | QuoteSummaryResult>>;
+  async getModules(modules: string | readonly string[]): Promise<QuoteSummaryData> {
     const options = CONFIG.quoteSummary.query.modules.options;
     const allModules = Array.isArray(options) ? options : Object.keys(MODULES_DICT);
-    const moduleList = Array.isArray(modules)
-      ? modules
-      : modules.match(/[a-zA-Z]+/g) || [];
+    const moduleList = typeof modules === 'string'
+      ? modules.match(/[a-zA-Z]+/g) || []
+      : [...modules];
 
     const invalid = moduleList.filter((m) => !allModules.includes(m));
     if (invalid.length > 0) {
@@ -108,126 +502,135 @@ export class Ticker extends BaseFinance {
     return this.quoteSummary(moduleList);
   }
 
+  /**
+   * Fetch a single quote summary module, typed by module name
+   */
+  private async quoteSummaryModule<K extends QuoteSummaryModuleName>(
+    module: K
+  ): Promise<SymbolResult<QuoteSummaryModules[K]>> {
+    return this.quoteSummary([module]) as Promise<SymbolResult<QuoteSummaryModules[K]>>;
+  }
+
   // Quote Summary Properties (as async methods in TypeScript)
 
   /** Asset Profile - Geographical and business summary data */
-  async getAssetProfile(): Promise<QuoteSummaryData> {
-    return this.quoteSummary(['assetProfile']);
+  async getAssetProfile(): Promise<SymbolResult<AssetProfile>> {
+    return this.quoteSummaryModule('assetProfile');
   }
 
   /** Calendar Events - Earnings and revenue expectations */
-  async getCalendarEvents(): Promise<QuoteSummaryData> {
-    return this.quoteSummary(['calendarEvents']);
+  async getCalendarEvents(): Promise<SymbolResult<CalendarEvents>> {
+    return this.quoteSummaryModule('calendarEvents');
   }
 
   /** Earnings - Historical earnings data */
-  async getEarnings(): Promise<QuoteSummaryData> {
-    return this.quoteSummary(['earnings']);
+  async getEarnings(): Promise<SymbolResult<Earnings>> {
+    return this.quoteSummaryModule('earnings');
   }
 
   /** Earnings Trend - Historical trend data for earnings/revenue estimations */
-  async getEarningsTrend(): Promise<QuoteSummaryData> {
-    return this.quoteSummary(['earningsTrend']);
+  async getEarningsTrend(): Promise<SymbolResult<QuoteSummaryModule>> {
+    return this.quoteSummaryModule('earningsTrend');
   }
 
   /** ESG Scores - Environmental, social, and governance metrics */
-  async getEsgScores(): Promise<QuoteSummaryData> {
-    return this.quoteSummary(['esgScores']);
+  async getEsgScores(): Promise<SymbolResult<EsgScores>> {
+    return this.quoteSummaryModule('esgScores');
   }
 
   /** Financial Data Summary - Financial KPIs from quote summary */
-  async getFinancialDataSummary(): Promise<QuoteSummaryData> {
-    return this.quoteSummary(['financialData']);
+  async getFinancialDataSummary(): Promise<SymbolResult<FinancialData>> {
+    return this.quoteSummaryModule('financialData');
   }
 
   /** Index Trend - Index-related PE and PEG ratios */
-  async getIndexTrend(): Promise<QuoteSummaryData> {
-    return this.quoteSummary(['indexTrend']);
+  async getIndexTrend(): Promise<SymbolResult<QuoteSummaryModule>> {
+    return this.quoteSummaryModule('indexTrend');
   }
 
   /** Industry Trend (deprecated) */
-  async getIndustryTrend(): Promise<QuoteSummaryData> {
-    return this.quoteSummary(['industryTrend']);
+  async getIndustryTrend(): Promise<SymbolResult<QuoteSummaryModule>> {
+    return this.quoteSummaryModule('industryTrend');
   }
 
   /** Key Statistics - PE, enterprise value, EPS, EBITA, etc. */
-  async getKeyStats(): Promise<QuoteSummaryData> {
-    return this.quoteSummary(['defaultKeyStatistics']);
+  async getKeyStats(): Promise<SymbolResult<DefaultKeyStatistics>> {
+    return this.quoteSummaryModule('defaultKeyStatistics');
   }
 
   /** Major Holders - Breakdown of owners (insiders, institutions) */
-  async getMajorHolders(): Promise<QuoteSummaryData> {
-    return this.quoteSummary(['majorHoldersBreakdown']);
+  async getMajorHolders(): Promise<SymbolResult<QuoteSummaryModule>> {
+    return this.quoteSummaryModule('majorHoldersBreakdown');
   }
 
   /** Page Views - Trend data for symbol page views */
-  async getPageViews(): Promise<QuoteSummaryData> {
-    return this.quoteSummary(['pageViews']);
+  async getPageViews(): Promise<SymbolResult<QuoteSummaryModule>> {
+    return this.quoteSummaryModule('pageViews');
   }
 
   /** Price - Detailed pricing data, exchange, market cap, etc. */
-  async getPrice(): Promise<QuoteSummaryData> {
-    return this.quoteSummary(['price']);
+  async getPrice(): Promise<SymbolResult<Price>> {
+    return this.quoteSummaryModule('price');
   }
 
   /** Quote Type - Stock exchange specific data */
-  async getQuoteType(): Promise<QuoteSummaryData> {
-    return this.quoteSummary(['quoteType']);
+  async getQuoteType(): Promise<SymbolResult<QuoteSummaryModule>> {
+    return this.quoteSummaryModule('quoteType');
   }
 
   /** Share Purchase Activity - Buy/sell data for insiders */
-  async getSharePurchaseActivity(): Promise<QuoteSummaryData> {
-    return this.quoteSummary(['netSharePurchaseActivity']);
+  async getSharePurchaseActivity(): Promise<SymbolResult<QuoteSummaryModule>> {
+    return this.quoteSummaryModule('netSharePurchaseActivity');
   }
 
   /** Summary Detail - Similar to price endpoint */
-  async getSummaryDetail(): Promise<QuoteSummaryData> {
-    return this.quoteSummary(['summaryDetail']);
+  async getSummaryDetail(): Promise<SymbolResult<SummaryDetail>> {
+    return this.quoteSummaryModule('summaryDetail');
   }
 
   /** Summary Profile - Location and business summary */
-  async getSummaryProfile(): Promise<QuoteSummaryData> {
-    return this.quoteSummary(['summaryProfile']);
+  async getSummaryProfile(): Promise<SymbolResult<QuoteSummaryModule>> {
+    return this.quoteSummaryModule('summaryProfile');
   }
 
   /** Recommendation Trend - Historical recommendations (buy, hold, sell) */
-  async getRecommendationTrend(): Promise<QuoteSummaryData> {
-    return this.quoteSummary(['recommendationTrend']);
+  async getRecommendationTrend(): Promise<SymbolResult<QuoteSummaryModule>> {
+    return this.quoteSummaryModule('recommendationTrend');
   }
 
   /** Upgrade/Downgrade History */
-  async getGradingHistory(): Promise<QuoteSummaryData> {
-    return this.quoteSummary(['upgradeDowngradeHistory']);
+  async getGradingHistory(): Promise<SymbolResult<QuoteSummaryModule>> {
+    return this.quoteSummaryModule('upgradeDowngradeHistory');
   }
 
   /** Earnings History */
-  async getEarningHistory(): Promise<QuoteSummaryData> {
-    return this.quoteSummary(['earningsHistory']);
+  async getEarningHistory(): Promise<SymbolResult<QuoteSummaryModule>> {
+    return this.quoteSummaryModule('earningsHistory');
   }
 
   /** Fund Ownership - Top 10 owners */
-  async getFundOwnership(): Promise<QuoteSummaryData> {
-    return this.quoteSummary(['fundOwnership']);
+  async getFundOwnership(): Promise<SymbolResult<QuoteSummaryModule>> {
+    return this.quoteSummaryModule('fundOwnership');
   }
 
   /** Insider Holders - Stock holdings of insiders */
-  async getInsiderHolders(): Promise<QuoteSummaryData> {
-    return this.quoteSummary(['insiderHolders']);
+  async getInsiderHolders(): Promise<SymbolResult<QuoteSummaryModule>> {
+    return this.quoteSummaryModule('insiderHolders');
   }
 
   /** Insider Transactions */
-  async getInsiderTransactions(): Promise<QuoteSummaryData> {
-    return this.quoteSummary(['insiderTransactions']);
+  async getInsiderTransactions(): Promise<SymbolResult<QuoteSummaryModule>> {
+    return this.quoteSummaryModule('insiderTransactions');
   }
 
   /** Institution Ownership - Top 10 institutional owners */
-  async getInstitutionOwnership(): Promise<QuoteSummaryData> {
-    return this.quoteSummary(['institutionOwnership']);
+  async getInstitutionOwnership(): Promise<SymbolResult<QuoteSummaryModule>> {
+    return this.quoteSummaryModule('institutionOwnership');
   }
 
   /** SEC Filings - Historical SEC filings */
-  async getSecFilings(): Promise<QuoteSummaryData> {
-    return this.quoteSummary(['secFilings']);
+  async getSecFilings(): Promise<SymbolResult<QuoteSummaryModule>> {
+    return this.quoteSummaryModule('secFilings');
   }
 
   // ============================================================
@@ -237,54 +640,265 @@ export class Ticker extends BaseFinance {
   /**
    * Get quotes for multiple symbols
    */
-  async getQuotes(): Promise<QuoteSummaryData> {
+  async getQuotes(): Promise<SymbolResult<Quote>> {
     await this.initialize();
-    const data = await this.getData<unknown[]>('quotes', undefined, { listResult: true });
+    const data = await this.getData<Quote>('quotes', undefined, { listResult: true });
 
     try {
       // Transform array to object keyed by symbol
-      const result: QuoteSummaryData = {};
+      const result: SymbolResult<Quote> = {};
       if (Array.isArray(data)) {
         for (const item of data) {
           if (typeof item === 'object' && item !== null && 'symbol' in item) {
-            const { symbol, ...rest } = item as { symbol: string; [key: string]: unknown };
+            const { symbol, ...rest } = item as Quote & { symbol: string };
             result[symbol] = rest;
           }
         }
-        return result;
+        return this.addSymbolErrors(result);
       }
-      return data as QuoteSummaryData;
+      return data;
     } catch {
-      return data as QuoteSummaryData;
+      return data;
     }
   }
 
   /**
    * Get recommendations for similar symbols
    */
-  async getRecommendations(): Promise<QuoteSummaryData> {
+  async getRecommendations(): Promise<SymbolResult<SymbolRecommendations>> {
     await this.initialize();
-    return this.getData<QuoteSummaryData>('recommendations');
+    return this.getData<SymbolRecommendations>('recommendations');
   }
 
   /**
    * Get technical insights
    */
-  async getTechnicalInsights(): Promise<QuoteSummaryData> {
+  async getTechnicalInsights(): Promise<SymbolResult<Insights>> {
+    await this.initialize();
+    return this.getData<Insights>('insights');
+  }
+
+  /**
+   * Get Premium insights: technical outlooks, valuation, research reports and
+   * significant developments
+   */
+  async getPremiumInsights(reportsCount?: number): Promise<SymbolResult<Insights>> {
     await this.initialize();
-    return this.getData<QuoteSummaryData>('insights');
+    return this.getData<Insights>('premium_insights', reportsCount ? { reportsCount } : undefined);
+  }
+
+  /**
+   * Get Premium technical events (chart patterns and indicator signals),
+   * optionally limited to short, intermediate or long trading horizons
+   */
+  async getTechnicalEvents(params: TechnicalEventsParams = {}): Promise<SymbolResult<TechnicalEventRow[]>> {
+    const horizons: string[] = params.horizons === undefined
+      ? Object.keys(TRADING_HORIZONS)
+      : Array.isArray(params.horizons) ? params.horizons : [params.horizons];
+    const valid = Object.keys(TRADING_HORIZONS);
+
+    const invalid = horizons.filter((horizon) => !valid.includes(horizon));
+    if (invalid.length > 0) {
+      throw new Error(`Invalid trading horizons: ${invalid.join(', ')}. Valid horizons: ${valid.join(', ')}`);
+    }
+
+    await this.initialize();
+    const query: QueryParams = {
+      tradingHorizons: horizons.map((horizon) => TRADING_HORIZONS[horizon as TradingHorizon]).join(','),
+    };
+    if (params.size) {
+      query.size = params.size;
+    }
+
+    const data = await this.getData<TechnicalEventsResponse>('technical_events', query);
+    const result: SymbolResult<TechnicalEventRow[]> = {};
+
+    for (const symbol of this._symbols) {
+      const response = data[symbol];
+      result[symbol] = !response || isSymbolError(response)
+        ? response ?? 'No data found'
+        : (response.events ?? [])
+          .map(technicalEventRow)
+          .filter((event) => event.horizon === null || horizons.includes(event.horizon))
+          .slice(0, params.size);
+    }
+
+    return result;
+  }
+
+  /**
+   * Get monthly ESG risk scores over time, for the symbol and its peer group
+   */
+  async getEsgChart(): Promise<SymbolResult<EsgChart>> {
+    await this.initialize();
+    const data = await this.getData<EsgChartResponse>('esg_chart');
+    const result: SymbolResult<EsgChart> = {};
+
+    for (const symbol of this._symbols) {
+      const chart = data[symbol];
+      result[symbol] = !chart || isSymbolError(chart)
+        ? chart ?? 'No data found'
+        : {
+          symbol: chart.symbol ?? symbol,
+          peerGroup: chart.peerGroup ?? null,
+          series: esgSeriesRows(chart.symbolSeries),
+          peerSeries: esgSeriesRows(chart.peerSeries),
+        };
+    }
+
+    return result;
+  }
+
+  /**
+   * Get ESG scores of the symbol's peers for comparison
+   */
+  async getEsgPeerScores(): Promise<SymbolResult<EsgPeerScores>> {
+    await this.initialize();
+    const data = await this.getData<EsgPeerScores>('esg_peer_scores');
+    const result: SymbolResult<EsgPeerScores> = {};
+
+    for (const symbol of this._symbols) {
+      const scores = data[symbol];
+      result[symbol] = !scores || isSymbolError(scores)
+        ? scores ?? 'No data found'
+        : formatEsgDates(this.formatData(scores, [])) as EsgPeerScores;
+    }
+
+    return result;
+  }
+
+  /**
+   * Get Premium Company360 sections (default: all), keyed by section name
+   */
+  async getCompany360(modules: Company360Module | Company360Module[] | string | string[] = [...COMPANY_360_MODULES]): Promise<SymbolResult<Company360>> {
+    const moduleList = typeof modules === 'string'
+      ? modules.match(/[a-zA-Z]+/g) || []
+      : [...modules];
+    const valid: readonly string[] = COMPANY_360_MODULES;
+
+    const invalid = moduleList.filter((m) => !valid.includes(m));
+    if (invalid.length > 0) {
+      throw new Error(
+        `Invalid modules: ${invalid.join(', ')}. Valid modules: ${COMPANY_360_MODULES.join(', ')}`
+      );
+    }
+
+    await this.initialize();
+    const data = await this.getData<Record<string, unknown>>('company360', { modules: moduleList.join(',') });
+    const result: SymbolResult<Company360> = {};
+
+    for (const symbol of this._symbols) {
+      const sections = data[symbol];
+      if (!sections || isSymbolError(sections)) {
+        result[symbol] = sections ?? 'No data found';
+        continue;
+      }
+
+      const company: Record<string, unknown> = {};
+      for (const module of moduleList) {
+        const section = sections[module];
+        if (section !== undefined) {
+          company[module] = typeof section === 'object' && section !== null && !Array.isArray(section)
+            ? this.formatData(section as Record<string, unknown>, [])
+            : section;
+        }
+      }
+      result[symbol] = company as Company360;
+    }
+
+    return result;
+  }
+
+  /**
+   * Get fair value estimates with an undervalued/fair/overvalued classification
+   */
+  async getFairValue(): Promise<SymbolResult<FairValue>> {
+    const analysis = await this.valueAnalyzer('yfp_fair_value');
+    const result: SymbolResult<FairValue> = {};
+
+    for (const [symbol, value] of Object.entries(analysis)) {
+      if (isSymbolError(value)) {
+        result[symbol] = value;
+      } else {
+        const { band: _band, ...fairValue } = value;
+        result[symbol] = fairValue;
+      }
+    }
+
+    return result;
+  }
+
+  /**
+   * Get Premium Value Analyzer valuations, including the fair-value band
+   */
+  async getValueAnalyzer(): Promise<SymbolResult<ValueAnalysis>> {
+    return this.valueAnalyzer('value_analyzer');
+  }
+
+  /**
+   * Get the Premium Value Analyzer history: the fair-value band and price by date
+   */
+  async getValueAnalyzerDrilldown(
+    start?: string | Date,
+    end?: string | Date
+  ): Promise<SymbolResult<ValueAnalyzerDrilldown>> {
+    await this.initialize();
+    const params: QueryParams = {};
+    if (start) {
+      params.start = convertToTimestamp(start);
+    }
+    if (end) {
+      params.end = convertToTimestamp(end, false);
+    }
+
+    const data = await this.getData<ValueAnalyzerDrilldownResponse>('value_analyzer_drilldown', params);
+    const result: SymbolResult<ValueAnalyzerDrilldown> = {};
+
+    for (const symbol of this._symbols) {
+      const drilldown = data[symbol];
+      result[symbol] = !drilldown || isSymbolError(drilldown)
+        ? drilldown ?? 'No data found'
+        : {
+          ...normalizeValueAnalysis(symbol, drilldown),
+          series: valuationBandRows(drilldown.series),
+        };
+    }
+
+    return result;
+  }
+
+  /**
+   * Fetch a multi-symbol Value Analyzer endpoint and normalize each quote
+   */
+  private async valueAnalyzer(key: string): Promise<SymbolResult<ValueAnalysis>> {
+    await this.initialize();
+    const data = await this.getData<ValueAnalyzerQuote[]>(key, undefined, { listResult: true });
+    const quotes = Array.isArray(data) ? (data as ValueAnalyzerQuote[]) : [];
+    const error = (data as Record<string, unknown>).error;
+    const result: SymbolResult<ValueAnalysis> = {};
+
+    for (const symbol of this._symbols) {
+      const quote = quotes.find((item) => item.symbol?.toUpperCase() === symbol.toUpperCase());
+      if (quote) {
+        result[symbol] = normalizeValueAnalysis(symbol, quote);
+      } else {
+        result[symbol] = this.symbolErrors[symbol] ?? (typeof error === 'string' ? error : 'No data found');
+      }
+    }
+
+    return result;
   }
 
   /**
    * Get news articles related to symbols
    */
-  async getNews(count = 25, start?: string | Date): Promise<unknown[]> {
+  async getNews(count = 25, start?: string | Date): Promise<NewsItem[]> {
     await this.initialize();
     const params: Record<string, unknown> = { count };
     if (start) {
       params.start = convertToTimestamp(start);
     }
-    const data = await this.getData<unknown[]>('news', params as Record<string, string | number | boolean>, { listResult: true });
+    const data = await this.getData<NewsItem[]>('news', params as Record<string, string | number | boolean>, { listResult: true });
     return Array.isArray(data) ? data : [];
   }
 
@@ -305,6 +919,7 @@ export class Ticker extends BaseFinance {
       end,
       adjTimezone = true,
       adjOhlc = false,
+      prepost = false,
     } = params;
 
     const config = CONFIG.chart;
@@ -325,44 +940,131 @@ export class Ticker extends BaseFinance {
       queryParams = { range: period.toLowerCase(), interval: interval.toLowerCase() };
     }
 
-    // Handle 1m interval for 1mo period specially
-    if (queryParams.interval === '1m' && period === '1mo') {
-      return this.getHistory1m(adjTimezone, adjOhlc);
+    if (prepost) {
+      queryParams.includePrePost = true;
+    }
+
+    // Intraday intervals are limited in span and lookback; split the request if needed
+    const windows = this.planHistoryWindows(queryParams);
+    if (windows) {
+      return this.getHistoryWindows(windows, queryParams, adjTimezone, adjOhlc);
     }
 
-    const data = await this.getData<HistoryData>('chart', queryParams);
+    const data = await this.getData<ChartResult>('chart', queryParams);
     return this.processHistoricalData(data, queryParams, adjTimezone, adjOhlc);
   }
 
   /**
-   * Get 1-minute historical data (requires multiple requests)
+   * Plan the chart requests needed to cover an intraday range.
+   * Returns null when a single request already satisfies Yahoo's limits.
+   * A start beyond the interval's lookback is moved up to it with a warning.
    */
-  private async getHistory1m(adjTimezone: boolean, adjOhlc: boolean): Promise<HistoryData> {
-    const today = new Date();
+  private planHistoryWindows(
+    queryParams: Record<string, string | number | boolean>
+  ): TimeWindow[] | null {
+    const interval = String(queryParams.interval);
+    const limits = INTERVAL_LIMITS[interval];
+    if (!limits) {
+      return null;
+    }
+
+    const now = Math.floor(Date.now() / 1000);
+    const earliest = now - limits.maxLookback * DAY_SECONDS;
+    const period2 = Math.min(Number(queryParams.period2 ?? now), now);
+    let period1 = queryParams.range !== undefined
+      ? periodToTimestamp(String(queryParams.range)) ?? earliest
+      : Number(queryParams.period1);
+
+    if (period2 <= earliest) {
+      throw new Error(
+        `${interval} data is only available for the last ${limits.maxLookback} days`
+      );
+    }
+
+    const clamped = period1 < earliest;
+    if (clamped) {
+      // A relative period means "as far back as available"; an explicit start is shortened with a warning
+      if (queryParams.range === undefined) {
+        console.warn(
+          `${interval} data is only available for the last ${limits.maxLookback} days; ` +
+          `history starts at ${new Date(earliest * 1000).toISOString()} instead of ${new Date(period1 * 1000).toISOString()}`
+        );
+      }
+      period1 = earliest;
+    }
+
+    if (!clamped && period2 - period1 <= limits.maxSpan * DAY_SECONDS) {
+      return null;
+    }
+
+    return splitTimeWindows(period1, period2, limits.maxSpan * DAY_SECONDS);
+  }
+
+  /**
+   * Fetch history for each window with bounded concurrency and merge the results.
+   * A symbol whose windows all fail gets the first error; if only some fail,
+   * the series would have gaps, so this throws with the failed ranges instead.
+   */
+  private async getHistoryWindows(
+    windows: TimeWindow[],
+    baseParams: Record<string, string | number | boolean>,
+    adjTimezone: boolean,
+    adjOhlc: boolean
+  ): Promise<HistoryData> {
+    const chunks = await mapConcurrent(windows, HISTORY_CONCURRENCY, async (window) => {
+      const queryParams: Record<string, string | number | boolean> = {
+        ...baseParams,
+        period1: window.start,
+        period2: window.end,
+      };
+      delete queryParams.range;
+      const data = await this.getData<ChartResult>('chart', queryParams);
+      // Adjusted after merging, so events in one window adjust the bars of earlier ones
+      return this.processHistoricalData(data, queryParams, adjTimezone, false);
+    });
+
     const results: HistoryData = {};
 
-    // Get data for past 4 weeks in 7-day chunks
-    for (let i = 0; i < 4; i++) {
-      const endDate = new Date(today);
-      endDate.setDate(endDate.getDate() - 7 * i);
-      const startDate = new Date(endDate);
-      startDate.setDate(startDate.getDate() - 7);
-
-      const period1 = Math.floor(startDate.getTime() / 1000);
-      const period2 = Math.floor(endDate.getTime() / 1000);
-
-      const queryParams = { period1, period2, interval: '1m' };
-      const data = await this.getData<HistoryData>('chart', queryParams);
-      const processed = this.processHistoricalData(data, queryParams, adjTimezone, adjOhlc);
-
-      // Merge results
-      for (const [symbol, symbolData] of Object.entries(processed)) {
-        if (!results[symbol]) {
-          results[symbol] = symbolData;
-        } else if (Array.isArray(symbolData) && Array.isArray(results[symbol])) {
-          (results[symbol] as unknown[]).push(...symbolData);
-        }
+    for (const symbol of this._symbols) {
+      const parts = chunks.map((chunk) => chunk[symbol]);
+      const rowLists = parts.filter((part): part is HistoryRow[] => Array.isArray(part));
+
+      if (rowLists.length === 0) {
+        // Every window failed; surface the first error
+        results[symbol] = parts.find((part) => part !== undefined) ?? 'No data found';
+        continue;
+      }
+
+      const failed = windows
+        .map((window, i) => ({ window, part: parts[i] }))
+        .filter(({ part }) => !Array.isArray(part));
+      if (failed.length > 0) {
+        const ranges = failed.map(({ window, part }) => {
+          let reason = 'No data found';
+          if (isSymbolError(part)) {
+            reason = typeof part === 'string' ? part : part.error;
+          }
+          const from = new Date(window.start * 1000).toISOString();
+          const to = new Date(window.end * 1000).toISOString();
+          return `${from} to ${to} (${reason})`;
+        });
+        throw new Error(`Incomplete history for ${symbol}; failed windows: ${ranges.join(', ')}`);
       }
+
+      // Windows share their boundary timestamps, so sort and drop duplicates
+      const seen = new Set<number>();
+      const rows = rowLists
+        .flat()
+        .sort((a, b) => rowTime(a) - rowTime(b))
+        .filter((row) => {
+          const time = rowTime(row);
+          if (seen.has(time)) {
+            return false;
+          }
+          seen.add(time);
+          return true;
+        });
+      results[symbol] = adjOhlc ? adjustOhlc(rows) : rows;
     }
 
     return results;
@@ -372,7 +1074,7 @@ export class Ticker extends BaseFinance {
    * Process raw historical data into structured format
    */
   private processHistoricalData(
-    data: HistoryData,
+    data: ChartData,
     params: Record<string, string | number | boolean>,
     adjTimezone: boolean,
     adjOhlc: boolean
@@ -381,104 +1083,152 @@ export class Ticker extends BaseFinance {
     const isDaily = !String(params.interval).endsWith('m') && !String(params.interval).endsWith('h');
 
     for (const symbol of this._symbols) {
-      const symbolData = data[symbol] as Record<string, unknown>;
+      const symbolData = data[symbol];
 
-      if (!symbolData || typeof symbolData !== 'object') {
-        result[symbol] = symbolData;
+      if (!symbolData || isSymbolError(symbolData)) {
+        result[symbol] = symbolData ?? 'No data found';
         continue;
       }
 
-      if ('timestamp' in symbolData && Array.isArray(symbolData.timestamp)) {
-        const timestamps = symbolData.timestamp as number[];
-        const indicators = symbolData.indicators as {
-          quote: Array<Record<string, number[]>>;
-          adjclose?: Array<{ adjclose: number[] }>;
-        };
-        const events = symbolData.events as Record<string, Record<string, unknown>> | undefined;
-        const meta = symbolData.meta as Record<string, unknown>;
+      if (Array.isArray(symbolData.timestamp)) {
+        const timestamps = symbolData.timestamp;
+        const { indicators, events, meta } = symbolData;
+        if (meta) {
+          this.historyMeta[symbol] = meta;
+        }
 
         const quote = indicators?.quote?.[0] || {};
         const adjclose = indicators?.adjclose?.[0]?.adjclose;
 
+        // Dates are expressed in the exchange's time zone unless disabled
+        const timezone = adjTimezone && typeof meta?.exchangeTimezoneName === 'string'
+          ? meta.exchangeTimezoneName
+          : undefined;
+
+        // Events are attached to the bar they take effect on
+        const dividends = alignEvents(timestamps, events?.dividends, isDaily);
+        const splits = alignEvents(timestamps, events?.splits, isDaily);
+
+        // Intraday bars are tagged with the trading session they fall in
+        const sessionOf = isDaily ? null : this.createSessionClassifier(meta);
+
         // Build OHLCV data
-        const rows: Array<Record<string, unknown>> = [];
+        const rows: HistoryRow[] = [];
 
         for (let i = 0; i < timestamps.length; i++) {
           const timestamp = timestamps[i];
           let date: Date | string;
+          let localDate: string | undefined;
 
           if (isDaily) {
-            // Convert to date string for daily data
-            const d = new Date(timestamp * 1000);
-            if (adjTimezone && meta?.exchangeTimezoneName) {
-              // Adjust for timezone
-              date = d.toISOString().split('T')[0];
-            } else {
-              date = d.toISOString().split('T')[0];
-            }
+            // Daily bars are labelled with the exchange's trading date, so a
+            // Tokyo session opening at 00:00 UTC doesn't land on the prior day
+            date = timezone ? formatDateInZone(timestamp, timezone) : formatDate(timestamp);
           } else {
-            // Keep as datetime for intraday
+            // Intraday bars keep the UTC instant plus the exchange wall-clock time
             date = new Date(timestamp * 1000);
-            if (adjTimezone && meta?.exchangeTimezoneName) {
-              // Could convert to local timezone here
+            if (timezone) {
+              localDate = formatDateTimeInZone(timestamp, timezone);
             }
           }
 
-          const row: Record<string, unknown> = {
+          const row: HistoryRow = {
             date,
-            open: quote.open?.[i],
-            high: quote.high?.[i],
-            low: quote.low?.[i],
-            close: quote.close?.[i],
-            volume: quote.volume?.[i],
+            ...(localDate && { localDate }),
+            open: quote.open?.[i] ?? null,
+            high: quote.high?.[i] ?? null,
+            low: quote.low?.[i] ?? null,
+            close: quote.close?.[i] ?? null,
+            volume: quote.volume?.[i] ?? null,
           };
 
+          if (sessionOf) {
+            const session = sessionOf(timestamp);
+            if (session) {
+              row.session = session;
+            }
+          }
+
           if (adjclose) {
             row.adjclose = adjclose[i];
           }
 
           // Add dividend/split data if present
           if (events?.dividends) {
-            const dividend = Object.values(events.dividends).find(
-              (d: unknown) => (d as { date: number }).date === timestamp
-            ) as { amount: number } | undefined;
-            row.dividends = dividend?.amount ?? 0;
+            row.dividends = dividends.get(i)?.amount ?? 0;
           }
 
           if (events?.splits) {
-            const split = Object.values(events.splits).find(
-              (s: unknown) => (s as { date: number }).date === timestamp
-            ) as { numerator: number; denominator: number } | undefined;
+            const split = splits.get(i);
             row.splits = split ? split.numerator / split.denominator : 0;
           }
 
           rows.push(row);
         }
 
-        // Adjust OHLC if requested
-        if (adjOhlc && adjclose) {
-          for (const row of rows) {
-            if (row.close && row.adjclose) {
-              const adjust = (row.close as number) / (row.adjclose as number);
-              row.open = (row.open as number) / adjust;
-              row.high = (row.high as number) / adjust;
-              row.low = (row.low as number) / adjust;
-              row.close = row.adjclose;
-              delete row.adjclose;
-            }
-          }
-        }
-
-        result[symbol] = rows;
+        result[symbol] = adjOhlc ? adjustOhlc(rows) : rows;
       } else {
-        // Error or no data
-        result[symbol] = symbolData;
+        // No bars in the requested range
+        result[symbol] = [];
       }
     }
 
     return result;
   }
 
+  /**
+   * Build a function that tags a bar timestamp as pre, regular or post market.
+   * Regular hours come from the per-day tradingPeriods when present, otherwise
+   * from the time of day of currentTradingPeriod.regular in the exchange time zone.
+   */
+  private createSessionClassifier(
+    meta: HistoryMeta | undefined
+  ): ((timestamp: number) => TradingSession | undefined) | null {
+    const { currentTradingPeriod, tradingPeriods } = meta ?? {};
+    const timezone = meta?.exchangeTimezoneName ?? 'UTC';
+
+    // tradingPeriods is a list of regular sessions, or grouped by session with includePrePost
+    const regularPeriods = Array.isArray(tradingPeriods)
+      ? tradingPeriods.flat()
+      : (tradingPeriods?.regular ?? []).flat();
+
+    const regularByDay = new Map<string, TradingPeriod>();
+    for (const period of regularPeriods) {
+      if (typeof period?.start === 'number' && typeof period.end === 'number') {
+        regularByDay.set(formatDateInZone(period.start, timezone), period);
+      }
+    }
+
+    const current = currentTradingPeriod?.regular;
+    const template = typeof current?.start === 'number' && typeof current.end === 'number'
+      ? {
+        start: secondsSinceMidnightInZone(current.start, timezone),
+        end: secondsSinceMidnightInZone(current.end, timezone),
+      }
+      : null;
+
+    if (regularByDay.size === 0 && !template) {
+      return null;
+    }
+
+    return (timestamp: number): TradingSession | undefined => {
+      const regular = regularByDay.get(formatDateInZone(timestamp, timezone));
+
+      if (regular?.start !== undefined && regular.end !== undefined) {
+        if (timestamp < regular.start) return 'pre';
+        return timestamp < regular.end ? 'regular' : 'post';
+      }
+
+      if (template) {
+        const timeOfDay = secondsSinceMidnightInZone(timestamp, timezone);
+        if (timeOfDay < template.start) return 'pre';
+        return timeOfDay < template.end ? 'regular' : 'post';
+      }
+
+      return undefined;
+    };
+  }
+
   /**
    * Get dividend history
    */
@@ -488,10 +1238,7 @@ export class Ticker extends BaseFinance {
 
     for (const [symbol, data] of Object.entries(history)) {
       if (Array.isArray(data)) {
-        const dividends = data.filter(
-          (row) => typeof row === 'object' && row !== null && (row as Record<string, unknown>).dividends !== 0
-        );
-        result[symbol] = dividends;
+        result[symbol] = data.filter((row) => row.dividends !== 0);
       } else {
         result[symbol] = data;
       }
@@ -500,6 +1247,158 @@ export class Ticker extends BaseFinance {
     return result;
   }
 
+  /**
+   * Get expected bars that are absent from the history for each symbol.
+   * Daily intervals report missing trading dates; intraday intervals report the
+   * exchange-local start time of each missing regular-session bar.
+   */
+  async getMissingBars(params: HistoryParams = {}): Promise<SymbolResult<string[]>> {
+    // Bars are compared to the calendar in exchange time, whatever adjTimezone says
+    const history = await this.getHistory({ ...params, adjTimezone: true });
+    const interval = (params.interval ?? '1d').toLowerCase();
+    const result: SymbolResult<string[]> = {};
+
+    for (const [symbol, rows] of Object.entries(history)) {
+      const meta = this.historyMeta[symbol];
+      if (isSymbolError(rows)) {
+        result[symbol] = rows;
+        continue;
+      }
+      result[symbol] = meta ? findMissingBars(rows, resolveCalendar(meta), interval) : [];
+    }
+
+    return result;
+  }
+
+  /**
+   * Fetch history for other symbols (e.g. a benchmark) over the same session
+   */
+  private async getRelatedHistory(symbols: string | string[], params: HistoryParams): Promise<HistoryData> {
+    const related = new Ticker(symbols, { country: this._country, requestDelay: this.requestDelay });
+    related.session = this.session;
+    return related.getHistory(params);
+  }
+
+  // ============================================================
+  // RETURNS & RISK
+  // ============================================================
+
+  /**
+   * Get per-bar simple and log returns for each symbol
+   */
+  async getReturns(params: HistoryParams = {}): Promise<SymbolResult<ReturnRow[]>> {
+    return historyReturns(await this.getHistory(params));
+  }
+
+  /**
+   * Get return and risk metrics for each symbol: volatility, Sharpe and Sortino
+   * ratios, max drawdown, value-at-risk, and beta/alpha against a benchmark
+   */
+  async getRiskMetrics(params: RiskParams = {}): Promise<SymbolResult<RiskReport>> {
+    const {
+      benchmark = '^GSPC',
+      riskFreeRate,
+      window,
+      confidence,
+      varMethod,
+      ...historyParams
+    } = params;
+    const interval = historyParams.interval ?? '1d';
+    const options = { riskFreeRate, confidence, varMethod, periodsPerYear: periodsPerYear(interval) };
+
+    const history = await this.getHistory(historyParams);
+    const benchmarkData = benchmark in history
+      ? history[benchmark]
+      : (await this.getRelatedHistory(benchmark, historyParams))[benchmark];
+    const benchmarkRows = Array.isArray(benchmarkData) ? benchmarkData : null;
+
+    const result: SymbolResult<RiskReport> = {};
+    for (const [symbol, rows] of Object.entries(history)) {
+      if (isSymbolError(rows)) {
+        result[symbol] = rows;
+        continue;
+      }
+      result[symbol] = {
+        benchmark: benchmarkRows ? benchmark : null,
+        ...computeRiskMetrics(rows, benchmarkRows, options),
+        ...(window !== undefined && { rolling: rollingRiskMetrics(rows, window, benchmarkRows, options) }),
+      };
+    }
+
+    return result;
+  }
+
+  /**
+   * Get a price panel: every symbol's history aligned on a shared date index,
+   * with one column per symbol
+   */
+  async getPricePanel(params: PanelParams = {}): Promise<PricePanel> {
+    const { field, gaps, ...historyParams } = params;
+    return buildPanel(await this.getHistory(historyParams), { field, gaps });
+  }
+
+  /**
+   * Get correlation and covariance matrices across the symbols, optionally
+   * with a rolling correlation
+   */
+  async getCorrelation(params: CorrelationParams = {}): Promise<CorrelationReport> {
+    const { returns, window, ...panelParams } = params;
+    const panel = await this.getPricePanel(panelParams);
+
+    return {
+      symbols: panel.symbols,
+      startDate: panel.rows[0]?.date ?? null,
+      endDate: panel.rows[panel.rows.length - 1]?.date ?? null,
+      correlation: correlationMatrix(panel, { returns }).matrix,
+      covariance: covarianceMatrix(panel, { returns }).matrix,
+      ...(window !== undefined && { rolling: rollingCorrelation(panel, window, { returns }) }),
+      errors: panel.errors,
+    };
+  }
+
+  // ============================================================
+  // MARKET STATUS
+  // ============================================================
+
+  /**
+   * Get the trading status of each symbol's exchange: whether it is open,
+   * the current session, next open/close and the time of the last trade
+   */
+  async getMarketStatus(): Promise<SymbolResult<MarketStatus>> {
+    await this.initialize();
+
+    const data = await this.getData<ChartResult>('chart', { range: '1d', interval: '1d' });
+    const result: SymbolResult<MarketStatus> = {};
+
+    for (const symbol of this._symbols) {
+      const symbolData = data[symbol];
+
+      if (!symbolData || isSymbolError(symbolData) || !symbolData.meta) {
+        result[symbol] = isSymbolError(symbolData) ? symbolData : 'No data found';
+        continue;
+      }
+
+      const { meta } = symbolData;
+
+      const clock = getMarketClock(resolveCalendar(meta), new Date(), meta);
+      const timezone = meta.exchangeTimezoneName ?? clock.timezone;
+
+      result[symbol] = {
+        symbol,
+        exchangeName: meta.exchangeName ?? null,
+        ...clock,
+        regularMarketPrice: meta.regularMarketPrice ?? null,
+        lastTradeTime: meta.regularMarketTime
+          ? formatDateTimeInZone(meta.regularMarketTime, timezone)
+          : null,
+        // Prices only move in the regular session; otherwise the quote is the last close
+        isLive: clock.isOpen,
+      };
+    }
+
+    return result;
+  }
+
   // ============================================================
   // FINANCIALS METHODS
   // ============================================================
@@ -514,8 +1413,6 @@ export class Ticker extends BaseFinance {
     types?: string[],
     trailing = true
   ): Promise<FinancialsData> {
-    await this.initialize();
-
     let prefix = '';
     let periodType = '';
 
@@ -528,7 +1425,15 @@ export class Ticker extends BaseFinance {
       }
     }
 
-    const key = premium ? 'fundamentals_premium' : 'fundamentals';
+    await this.initialize();
+    let key = 'fundamentals';
+    if (premium) {
+      if (this.session.hasPremium()) {
+        key = 'fundamentals_premium';
+      } else {
+        console.warn('Premium financials requested without a Yahoo Finance Premium login; using standard fundamentals');
+      }
+    }
     const configOptions = CONFIG[key]?.query?.type?.options;
     let configTypes: string[] = types || [];
 
@@ -548,54 +1453,110 @@ export class Ticker extends BaseFinance {
       prefixedTypes = configTypes;
     }
 
-    const params = { type: prefixedTypes.join(',') };
-    const data = await this.getData<FinancialsData>(key, params, { listResult: true });
+    const data = await this.timeseries(key, prefixedTypes);
+
+    return this.processFinancialsData(data, prefix, periodType, trailing);
+  }
 
-    return this.processFinancialsData(data, prefix, periodType, trailing, financialsType);
+  /**
+   * Fetch raw fundamentals timeseries for the given (prefixed) types
+   */
+  private async timeseries(key: string, types: string[]): Promise<TimeSeriesData> {
+    await this.initialize();
+    return this.getData<TimeSeries[]>(key, { type: types.join(',') }, { listResult: true });
   }
 
   /**
-   * Process raw financials data
+   * Pivot raw timeseries into statements: one row per period (asOfDate and
+   * periodType), one column per line item with the frequency prefix stripped
    */
   private processFinancialsData(
-    data: FinancialsData,
+    data: TimeSeriesData,
     prefix: string,
     periodType: string,
-    trailing: boolean,
-    financialsType: string
+    trailing: boolean
   ): FinancialsData {
-    // For now, return the raw data
-    // Full pandas-like processing would require a DataFrame library
-    // This can be enhanced with danfojs or similar
-    return data;
+    const result: FinancialsData = {};
+
+    for (const [symbol, series] of Object.entries(data)) {
+      if (!Array.isArray(series)) {
+        result[symbol] = isSymbolError(series) ? series : 'No data found';
+        continue;
+      }
+
+      const periods = new Map<string, FinancialStatementRow>();
+
+      for (const item of series) {
+        const type = item.meta?.type?.[0];
+        const points = type ? item[type] : undefined;
+        if (!type || !Array.isArray(points)) {
+          continue;
+        }
+
+        let lineItem = type;
+        if (prefix && type.startsWith(prefix)) {
+          lineItem = type.slice(prefix.length);
+        } else if (type.startsWith('trailing')) {
+          lineItem = type.slice('trailing'.length);
+        }
+
+        for (const point of points as Array<TimeSeriesDataPoint | null>) {
+          if (!point?.asOfDate) {
+            continue;
+          }
+          const pointPeriod = point.periodType ?? periodType;
+          if (!trailing && pointPeriod === 'TTM') {
+            continue;
+          }
+
+          const periodKey = `${point.asOfDate}|${pointPeriod}`;
+          let row = periods.get(periodKey);
+          if (!row) {
+            row = { asOfDate: point.asOfDate, periodType: pointPeriod, currencyCode: null };
+            periods.set(periodKey, row);
+          }
+          row.currencyCode = row.currencyCode ?? point.currencyCode ?? null;
+          row[lineItem] = typeof point.reportedValue === 'object'
+            ? point.reportedValue.raw ?? null
+            : point.reportedValue ?? null;
+        }
+      }
+
+      result[symbol] = [...periods.values()].sort((a, b) =>
+        a.asOfDate.localeCompare(b.asOfDate) || a.periodType.localeCompare(b.periodType)
+      );
+    }
+
+    return result;
   }
 
   /**
-   * Get income statement
+   * Get income statement. With premium, uses the Premium endpoint (longer
+   * history) when the session is logged in to Yahoo Finance Premium.
    */
-  async getIncomeStatement(frequency = 'a', trailing = true): Promise<FinancialsData> {
-    return this.financials('income_statement', frequency, false, undefined, trailing);
+  async getIncomeStatement(frequency = 'a', trailing = true, premium = false): Promise<FinancialsData> {
+    return this.financials('income_statement', frequency, premium, undefined, trailing);
   }
 
   /**
    * Get balance sheet
    */
-  async getBalanceSheet(frequency = 'a'): Promise<FinancialsData> {
-    return this.financials('balance_sheet', frequency);
+  async getBalanceSheet(frequency = 'a', premium = false): Promise<FinancialsData> {
+    return this.financials('balance_sheet', frequency, premium);
   }
 
   /**
    * Get cash flow statement
    */
-  async getCashFlow(frequency = 'a', trailing = true): Promise<FinancialsData> {
-    return this.financials('cash_flow', frequency, false, undefined, trailing);
+  async getCashFlow(frequency = 'a', trailing = true, premium = false): Promise<FinancialsData> {
+    return this.financials('cash_flow', frequency, premium, undefined, trailing);
   }
 
   /**
    * Get valuation measures
    */
-  async getValuationMeasures(): Promise<FinancialsData> {
-    return this.financials('valuation', 'q');
+  async getValuationMeasures(premium = false): Promise<FinancialsData> {
+    return this.financials('valuation', 'q', premium);
   }
 
   /**
@@ -611,25 +1572,55 @@ export class Ticker extends BaseFinance {
   /**
    * Get specific financial data types
    */
-  async getFinancialData(types: string | string[], frequency = 'a', trailing = true): Promise<FinancialsData> {
+  async getFinancialData(
+    types: string | string[],
+    frequency = 'a',
+    trailing = true,
+    premium = false
+  ): Promise<FinancialsData> {
     const typeList = Array.isArray(types)
       ? types
       : types.match(/[a-zA-Z]+/g) || [];
-    return this.financials('cash_flow', frequency, false, typeList, trailing);
+    return this.financials('cash_flow', frequency, premium, typeList, trailing);
+  }
+
+  /**
+   * Get margins, returns, liquidity and leverage ratios per period, with
+   * YoY/QoQ growth and CAGR over the periods returned
+   */
+  async getFinancialRatios(frequency = 'a'): Promise<SymbolResult<FinancialRatiosReport>> {
+    const data = await this.getFinancialData(RATIO_LINE_ITEMS, frequency, false);
+    const result: SymbolResult<FinancialRatiosReport> = {};
+
+    for (const [symbol, rows] of Object.entries(data)) {
+      result[symbol] = isSymbolError(rows) ? rows : computeFinancialRatios(rows);
+    }
+
+    return result;
+  }
+
+  /**
+   * Get a trailing-twelve-month series built from quarterly data: flow items
+   * summed over four quarters, balance-sheet items as of each quarter end.
+   * Periods with fewer than four quarters available have complete: false.
+   */
+  async getTrailingFinancials(types: string | string[], options: TtmOptions = {}): Promise<SymbolResult<TtmRow[]>> {
+    const data = await this.getFinancialData(types, 'q', false);
+    return buildFinancialsTtm(data, options);
   }
 
   /**
    * Get corporate events
    */
-  async getCorporateEvents(): Promise<FinancialsData> {
-    return this.financials('cash_flow', null, false, CORPORATE_EVENTS, false);
+  async getCorporateEvents(): Promise<TimeSeriesData> {
+    return this.timeseries('fundamentals', CORPORATE_EVENTS);
   }
 
   /**
    * Get corporate guidance
    */
-  async getCorporateGuidance(): Promise<FinancialsData> {
-    return this.financials('cash_flow', null, false, ['sigdev_corporate_guidance'], false);
+  async getCorporateGuidance(): Promise<TimeSeriesData> {
+    return this.timeseries('fundamentals', ['sigdev_corporate_guidance']);
   }
 
   // ============================================================
@@ -637,60 +1628,182 @@ export class Ticker extends BaseFinance {
   // ============================================================
 
   /**
-   * Get option chain data
+   * Get option chain data. Without an expiration every expiration is
+   * returned; strike, moneyness and expiration filters keep the chain small.
+   */
+  async getOptionChain(params: OptionChainParams = {}): Promise<OptionChainData> {
+    await this.initialize();
+
+    const query: QueryParams = {};
+    if (params.strikeMin !== undefined) {
+      query.strikeMin = params.strikeMin;
+    }
+    if (params.strikeMax !== undefined) {
+      query.strikeMax = params.strikeMax;
+    }
+
+    const expirations = [
+      ...(params.expiration !== undefined ? [params.expiration] : []),
+      ...(params.expirations ?? []),
+    ].map(toExpirationTimestamp);
+
+    if (expirations.length === 0) {
+      const data = await this.getData<OptionChain>('options', { ...query, getAllData: 'true' });
+      return this.processOptionData(data, params);
+    }
+
+    const chains = await Promise.all(
+      [...new Set(expirations)].map((date) => this.getData<OptionChain>('options', { ...query, date }))
+    );
+    return this.processOptionData(mergeOptionChains(chains), params);
+  }
+
+  /**
+   * Get available option expiration dates (YYYY-MM-DD)
    */
-  async getOptionChain(): Promise<OptionChainData> {
+  async getOptionExpirations(): Promise<SymbolResult<string[]>> {
     await this.initialize();
-    const data = await this.getData<OptionChainData>('options', { getAllData: 'true' });
-    return this.processOptionData(data);
+    const data = await this.getData<OptionChain>('options', {});
+    const result: SymbolResult<string[]> = {};
+
+    for (const symbol of this._symbols) {
+      const symbolData = data[symbol];
+      result[symbol] = !symbolData || isSymbolError(symbolData)
+        ? symbolData ?? 'No data found'
+        : (symbolData.expirationDates ?? []).map(formatDate);
+    }
+
+    return result;
+  }
+
+  /**
+   * Get the option chain with implied volatility solved from each contract's
+   * price and Black-Scholes / Barone-Adesi-Whaley Greeks
+   */
+  async getOptionGreeks(params: OptionGreeksParams = {}): Promise<OptionChainData> {
+    const { riskFreeRate, dividendYield, style, ...chainParams } = params;
+    const chains = await this.getOptionChain(chainParams);
+    const rate = riskFreeRate ?? await this.getRiskFreeRate();
+    const result: OptionChainData = {};
+
+    for (const [symbol, chain] of Object.entries(chains)) {
+      result[symbol] = isSymbolError(chain)
+        ? chain
+        : addOptionGreeks(chain, { riskFreeRate: rate, dividendYield, style });
+    }
+
+    return result;
+  }
+
+  /**
+   * Get chain analytics per expiration (max pain, put/call ratios, open
+   * interest and volume by strike, straddle-implied move) and the contracts
+   * with unusual volume against open interest
+   */
+  async getOptionAnalytics(params: OptionAnalyticsParams = {}): Promise<SymbolResult<OptionAnalytics>> {
+    const { unusualLimit, minVolume, ...chainParams } = params;
+    const chains = await this.getOptionChain(chainParams);
+    const result: SymbolResult<OptionAnalytics> = {};
+
+    for (const [symbol, chain] of Object.entries(chains)) {
+      result[symbol] = isSymbolError(chain) ? chain : computeOptionAnalytics(chain, { unusualLimit, minVolume });
+    }
+
+    return result;
+  }
+
+  /**
+   * Get the implied volatility surface: out-of-the-money volatilities by
+   * expiration, strike, moneyness and delta, with ATM term structure,
+   * 25-delta skew and constant-maturity volatilities
+   */
+  async getVolatilitySurface(params: VolatilitySurfaceParams = {}): Promise<SymbolResult<VolatilitySurface>> {
+    const { tenors, ...greeksParams } = params;
+    const chains = await this.getOptionGreeks(greeksParams);
+    const now = new Date();
+    const result: SymbolResult<VolatilitySurface> = {};
+
+    for (const [symbol, chain] of Object.entries(chains)) {
+      result[symbol] = isSymbolError(chain) ? chain : buildVolatilitySurface(chain, { tenors, now });
+    }
+
+    return result;
+  }
+
+  /**
+   * Latest 13-week T-bill yield (^IRX) as a fraction, or 0 if unavailable
+   */
+  private async getRiskFreeRate(): Promise<number> {
+    const history = (await this.getRelatedHistory(RISK_FREE_SYMBOL, { period: '5d', interval: '1d' }))[RISK_FREE_SYMBOL];
+    const latest = Array.isArray(history)
+      ? [...history].reverse().find((row) => row.close !== null)
+      : undefined;
+
+    if (!latest?.close) {
+      console.warn(`Could not fetch ${RISK_FREE_SYMBOL}; using a risk-free rate of 0`);
+      return 0;
+    }
+    // ^IRX is quoted in percent
+    return latest.close / 100;
   }
 
   /**
    * Process option chain data
    */
-  private processOptionData(data: OptionChainData): OptionChainData {
+  private processOptionData(data: SymbolResult<OptionChain>, params: OptionChainParams = {}): OptionChainData {
     const result: OptionChainData = {};
 
     for (const symbol of this._symbols) {
-      const symbolData = data[symbol] as Record<string, unknown>;
+      const symbolData = data[symbol];
 
-      if (!symbolData || typeof symbolData !== 'object') {
-        result[symbol] = symbolData;
+      if (!symbolData || isSymbolError(symbolData)) {
+        result[symbol] = symbolData ?? 'No data found';
         continue;
       }
 
-      if ('options' in symbolData && Array.isArray(symbolData.options)) {
-        const options = symbolData.options as Array<{
-          calls: unknown[];
-          puts: unknown[];
-          expirationDate: number;
-        }>;
+      const underlyingPrice = symbolData.quote?.regularMarketPrice ?? symbolData.underlying?.regularMarketPrice;
+      const inRange = (strike: number | undefined): boolean => {
+        if (strike === undefined) {
+          return false;
+        }
+        if ((params.strikeMin !== undefined && strike < params.strikeMin)
+          || (params.strikeMax !== undefined && strike > params.strikeMax)) {
+          return false;
+        }
+        // Without an underlying price there is nothing to measure moneyness against
+        return params.moneyness === undefined || !underlyingPrice
+          || Math.abs(strike - underlyingPrice) <= params.moneyness * underlyingPrice;
+      };
 
-        const allCalls: unknown[] = [];
-        const allPuts: unknown[] = [];
+      const allCalls: OptionContractRow[] = [];
+      const allPuts: OptionContractRow[] = [];
 
-        for (const expiration of options) {
-          const expirationDate = new Date(expiration.expirationDate * 1000);
+      for (const expiration of symbolData.options ?? []) {
+        const expirationDate = new Date((expiration.expirationDate ?? 0) * 1000);
 
-          for (const call of expiration.calls || []) {
-            allCalls.push({ ...call as object, expiration: expirationDate, optionType: 'call' });
+        for (const call of expiration.calls || []) {
+          if (inRange(call.strike)) {
+            allCalls.push({ ...call, expiration: expirationDate, optionType: 'call' });
           }
+        }
 
-          for (const put of expiration.puts || []) {
-            allPuts.push({ ...put as object, expiration: expirationDate, optionType: 'put' });
+        for (const put of expiration.puts || []) {
+          if (inRange(put.strike)) {
+            allPuts.push({ ...put, expiration: expirationDate, optionType: 'put' });
           }
         }
-
-        result[symbol] = {
-          calls: allCalls,
-          puts: allPuts,
-          underlyingSymbol: (symbolData as Record<string, unknown>).underlyingSymbol,
-          expirationDates: (symbolData as Record<string, unknown>).expirationDates,
-          strikes: (symbolData as Record<string, unknown>).strikes,
-        };
-      } else {
-        result[symbol] = symbolData;
       }
+
+      result[symbol] = {
+        calls: allCalls,
+        puts: allPuts,
+        underlyingSymbol: symbolData.underlyingSymbol,
+        underlyingPrice,
+        dividendYield: symbolData.quote?.trailingAnnualDividendYield,
+        expirationDates: symbolData.expirationDates,
+        strikes: symbolData.strikes?.filter(inRange),
+        ...(params.straddle ? { straddles: pairStraddles(allCalls, allPuts) } : {}),
+      };
     }
 
     return result;
@@ -703,32 +1816,22 @@ export class Ticker extends BaseFinance {
   /**
    * Get fund holding info
    */
-  async getFundHoldingInfo(): Promise<QuoteSummaryData> {
-    return this.quoteSummary(['topHoldings']);
+  async getFundHoldingInfo(): Promise<SymbolResult<TopHoldings>> {
+    return this.quoteSummaryModule('topHoldings');
   }
 
   /**
    * Get fund top holdings
    */
-  async getFundTopHoldings(): Promise<QuoteSummaryData> {
-    const data = await this.quoteSummary(['topHoldings']);
-    const result: QuoteSummaryData = {};
-
-    for (const [symbol, value] of Object.entries(data)) {
-      if (typeof value === 'object' && value !== null && 'holdings' in value) {
-        result[symbol] = (value as Record<string, unknown>).holdings;
-      } else {
-        result[symbol] = value;
-      }
-    }
-
-    return result;
+  async getFundTopHoldings(): Promise<SymbolResult<FundHolding[]>> {
+    const data = await this.getFundHoldingInfo();
+    return this.extractFundData(data, 'holdings');
   }
 
   /**
    * Get fund bond holdings
    */
-  async getFundBondHoldings(): Promise<QuoteSummaryData> {
+  async getFundBondHoldings(): Promise<SymbolResult<Record<string, number>>> {
     const data = await this.getFundHoldingInfo();
     return this.extractFundData(data, 'bondHoldings');
   }
@@ -736,7 +1839,7 @@ export class Ticker extends BaseFinance {
   /**
    * Get fund equity holdings
    */
-  async getFundEquityHoldings(): Promise<QuoteSummaryData> {
+  async getFundEquityHoldings(): Promise<SymbolResult<Record<string, number>>> {
     const data = await this.getFundHoldingInfo();
     return this.extractFundData(data, 'equityHoldings');
   }
@@ -744,7 +1847,7 @@ export class Ticker extends BaseFinance {
   /**
    * Get fund sector weightings
    */
-  async getFundSectorWeightings(): Promise<QuoteSummaryData> {
+  async getFundSectorWeightings(): Promise<SymbolResult<Array<Record<string, number>>>> {
     const data = await this.getFundHoldingInfo();
     return this.extractFundData(data, 'sectorWeightings');
   }
@@ -752,7 +1855,7 @@ export class Ticker extends BaseFinance {
   /**
    * Get fund bond ratings
    */
-  async getFundBondRatings(): Promise<QuoteSummaryData> {
+  async getFundBondRatings(): Promise<SymbolResult<Array<Record<string, number>>>> {
     const data = await this.getFundHoldingInfo();
     return this.extractFundData(data, 'bondRatings');
   }
@@ -760,58 +1863,63 @@ export class Ticker extends BaseFinance {
   /**
    * Get fund performance
    */
-  async getFundPerformance(): Promise<QuoteSummaryData> {
-    return this.quoteSummary(['fundPerformance']);
+  async getFundPerformance(): Promise<SymbolResult<QuoteSummaryModule>> {
+    return this.quoteSummaryModule('fundPerformance');
   }
 
   /**
    * Get fund profile
    */
-  async getFundProfile(): Promise<QuoteSummaryData> {
-    return this.quoteSummary(['fundProfile']);
+  async getFundProfile(): Promise<SymbolResult<QuoteSummaryModule>> {
+    return this.quoteSummaryModule('fundProfile');
   }
 
   /**
    * Get fund category holdings
    */
-  async getFundCategoryHoldings(): Promise<QuoteSummaryData> {
-    const data = await this.quoteSummary(['topHoldings']);
-    const result: QuoteSummaryData = {};
+  async getFundCategoryHoldings(): Promise<SymbolResult<FundCategoryHoldings>> {
+    const data = await this.getFundHoldingInfo();
+    const result: SymbolResult<FundCategoryHoldings> = {};
 
     for (const [symbol, value] of Object.entries(data)) {
-      if (typeof value === 'object' && value !== null) {
+      if (isSymbolError(value)) {
+        result[symbol] = value;
+      } else {
         const filtered: Record<string, unknown> = {};
-        for (const [key, val] of Object.entries(value as Record<string, unknown>)) {
+        for (const [key, val] of Object.entries(value)) {
           if (!FUND_DETAILS.includes(key)) {
             filtered[key] = val;
           }
         }
-        result[symbol] = filtered;
-      } else {
-        result[symbol] = value;
+        result[symbol] = filtered as FundCategoryHoldings;
       }
     }
 
     return result;
   }
 
+
   /**
    * Extract specific fund data field
    */
-  private extractFundData(data: QuoteSummaryData, field: string): QuoteSummaryData {
-    const result: QuoteSummaryData = {};
+  private extractFundData<K extends keyof TopHoldings>(
+    data: SymbolResult<TopHoldings>,
+    field: K
+  ): SymbolResult<NonNullable<TopHoldings[K]>> {
+    const result: SymbolResult<NonNullable<TopHoldings[K]>> = {};
 
     for (const [symbol, value] of Object.entries(data)) {
-      if (typeof value === 'object' && value !== null && field in value) {
-        result[symbol] = (value as Record<string, unknown>)[field];
-      } else {
+      if (isSymbolError(value)) {
         result[symbol] = value;
+      } else {
+        result[symbol] = value[field] ?? 'No data found';
       }
     }
 
     return result;
   }
 
+
   // ============================================================
   // COMPANY OFFICERS
   // ============================================================
@@ -819,9 +1927,15 @@ export class Ticker extends BaseFinance {
   /**
    * Get company officers
    */
-  async getCompanyOfficers(): Promise<QuoteSummaryData> {
-    const data = await this.quoteSummary(['assetProfile']);
-    return this.extractFundData(data, 'companyOfficers');
+  async getCompanyOfficers(): Promise<SymbolResult<CompanyOfficer[]>> {
+    const data = await this.quoteSummaryModule('assetProfile');
+    const result: SymbolResult<CompanyOfficer[]> = {};
+
+    for (const [symbol, profile] of Object.entries(data)) {
+      result[symbol] = isSymbolError(profile) ? profile : profile.companyOfficers ?? [];
+    }
+
+    return result;
   }
 }
 
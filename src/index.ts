@@ -10,6 +10,7 @@ export { BaseFinance } from './core/BaseFinance';
 export { Ticker, createTicker } from './core/Ticker';
 export { Screener, createScreener } from './core/Screener';
 export { Research, createResearch } from './core/Research';
+export type { ResearchDetail, ResearchOptions } from './core/Research';
 export { ProxyManager } from './core/ProxyManager';
 export type { ProxyConfig, ProxyManagerOptions } from './core/ProxyManager';
 
@@ -26,6 +27,9 @@ export {
   getValidCountries,
 } from './misc/functions';
 
+// Analysis
+export * from './analysis';
+
 // Configuration
 export * from './config';
 
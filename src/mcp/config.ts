@@ -24,6 +24,10 @@ export const ENV_VARS = {
 
   // Session configuration
   TIMEOUT: 'YFINANCE_TIMEOUT',
+
+  // Yahoo Finance Premium login
+  USERNAME: 'YFINANCE_USERNAME',
+  PASSWORD: 'YFINANCE_PASSWORD',
 } as const;
 
 /**
@@ -59,9 +63,27 @@ export function getSessionOptionsFromEnv(): SessionOptions {
     options.timeout = timeout;
   }
 
+  // Premium login
+  const username = process.env[ENV_VARS.USERNAME];
+  const password = process.env[ENV_VARS.PASSWORD];
+  if (username && password) {
+    options.username = username;
+    options.password = password;
+  }
+
   return options;
 }
 
+/**
+ * Whether Yahoo Finance Premium credentials are configured, which lists the
+ * premium-only tools. Best-effort: the login itself is only checked when a
+ * premium tool runs, and fails the call if it did not succeed
+ */
+export function hasPremiumSession(): boolean {
+  const options = getMcpSessionOptions();
+  return Boolean(options.username && options.password);
+}
+
 /**
  * Parse integer from environment variable
  */
@@ -17,9 +17,12 @@ import { tickerTools } from './tools/ticker.js';
 import { screenerTools } from './tools/screener.js';
 import { researchTools } from './tools/research.js';
 import { miscTools } from './tools/misc.js';
+import { hasPremiumSession } from './config.js';
 
-// Combine all tools
-const allTools = [...tickerTools, ...screenerTools, ...researchTools, ...miscTools];
+// Combine all tools, leaving out premium-only tools without a Premium login
+const premium = hasPremiumSession();
+const allTools = [...tickerTools, ...screenerTools, ...researchTools, ...miscTools]
+  .filter((tool) => premium || !('premium' in tool && tool.premium));
 
 // Create tool lookup map for efficient handler access
 const toolHandlers = new Map<string, (args: unknown) => Promise<string>>();
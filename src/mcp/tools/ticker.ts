@@ -4,6 +4,9 @@
 
 import { z } from 'zod';
 import { Ticker } from '../../core/Ticker';
+import { getMarketClock, resolveCalendar } from '../../analysis/calendar';
+import { addHistoryIndicators, parseIndicators } from '../../analysis/indicators';
+import { isSymbolError } from '../../utils/helpers';
 import { getMcpSessionOptions } from '../config';
 
 // Schema definitions
@@ -25,6 +28,15 @@ export const getStockHistorySchema = z.object({
   interval: z.string().optional().describe('Data interval: 1m, 2m, 5m, 15m, 30m, 60m, 90m, 1h, 1d, 5d, 1wk, 1mo, 3mo (default: 1d)'),
   start: z.string().optional().describe('Start date in YYYY-MM-DD format'),
   end: z.string().optional().describe('End date in YYYY-MM-DD format'),
+  prepost: z.boolean().optional().describe('Include pre- and post-market bars for intraday intervals (default: false)'),
+});
+
+export const getTechnicalIndicatorsSchema = z.object({
+  symbols: z.string().describe('Stock symbol(s), space-separated'),
+  indicators: z.string().optional().describe('Comma-separated indicators with optional parameters, e.g. "sma:50,ema:20,rsi:14,macd:12:26:9,bollinger:20:2,atr,stochastic:14:3,obv,vwap,adx" (default: sma:20,sma:50,rsi,macd,bollinger)'),
+  period: z.string().optional().describe('Time period of history to compute over (default: 1y)'),
+  interval: z.string().optional().describe('Data interval: 1m, 2m, 5m, 15m, 30m, 60m, 90m, 1h, 1d, 1wk, 1mo (default: 1d)'),
+  limit: z.number().optional().describe('Number of most recent bars to return (default: 20)'),
 });
 
 export const getFinancialsSchema = z.object({
@@ -33,8 +45,48 @@ export const getFinancialsSchema = z.object({
   frequency: z.enum(['annual', 'quarterly']).optional().describe('Data frequency (default: annual)'),
 });
 
+export const getFinancialRatiosSchema = z.object({
+  symbols: z.string().describe('Stock symbol(s), space-separated'),
+  frequency: z.enum(['annual', 'quarterly']).optional().describe('Data frequency (default: annual)'),
+});
+
 export const getOptionsSchema = z.object({
   symbol: z.string().describe('Stock symbol (single symbol only)'),
+  expiration: z.string().optional().describe('Expiration date in YYYY-MM-DD format (default: all expirations)'),
+  expirations: z.string().optional().describe('Comma-separated expiration dates in YYYY-MM-DD format'),
+  strikeMin: z.number().optional().describe('Minimum strike price'),
+  strikeMax: z.number().optional().describe('Maximum strike price'),
+  moneyness: z.number().min(0).optional().describe('Keep strikes within this fraction of the underlying price, e.g. 0.1 for ±10%'),
+  straddle: z.boolean().optional().describe('Return calls and puts paired by strike instead of separate lists'),
+});
+
+export const getOptionAnalyticsSchema = z.object({
+  symbol: z.string().describe('Stock symbol (single symbol only)'),
+  expiration: z.string().optional().describe('Expiration date in YYYY-MM-DD format (default: all expirations)'),
+  moneyness: z.number().min(0).optional().describe('Keep strikes within this fraction of the underlying price, e.g. 0.2 for ±20%'),
+  unusualLimit: z.number().int().positive().optional().describe('Number of unusual contracts to return (default: 10)'),
+  includeStrikes: z.boolean().optional().describe('Include open interest and volume by strike (default: false)'),
+});
+
+export const getEsgSchema = z.object({
+  symbols: z.string().describe('Stock symbol(s), space-separated'),
+  type: z.enum(['chart', 'peers', 'all']).optional().describe('ESG data: monthly score history, peer scores, or both (default: all)'),
+});
+
+export const getFairValueSchema = z.object({
+  symbols: z.string().describe('Stock symbol(s), space-separated'),
+  band: z.boolean().optional().describe('Include the Premium Value Analyzer fair-value band (default: false)'),
+});
+
+export const getTechnicalEventsSchema = z.object({
+  symbols: z.string().describe('Stock symbol(s), space-separated'),
+  horizons: z.array(z.enum(['short', 'intermediate', 'long'])).optional().describe('Trading horizons to include (default: all)'),
+  size: z.number().int().positive().optional().describe('Maximum number of events per symbol'),
+});
+
+export const getPremiumInsightsSchema = z.object({
+  symbols: z.string().describe('Stock symbol(s), space-separated'),
+  reportsCount: z.number().int().positive().optional().describe('Number of research reports to include'),
 });
 
 export const getKeyStatsSchema = z.object({
@@ -49,7 +101,24 @@ export const getEarningsSchema = z.object({
   symbols: z.string().describe('Stock symbol(s), space-separated'),
 });
 
+export const getMarketStatusSchema = z.object({
+  symbols: z.string().optional().describe('Stock symbol(s), space-separated; reports the status of each symbol\'s exchange'),
+  exchange: z.string().optional().describe('Exchange code or time zone (e.g., "US", "LSE", "JPX", "NMS", "Europe/Berlin")'),
+}).refine((args) => Boolean(args.symbols || args.exchange), {
+  message: 'Either symbols or exchange is required',
+});
+
 // Tool implementations
+
+/**
+ * Fail a premium-only tool when the session is not logged in to Premium
+ */
+async function requirePremium(ticker: Ticker): Promise<void> {
+  if (!(await ticker.hasPremium())) {
+    throw new Error('Requires a Yahoo Finance Premium login (set YFINANCE_USERNAME and YFINANCE_PASSWORD)');
+  }
+}
+
 export async function getStockPrice(args: z.infer<typeof getStockPriceSchema>): Promise<string> {
   try {
     const ticker = new Ticker(args.symbols, getMcpSessionOptions());
@@ -88,6 +157,7 @@ export async function getStockHistory(args: z.infer<typeof getStockHistorySchema
       interval: args.interval || '1d',
       start: args.start,
       end: args.end,
+      prepost: args.prepost,
     });
     return JSON.stringify(data, null, 2);
   } catch (error) {
@@ -95,6 +165,34 @@ export async function getStockHistory(args: z.infer<typeof getStockHistorySchema
   }
 }
 
+export async function getTechnicalIndicators(args: z.infer<typeof getTechnicalIndicatorsSchema>): Promise<string> {
+  try {
+    const specs = parseIndicators(args.indicators || 'sma:20,sma:50,rsi,macd,bollinger');
+    const ticker = new Ticker(args.symbols, getMcpSessionOptions());
+    const history = await ticker.getHistory({
+      period: args.period || '1y',
+      interval: args.interval || '1d',
+    });
+    const data = addHistoryIndicators(history, specs);
+    const limit = args.limit || 20;
+
+    // Return only the most recent bars, flattened for readability
+    const result: Record<string, unknown> = {};
+    for (const [symbol, rows] of Object.entries(data)) {
+      result[symbol] = Array.isArray(rows)
+        ? rows.slice(-limit).map(({ date, localDate, close, indicators }) => ({
+          date: localDate ?? date,
+          close,
+          ...indicators,
+        }))
+        : rows;
+    }
+    return JSON.stringify(result, null, 2);
+  } catch (error) {
+    throw new Error(`Failed to get technical indicators: ${error instanceof Error ? error.message : 'Unknown error'}`);
+  }
+}
+
 export async function getFinancials(args: z.infer<typeof getFinancialsSchema>): Promise<string> {
   try {
     const ticker = new Ticker(args.symbols, getMcpSessionOptions());
@@ -125,16 +223,118 @@ export async function getFinancials(args: z.infer<typeof getFinancialsSchema>):
   }
 }
 
+export async function getFinancialRatios(args: z.infer<typeof getFinancialRatiosSchema>): Promise<string> {
+  try {
+    const ticker = new Ticker(args.symbols, getMcpSessionOptions());
+    const data = await ticker.getFinancialRatios(args.frequency === 'quarterly' ? 'q' : 'a');
+    return JSON.stringify(data, null, 2);
+  } catch (error) {
+    throw new Error(`Failed to get financial ratios: ${error instanceof Error ? error.message : 'Unknown error'}`);
+  }
+}
+
 export async function getOptions(args: z.infer<typeof getOptionsSchema>): Promise<string> {
   try {
     const ticker = new Ticker(args.symbol, getMcpSessionOptions());
-    const data = await ticker.getOptionChain();
+    const data = await ticker.getOptionChain({
+      expiration: args.expiration,
+      expirations: args.expirations?.split(',').map((date) => date.trim()).filter(Boolean),
+      strikeMin: args.strikeMin,
+      strikeMax: args.strikeMax,
+      moneyness: args.moneyness,
+      straddle: args.straddle,
+    });
+
+    if (args.straddle) {
+      // The paired view already holds every contract
+      for (const [symbol, chain] of Object.entries(data)) {
+        if (!isSymbolError(chain)) {
+          data[symbol] = { ...chain, calls: [], puts: [] };
+        }
+      }
+    }
+
     return JSON.stringify(data, null, 2);
   } catch (error) {
     throw new Error(`Failed to get options: ${error instanceof Error ? error.message : 'Unknown error'}`);
   }
 }
 
+export async function getOptionAnalytics(args: z.infer<typeof getOptionAnalyticsSchema>): Promise<string> {
+  try {
+    const ticker = new Ticker(args.symbol, getMcpSessionOptions());
+    const data = await ticker.getOptionAnalytics({
+      expiration: args.expiration,
+      moneyness: args.moneyness,
+      unusualLimit: args.unusualLimit,
+    });
+
+    if (!args.includeStrikes) {
+      for (const analytics of Object.values(data)) {
+        if (!isSymbolError(analytics)) {
+          analytics.expirations = analytics.expirations.map((expiration) => ({ ...expiration, strikes: [] }));
+        }
+      }
+    }
+
+    return JSON.stringify(data, null, 2);
+  } catch (error) {
+    throw new Error(`Failed to get option analytics: ${error instanceof Error ? error.message : 'Unknown error'}`);
+  }
+}
+
+export async function getEsg(args: z.infer<typeof getEsgSchema>): Promise<string> {
+  try {
+    const ticker = new Ticker(args.symbols, getMcpSessionOptions());
+    const type = args.type ?? 'all';
+
+    const data = {
+      ...(type !== 'peers' && { chart: await ticker.getEsgChart() }),
+      ...(type !== 'chart' && { peerScores: await ticker.getEsgPeerScores() }),
+    };
+
+    return JSON.stringify(data, null, 2);
+  } catch (error) {
+    throw new Error(`Failed to get ESG data: ${error instanceof Error ? error.message : 'Unknown error'}`);
+  }
+}
+
+export async function getFairValue(args: z.infer<typeof getFairValueSchema>): Promise<string> {
+  try {
+    const ticker = new Ticker(args.symbols, getMcpSessionOptions());
+    await requirePremium(ticker);
+    const data = args.band ? await ticker.getValueAnalyzer() : await ticker.getFairValue();
+
+    return JSON.stringify(data, null, 2);
+  } catch (error) {
+    throw new Error(`Failed to get fair value: ${error instanceof Error ? error.message : 'Unknown error'}`);
+  }
+}
+
+export async function getTechnicalEvents(args: z.infer<typeof getTechnicalEventsSchema>): Promise<string> {
+  try {
+    const ticker = new Ticker(args.symbols, getMcpSessionOptions());
+    await requirePremium(ticker);
+    const data = await ticker.getTechnicalEvents({ horizons: args.horizons, size: args.size });
+
+    return JSON.stringify(data, null, 2);
+  } catch (error) {
+    throw new Error(`Failed to get technical events: ${error instanceof Error ? error.message : 'Unknown error'}`);
+  }
+}
+
+export async function getPremiumInsights(args: z.infer<typeof getPremiumInsightsSchema>): Promise<string> {
+  try {
+    const ticker = new Ticker(args.symbols, getMcpSessionOptions());
+    await requirePremium(ticker);
+    const data = await ticker.getPremiumInsights(args.reportsCount);
+
+    return JSON.stringify(data, null, 2);
+  } catch (error) {
+    throw new Error(`Failed to get premium insights: ${error instanceof Error ? error.message : 'Unknown error'}`);
+  }
+}
+
 export async function getKeyStats(args: z.infer<typeof getKeyStatsSchema>): Promise<string> {
   try {
     const ticker = new Ticker(args.symbols, getMcpSessionOptions());
@@ -165,6 +365,23 @@ export async function getEarnings(args: z.infer<typeof getEarningsSchema>): Prom
   }
 }
 
+export async function getMarketStatus(args: z.infer<typeof getMarketStatusSchema>): Promise<string> {
+  try {
+    if (args.symbols) {
+      const ticker = new Ticker(args.symbols, getMcpSessionOptions());
+      const data = await ticker.getMarketStatus();
+      return JSON.stringify(data, null, 2);
+    }
+    if (args.exchange) {
+      const data = getMarketClock(resolveCalendar(args.exchange));
+      return JSON.stringify(data, null, 2);
+    }
+    throw new Error('Either symbols or exchange is required');
+  } catch (error) {
+    throw new Error(`Failed to get market status: ${error instanceof Error ? error.message : 'Unknown error'}`);
+  }
+}
+
 // Tool definitions for MCP
 export const tickerTools = [
   {
@@ -217,7 +434,7 @@ export const tickerTools = [
   },
   {
     name: 'get_stock_history',
-    description: 'Get historical OHLCV (Open, High, Low, Close, Volume) price data',
+    description: 'Get historical OHLCV (Open, High, Low, Close, Volume) price data. Intraday bars are tagged with their session (pre, regular, post)',
     inputSchema: {
       type: 'object' as const,
       properties: {
@@ -241,12 +458,48 @@ export const tickerTools = [
           type: 'string',
           description: 'End date in YYYY-MM-DD format',
         },
+        prepost: {
+          type: 'boolean',
+          description: 'Include pre- and post-market bars for intraday intervals (default: false)',
+        },
       },
       required: ['symbols'],
     },
     handler: getStockHistory,
     schema: getStockHistorySchema,
   },
+  {
+    name: 'get_technical_indicators',
+    description: 'Compute technical indicators (SMA, EMA, WMA, RSI, MACD, Bollinger Bands, ATR, Stochastic, OBV, VWAP, ADX) from price history and return the most recent values',
+    inputSchema: {
+      type: 'object' as const,
+      properties: {
+        symbols: {
+          type: 'string',
+          description: 'Stock symbol(s), space-separated',
+        },
+        indicators: {
+          type: 'string',
+          description: 'Comma-separated indicators with optional parameters, e.g. "sma:50,ema:20,rsi:14,macd:12:26:9,bollinger:20:2,atr,stochastic:14:3,obv,vwap,adx" (default: sma:20,sma:50,rsi,macd,bollinger)',
+        },
+        period: {
+          type: 'string',
+          description: 'Time period of history to compute over (default: 1y)',
+        },
+        interval: {
+          type: 'string',
+          description: 'Data interval: 1m, 2m, 5m, 15m, 30m, 60m, 90m, 1h, 1d, 1wk, 1mo (default: 1d)',
+        },
+        limit: {
+          type: 'number',
+          description: 'Number of most recent bars to return (default: 20)',
+        },
+      },
+      required: ['symbols'],
+    },
+    handler: getTechnicalIndicators,
+    schema: getTechnicalIndicatorsSchema,
+  },
   {
     name: 'get_financials',
     description: 'Get financial statements (income statement, balance sheet, cash flow)',
@@ -273,6 +526,27 @@ export const tickerTools = [
     handler: getFinancials,
     schema: getFinancialsSchema,
   },
+  {
+    name: 'get_financial_ratios',
+    description: 'Get historical financial ratios (margins, ROE, ROA, ROIC, liquidity, leverage, coverage) with YoY/QoQ growth and CAGR',
+    inputSchema: {
+      type: 'object' as const,
+      properties: {
+        symbols: {
+          type: 'string',
+          description: 'Stock symbol(s), space-separated',
+        },
+        frequency: {
+          type: 'string',
+          enum: ['annual', 'quarterly'],
+          description: 'Data frequency (default: annual)',
+        },
+      },
+      required: ['symbols'],
+    },
+    handler: getFinancialRatios,
+    schema: getFinancialRatiosSchema,
+  },
   {
     name: 'get_options',
     description: 'Get option chain data including calls and puts with strikes, premiums, and Greeks',
@@ -283,12 +557,157 @@ export const tickerTools = [
           type: 'string',
           description: 'Stock symbol (single symbol only)',
         },
+        expiration: {
+          type: 'string',
+          description: 'Expiration date in YYYY-MM-DD format (default: all expirations)',
+        },
+        expirations: {
+          type: 'string',
+          description: 'Comma-separated expiration dates in YYYY-MM-DD format',
+        },
+        strikeMin: {
+          type: 'number',
+          description: 'Minimum strike price',
+        },
+        strikeMax: {
+          type: 'number',
+          description: 'Maximum strike price',
+        },
+        moneyness: {
+          type: 'number',
+          description: 'Keep strikes within this fraction of the underlying price, e.g. 0.1 for ±10%',
+        },
+        straddle: {
+          type: 'boolean',
+          description: 'Return calls and puts paired by strike instead of separate lists',
+        },
       },
       required: ['symbol'],
     },
     handler: getOptions,
     schema: getOptionsSchema,
   },
+  {
+    name: 'get_option_analytics',
+    description: 'Get option chain analytics: max pain, put/call ratios, expected move from the ATM straddle, unusual volume versus open interest, and optionally open interest by strike',
+    inputSchema: {
+      type: 'object' as const,
+      properties: {
+        symbol: {
+          type: 'string',
+          description: 'Stock symbol (single symbol only)',
+        },
+        expiration: {
+          type: 'string',
+          description: 'Expiration date in YYYY-MM-DD format (default: all expirations)',
+        },
+        moneyness: {
+          type: 'number',
+          description: 'Keep strikes within this fraction of the underlying price, e.g. 0.2 for ±20%',
+        },
+        unusualLimit: {
+          type: 'number',
+          description: 'Number of unusual contracts to return (default: 10)',
+        },
+        includeStrikes: {
+          type: 'boolean',
+          description: 'Include open interest and volume by strike (default: false)',
+        },
+      },
+      required: ['symbol'],
+    },
+    handler: getOptionAnalytics,
+    schema: getOptionAnalyticsSchema,
+  },
+  {
+    name: 'get_esg',
+    description: 'Get historical ESG risk scores (total, environment, social, governance) against the peer group average, and peer ESG scores',
+    inputSchema: {
+      type: 'object' as const,
+      properties: {
+        symbols: {
+          type: 'string',
+          description: 'Stock symbol(s), space-separated',
+        },
+        type: {
+          type: 'string',
+          enum: ['chart', 'peers', 'all'],
+          description: 'ESG data: monthly score history, peer scores, or both (default: all)',
+        },
+      },
+      required: ['symbols'],
+    },
+    handler: getEsg,
+    schema: getEsgSchema,
+  },
+  {
+    name: 'get_fair_value',
+    description: 'Get fair value estimates with the price, premium/discount and an undervalued/fair/overvalued classification, optionally with the fair-value band',
+    premium: true,
+    inputSchema: {
+      type: 'object' as const,
+      properties: {
+        symbols: {
+          type: 'string',
+          description: 'Stock symbol(s), space-separated',
+        },
+        band: {
+          type: 'boolean',
+          description: 'Include the Premium Value Analyzer fair-value band (default: false)',
+        },
+      },
+      required: ['symbols'],
+    },
+    handler: getFairValue,
+    schema: getFairValueSchema,
+  },
+  {
+    name: 'get_technical_events',
+    description: 'Get chart patterns and indicator signals (Premium) with pattern, direction, date and price target, by trading horizon',
+    premium: true,
+    inputSchema: {
+      type: 'object' as const,
+      properties: {
+        symbols: {
+          type: 'string',
+          description: 'Stock symbol(s), space-separated',
+        },
+        horizons: {
+          type: 'array',
+          items: { type: 'string', enum: ['short', 'intermediate', 'long'] },
+          description: 'Trading horizons to include (default: all)',
+        },
+        size: {
+          type: 'number',
+          description: 'Maximum number of events per symbol',
+        },
+      },
+      required: ['symbols'],
+    },
+    handler: getTechnicalEvents,
+    schema: getTechnicalEventsSchema,
+  },
+  {
+    name: 'get_premium_insights',
+    description: 'Get Premium insights: technical outlooks, valuation, research reports and significant developments',
+    premium: true,
+    inputSchema: {
+      type: 'object' as const,
+      properties: {
+        symbols: {
+          type: 'string',
+          description: 'Stock symbol(s), space-separated',
+        },
+        reportsCount: {
+          type: 'number',
+          description: 'Number of research reports to include',
+        },
+      },
+      required: ['symbols'],
+    },
+    handler: getPremiumInsights,
+    schema: getPremiumInsightsSchema,
+  },
   {
     name: 'get_key_stats',
     description: 'Get key statistics including forward P/E, PEG ratio, beta, EPS, and shares outstanding',
@@ -337,4 +756,24 @@ export const tickerTools = [
     handler: getEarnings,
     schema: getEarningsSchema,
   },
+  {
+    name: 'get_market_status',
+    description: 'Check whether an exchange is open: current session, holidays, early closes, next open/close, and whether the latest price is live or the last close',
+    inputSchema: {
+      type: 'object' as const,
+      properties: {
+        symbols: {
+          type: 'string',
+          description: 'Stock symbol(s), space-separated; reports the status of each symbol\'s exchange',
+        },
+        exchange: {
+          type: 'string',
+          description: 'Exchange code or time zone (e.g., "US", "LSE", "JPX", "NMS", "Europe/Berlin")',
+        },
+      },
+      required: [] as string[],
+    },
+    handler: getMarketStatus,
+    schema: getMarketStatusSchema,
+  },
 ];
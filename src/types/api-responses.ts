@@ -339,6 +339,38 @@ export interface EsgScores {
   tobacco?: boolean;
 }
 
+// Fund Holdings Types
+
+export interface FundHolding {
+  symbol?: string;
+  holdingName?: string;
+  /** Share of the fund's assets, as a fraction */
+  holdingPercent?: number;
+}
+
+export interface TopHoldings {
+  maxAge?: number;
+  cashPosition?: number;
+  stockPosition?: number;
+  bondPosition?: number;
+  otherPosition?: number;
+  preferredPosition?: number;
+  convertiblePosition?: number;
+  holdings?: FundHolding[];
+  equityHoldings?: Record<string, number>;
+  bondHoldings?: Record<string, number>;
+  /** One entry per sector, e.g. { technology: 0.28 } */
+  sectorWeightings?: Array<Record<string, number>>;
+  /** One entry per rating, e.g. { aaa: 0.4 } */
+  bondRatings?: Array<Record<string, number>>;
+}
+
+/** Fund allocation by asset class, without the holdings and weightings detail */
+export type FundCategoryHoldings = Omit<
+  TopHoldings,
+  'holdings' | 'equityHoldings' | 'bondHoldings' | 'bondRatings' | 'sectorWeightings'
+>;
+
 // Historical Data Types
 
 export interface HistoryMeta {
@@ -361,7 +393,12 @@ export interface HistoryMeta {
     regular?: TradingPeriod;
     post?: TradingPeriod;
   };
-  tradingPeriods?: TradingPeriod[][];
+  /** Regular sessions per day, or grouped by session when includePrePost is set */
+  tradingPeriods?: TradingPeriod[][] | {
+    pre?: TradingPeriod[][];
+    regular?: TradingPeriod[][];
+    post?: TradingPeriod[][];
+  };
   dataGranularity?: string;
   range?: string;
   validRanges?: string[];
@@ -374,7 +411,8 @@ export interface TradingPeriod {
   gmtoffset?: number;
 }
 
-export interface HistoryData {
+/** Per-symbol chart result from the chart endpoint */
+export interface ChartResult {
   meta: HistoryMeta;
   timestamp: number[];
   indicators: {
@@ -466,6 +504,132 @@ export interface TimeSeries {
   [key: string]: unknown;
 }
 
+export interface TimeSeriesDataPoint {
+  dataId?: number;
+  asOfDate?: string;
+  periodType?: string;
+  currencyCode?: string;
+  reportedValue?: { raw?: number; fmt?: string } | number;
+}
+
+// ESG Types
+
+export interface EsgSeries {
+  timestamp?: number[];
+  esgScore?: Array<number | null>;
+  environmentScore?: Array<number | null>;
+  socialScore?: Array<number | null>;
+  governanceScore?: Array<number | null>;
+}
+
+export interface EsgChartResponse {
+  symbol?: string;
+  peerGroup?: string;
+  symbolSeries?: EsgSeries;
+  peerSeries?: EsgSeries;
+}
+
+export interface EsgPeerScores {
+  symbol?: string;
+  peerGroup?: string;
+  esgScore?: number;
+  environmentScore?: number;
+  socialScore?: number;
+  governanceScore?: number;
+  /** Month the scores were published (YYYY-MM-DD) */
+  timestamp?: string;
+  [key: string]: unknown;
+}
+
+// Company360 Types (Premium)
+
+export interface SupplyChainRelation {
+  symbol?: string;
+  name?: string;
+  /** Share of revenue or cost attributed to the relationship */
+  percent?: number;
+  [key: string]: unknown;
+}
+
+export interface SupplyChain {
+  suppliers?: SupplyChainRelation[];
+  customers?: SupplyChainRelation[];
+  [key: string]: unknown;
+}
+
+export interface HiringTrendPoint {
+  date?: string;
+  count?: number;
+  [key: string]: unknown;
+}
+
+export interface Hiring {
+  /** Open job postings */
+  totalJobs?: number;
+  hiringTrend?: HiringTrendPoint[];
+  [key: string]: unknown;
+}
+
+export interface Company360 {
+  innovations?: Record<string, unknown>;
+  sustainability?: Record<string, unknown>;
+  insiderSentiments?: Record<string, unknown>;
+  significantDevelopments?: Record<string, unknown>;
+  supplyChain?: SupplyChain;
+  earnings?: Record<string, unknown>;
+  dividend?: Record<string, unknown>;
+  companyOutlookSummary?: Record<string, unknown>;
+  hiring?: Hiring;
+  companySnapshot?: Record<string, unknown>;
+}
+
+// Value Analyzer Types (Premium)
+
+export interface ValueAnalyzerQuote {
+  symbol?: string;
+  price?: number;
+  /** Estimated fair value per share */
+  fairValue?: number;
+  /** Provider label, e.g. 'Undervalued', 'Near Fair Value', 'Overvalued' */
+  valuation?: string;
+  /** Bounds of the fair-value range */
+  lowerBound?: number;
+  upperBound?: number;
+  [key: string]: unknown;
+}
+
+export interface ValueAnalyzerSeries {
+  timestamp?: number[];
+  price?: Array<number | null>;
+  fairValue?: Array<number | null>;
+  lowerBound?: Array<number | null>;
+  upperBound?: Array<number | null>;
+}
+
+export interface ValueAnalyzerDrilldownResponse extends ValueAnalyzerQuote {
+  series?: ValueAnalyzerSeries;
+}
+
+// Technical Events Types (Premium)
+
+export interface TechnicalEvent {
+  /** Pattern or indicator name */
+  eventType?: string;
+  /** Bullish or bearish */
+  tradeType?: string;
+  /** SHORT_TERM, INTERMEDIATE_TERM or LONG_TERM */
+  tradingHorizon?: string;
+  /** Unix timestamp or ISO date */
+  date?: number | string;
+  targetPrice?: number;
+  [key: string]: unknown;
+}
+
+export interface TechnicalEventsResponse {
+  symbol?: string;
+  events?: TechnicalEvent[];
+}
+
 // Options Chain Types
 
 export interface OptionContract {
@@ -487,12 +651,18 @@ export interface OptionContract {
 }
 
 export interface OptionChain {
+  underlyingSymbol?: string;
   underlying?: {
     symbol?: string;
     shortName?: string;
     longName?: string;
     regularMarketPrice?: number;
   };
+  quote?: {
+    symbol?: string;
+    regularMarketPrice?: number;
+    trailingAnnualDividendYield?: number;
+  };
   expirationDates?: number[];
   strikes?: number[];
   hasMiniOptions?: boolean;
@@ -503,6 +673,104 @@ export interface OptionChain {
   }>;
 }
 
+// Quote Types
+
+export interface Quote {
+  quoteType?: string;
+  currency?: string;
+  exchange?: string;
+  fullExchangeName?: string;
+  shortName?: string;
+  longName?: string;
+  marketState?: string;
+  regularMarketPrice?: number;
+  regularMarketChange?: number;
+  regularMarketChangePercent?: number;
+  regularMarketTime?: number;
+  regularMarketVolume?: number;
+  regularMarketPreviousClose?: number;
+  bid?: number;
+  ask?: number;
+  marketCap?: number;
+  fiftyTwoWeekLow?: number;
+  fiftyTwoWeekHigh?: number;
+  trailingPE?: number;
+  forwardPE?: number;
+  exchangeTimezoneName?: string;
+  [key: string]: unknown;
+}
+
+export interface RecommendedSymbol {
+  symbol: string;
+  score: number;
+}
+
+export interface SymbolRecommendations {
+  symbol?: string;
+  recommendedSymbols?: RecommendedSymbol[];
+}
+
+// Insights Types
+
+export interface TechnicalOutlook {
+  stateDescription?: string;
+  direction?: string;
+  score?: number;
+  scoreDescription?: string;
+  sectorDirection?: string;
+  sectorScore?: number;
+  sectorScoreDescription?: string;
+  indexDirection?: string;
+  indexScore?: number;
+  indexScoreDescription?: string;
+}
+
+export interface InsightsReport {
+  id?: string;
+  headHtml?: string;
+  provider?: string;
+  reportDate?: string;
+  reportTitle?: string;
+  reportType?: string;
+  targetPrice?: number;
+  targetPriceStatus?: string;
+  investmentRating?: string;
+}
+
+export interface Insights {
+  symbol?: string;
+  instrumentInfo?: {
+    technicalEvents?: {
+      provider?: string;
+      shortTermOutlook?: TechnicalOutlook;
+      intermediateTermOutlook?: TechnicalOutlook;
+      longTermOutlook?: TechnicalOutlook;
+    };
+    keyTechnicals?: {
+      provider?: string;
+      support?: number;
+      resistance?: number;
+      stopLoss?: number;
+    };
+    valuation?: {
+      color?: number;
+      description?: string;
+      discount?: string;
+      relativeValue?: string;
+      provider?: string;
+    };
+  };
+  companySnapshot?: Record<string, unknown>;
+  recommendation?: {
+    targetPrice?: number;
+    provider?: string;
+    rating?: string;
+  };
+  reports?: InsightsReport[];
+  sigDevs?: Array<{ headline?: string; date?: string }>;
+  [key: string]: unknown;
+}
+
 // News Types
 
 export interface NewsItem {
@@ -558,3 +826,81 @@ export interface SearchResult {
   timeTakenForScreenerField?: number;
   timeTakenForCul498702?: number;
 }
+
+// Ticker Result Types
+
+/**
+ * Returned in place of data for a symbol that failed: the error message when the
+ * request failed, or an object carrying Yahoo's error description
+ */
+export type SymbolError = string | { error: string };
+
+/**
+ * Returned for a symbol that failed validation, without requesting its data
+ */
+export interface InvalidSymbolError {
+  error: string;
+  invalidSymbol: true;
+  /** Similar symbols from Yahoo Finance search */
+  suggestions: string[];
+}
+
+/** Data keyed by symbol, with a SymbolError for symbols that failed */
+export type SymbolResult<T> = Record<string, T | SymbolError>;
+
+/** Quote summary module without a dedicated interface */
+export type QuoteSummaryModule = Record<string, unknown>;
+
+/** Data returned for each quote summary module */
+export interface QuoteSummaryModules {
+  assetProfile: AssetProfile;
+  balanceSheetHistory: QuoteSummaryModule;
+  balanceSheetHistoryQuarterly: QuoteSummaryModule;
+  calendarEvents: CalendarEvents;
+  cashflowStatementHistory: QuoteSummaryModule;
+  cashflowStatementHistoryQuarterly: QuoteSummaryModule;
+  defaultKeyStatistics: DefaultKeyStatistics;
+  earnings: Earnings;
+  earningsHistory: QuoteSummaryModule;
+  earningsTrend: QuoteSummaryModule;
+  esgScores: EsgScores;
+  financialData: FinancialData;
+  fundOwnership: QuoteSummaryModule;
+  fundPerformance: QuoteSummaryModule;
+  fundProfile: QuoteSummaryModule;
+  indexTrend: QuoteSummaryModule;
+  incomeStatementHistory: QuoteSummaryModule;
+  incomeStatementHistoryQuarterly: QuoteSummaryModule;
+  industryTrend: QuoteSummaryModule;
+  insiderHolders: QuoteSummaryModule;
+  insiderTransactions: QuoteSummaryModule;
+  institutionOwnership: QuoteSummaryModule;
+  majorHoldersBreakdown: QuoteSummaryModule;
+  pageViews: QuoteSummaryModule;
+  price: Price;
+  quoteType: QuoteSummaryModule;
+  recommendationTrend: QuoteSummaryModule;
+  secFilings: QuoteSummaryModule;
+  netSharePurchaseActivity: QuoteSummaryModule;
+  sectorTrend: QuoteSummaryModule;
+  summaryDetail: SummaryDetail;
+  summaryProfile: QuoteSummaryModule;
+  topHoldings: TopHoldings;
+  upgradeDowngradeHistory: QuoteSummaryModule;
+}
+
+export type QuoteSummaryModuleName = keyof QuoteSummaryModules;
+
+/** Several modules for one symbol; modules Yahoo has no data for are omitted */
+export type QuoteSummaryResult<M extends QuoteSummaryModuleName = QuoteSummaryModuleName> = {
+  [K in M]?: QuoteSummaryModules[K];
+};
+
+/**
+ * Data for a list of modules: a single module is returned unwrapped,
+ * several modules are keyed by module name
+ */
+export type QuoteSummaryModulesResult<M extends readonly QuoteSummaryModuleName[]> =
+  M extends readonly [infer Only extends QuoteSummaryModuleName]
+    ? QuoteSummaryModules[Only]
+    : QuoteSummaryResult<M[number]>;
@@ -2,6 +2,8 @@
  * Type exports
  */
 
+import { OptionContract, SymbolResult, TimeSeries } from './api-responses';
+
 export * from './api-responses';
 
 // Common types used throughout the library
@@ -93,6 +95,8 @@ export interface HistoryOptions {
   end?: string | Date;
   adjTimezone?: boolean;
   adjOhlc?: boolean;
+  /** Include pre- and post-market bars (intraday intervals only) */
+  prepost?: boolean;
 }
 
 export interface HistoryParams {
@@ -102,6 +106,60 @@ export interface HistoryParams {
   end?: string | Date;
   adjTimezone?: boolean;
   adjOhlc?: boolean;
+  /** Include pre- and post-market bars (intraday intervals only) */
+  prepost?: boolean;
+}
+
+/**
+ * A single OHLCV bar produced by Ticker.getHistory
+ */
+export interface HistoryRow {
+  /**
+   * Trading date (YYYY-MM-DD) for daily and longer intervals, in the exchange's
+   * time zone when adjTimezone is set. UTC instant for intraday intervals.
+   */
+  date: string | Date;
+  /** Exchange-local timestamp (ISO 8601 with UTC offset), intraday only */
+  localDate?: string;
+  open: number | null;
+  high: number | null;
+  low: number | null;
+  close: number | null;
+  volume: number | null;
+  adjclose?: number | null;
+  dividends?: number;
+  splits?: number;
+  /** Trading session of an intraday bar */
+  session?: TradingSession;
+}
+
+export type TradingSession = 'pre' | 'regular' | 'post';
+
+export interface RiskParams extends HistoryParams {
+  /** Benchmark symbol for beta and alpha (default: ^GSPC) */
+  benchmark?: string;
+  /** Annual risk-free rate as a fraction (default: 0) */
+  riskFreeRate?: number;
+  /** Rolling window in bars; adds rolling metrics when set */
+  window?: number;
+  /** Value-at-risk confidence level (default: 0.95) */
+  confidence?: number;
+  /** Value-at-risk method (default: historical) */
+  varMethod?: 'historical' | 'parametric';
+}
+
+export interface PanelParams extends HistoryParams {
+  /** Column to tabulate (default: adjclose, or close for series without it) */
+  field?: 'open' | 'high' | 'low' | 'close' | 'adjclose' | 'volume';
+  /** Gap policy: forward-fill, drop incomplete dates, or leave null (default: ffill) */
+  gaps?: 'ffill' | 'drop' | 'null';
+}
+
+export interface CorrelationParams extends PanelParams {
+  /** Correlate returns rather than price levels (default: true) */
+  returns?: boolean;
+  /** Rolling window in observations; adds rolling correlation when set */
+  window?: number;
 }
 
 export interface FinancialStatementOptions {
@@ -109,7 +167,154 @@ export interface FinancialStatementOptions {
   trailing?: boolean;
 }
 
+/**
+ * An option contract from Ticker.getOptionChain, tagged with its expiration and type
+ */
+export interface OptionContractRow extends Omit<OptionContract, 'expiration'> {
+  expiration: Date;
+  optionType: 'call' | 'put';
+  /** Model Greeks (Ticker.getOptionGreeks); null when no volatility fits the price */
+  greeks?: OptionGreeks | null;
+}
+
+/**
+ * Sensitivities of an option's value, at the implied volatility solved from its price
+ */
+export interface OptionGreeks {
+  impliedVolatility: number;
+  delta: number;
+  gamma: number;
+  /** Value change per calendar day */
+  theta: number;
+  /** Value change per volatility point (0.01) */
+  vega: number;
+  /** Value change per rate point (0.01) */
+  rho: number;
+}
+
+/**
+ * A call and put at the same strike and expiration
+ */
+export interface OptionStraddleRow {
+  expiration: Date;
+  strike: number;
+  call: OptionContractRow | null;
+  put: OptionContractRow | null;
+}
+
+/**
+ * A symbol's option chain with contracts from every requested expiration
+ */
+export interface OptionChainResult {
+  calls: OptionContractRow[];
+  puts: OptionContractRow[];
+  underlyingSymbol?: string;
+  /** Last price of the underlying */
+  underlyingPrice?: number;
+  /** Trailing annual dividend yield of the underlying, as a fraction */
+  dividendYield?: number;
+  expirationDates?: number[];
+  strikes?: number[];
+  /** Calls and puts paired by strike (straddle only) */
+  straddles?: OptionStraddleRow[];
+}
+
+export interface OptionChainParams {
+  /** Expiration to fetch (YYYY-MM-DD, Date or epoch seconds); all expirations when omitted */
+  expiration?: string | Date | number;
+  /** Several expirations to fetch */
+  expirations?: Array<string | Date | number>;
+  strikeMin?: number;
+  strikeMax?: number;
+  /** Keep strikes within this fraction of the underlying price, e.g. 0.1 for ±10% */
+  moneyness?: number;
+  /** Also pair calls and puts by strike */
+  straddle?: boolean;
+}
+
+export interface OptionAnalyticsParams extends OptionChainParams {
+  /** Number of unusual contracts to return (default: 10) */
+  unusualLimit?: number;
+  /** Minimum volume for a contract to count as unusual (default: 100) */
+  minVolume?: number;
+}
+
+export interface OptionGreeksParams extends OptionChainParams {
+  /** Annual risk-free rate as a fraction (default: latest ^IRX yield) */
+  riskFreeRate?: number;
+  /** Annual dividend yield as a fraction (default: the underlying's trailing yield) */
+  dividendYield?: number;
+  /** Exercise style (default: american, priced with Barone-Adesi-Whaley) */
+  style?: 'american' | 'european';
+}
+
+export interface VolatilitySurfaceParams extends OptionGreeksParams {
+  /** Constant-maturity tenors in calendar days (default: [30, 60]) */
+  tenors?: number[];
+}
+
+/**
+ * ESG risk scores for one month of Ticker.getEsgChart
+ */
+export interface EsgChartRow {
+  /** Month the scores were published (YYYY-MM-DD) */
+  date: string;
+  esgScore: number | null;
+  environmentScore: number | null;
+  socialScore: number | null;
+  governanceScore: number | null;
+}
+
+/**
+ * Historical ESG scores for a symbol and the average of its peer group
+ */
+export interface EsgChart {
+  symbol: string;
+  peerGroup: string | null;
+  series: EsgChartRow[];
+  peerSeries: EsgChartRow[];
+}
+
+export type TradingHorizon = 'short' | 'intermediate' | 'long';
+
+/**
+ * Parameters for Ticker.getTechnicalEvents
+ */
+export interface TechnicalEventsParams {
+  /** Trading horizons to include: short, intermediate, long (default: all) */
+  horizons?: TradingHorizon | TradingHorizon[];
+  /** Maximum number of events per symbol */
+  size?: number;
+}
+
+/**
+ * A chart pattern or indicator event detected by Trading Central
+ */
+export interface TechnicalEventRow {
+  /** Pattern or indicator name, e.g. Double Bottom */
+  pattern: string | null;
+  direction: 'bullish' | 'bearish' | 'neutral' | null;
+  horizon: TradingHorizon | null;
+  /** Date of the event (YYYY-MM-DD) */
+  date: string | null;
+  /** Price target implied by the pattern */
+  target: number | null;
+}
+
+/**
+ * One reporting period of a financial statement, with a column per line item
+ * (prefix stripped, e.g. TotalRevenue)
+ */
+export interface FinancialStatementRow {
+  asOfDate: string;
+  /** Reporting period: 12M (annual), 3M (quarterly), 1M (monthly) or TTM */
+  periodType: string;
+  currencyCode: string | null;
+  [lineItem: string]: string | number | null;
+}
+
 // Data types returned from API
-export type HistoryData = Record<string, unknown>;
-export type FinancialsData = Record<string, unknown>;
-export type OptionChainData = Record<string, unknown>;
+export type HistoryData = SymbolResult<HistoryRow[]>;
+export type FinancialsData = SymbolResult<FinancialStatementRow[]>;
+export type TimeSeriesData = SymbolResult<TimeSeries[]>;
+export type OptionChainData = SymbolResult<OptionChainResult>;
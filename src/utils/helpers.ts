@@ -2,6 +2,10 @@
  * Utility helper functions for yfinance-mcp-ts
  */
 
+import * as cheerio from 'cheerio';
+import { DateTime } from 'luxon';
+import { SymbolError } from '../types';
+
 /**
  * Flatten nested arrays into a single array
  */
@@ -74,6 +78,37 @@ export function formatDate(timestamp: number): string {
   }
 }
 
+/**
+ * Format Unix timestamp to date string (YYYY-MM-DD) in an IANA time zone
+ * Falls back to UTC when the zone is unknown
+ */
+export function formatDateInZone(timestamp: number, timeZone: string): string {
+  const dt = DateTime.fromSeconds(timestamp, { zone: timeZone });
+  return dt.isValid ? dt.toISODate() ?? formatDate(timestamp) : formatDate(timestamp);
+}
+
+/**
+ * Format Unix timestamp to ISO 8601 datetime with the zone's UTC offset
+ * (e.g. 2024-01-02T09:30:00.000-05:00). Falls back to UTC when the zone is unknown
+ */
+export function formatDateTimeInZone(timestamp: number, timeZone: string): string {
+  const dt = DateTime.fromSeconds(timestamp, { zone: timeZone });
+  const iso = dt.isValid ? dt.toISO() : null;
+  return iso ?? new Date(timestamp * 1000).toISOString();
+}
+
+/**
+ * Seconds elapsed since local midnight in an IANA time zone for a Unix timestamp.
+ * Falls back to UTC when the zone is unknown
+ */
+export function secondsSinceMidnightInZone(timestamp: number, timeZone: string): number {
+  let dt = DateTime.fromSeconds(timestamp, { zone: timeZone });
+  if (!dt.isValid) {
+    dt = DateTime.fromSeconds(timestamp, { zone: 'utc' });
+  }
+  return dt.hour * 3600 + dt.minute * 60 + dt.second;
+}
+
 /**
  * Check if a value is a plain object
  */
@@ -86,6 +121,13 @@ export function isPlainObject(value: unknown): value is Record<string, unknown>
   );
 }
 
+/**
+ * Check if a per-symbol Ticker result is an error rather than data
+ */
+export function isSymbolError(value: unknown): value is SymbolError {
+  return typeof value === 'string' || (isPlainObject(value) && typeof value.error === 'string');
+}
+
 /**
  * Deep clone an object
  */
@@ -118,6 +160,88 @@ export function chunkArray<T>(array: T[], size: number): T[][] {
   return chunks;
 }
 
+/**
+ * A time range expressed as Unix timestamps (seconds)
+ */
+export interface TimeWindow {
+  start: number;
+  end: number;
+}
+
+/**
+ * Split a time range into consecutive windows no longer than maxSpan seconds
+ */
+export function splitTimeWindows(start: number, end: number, maxSpan: number): TimeWindow[] {
+  const windows: TimeWindow[] = [];
+  for (let windowStart = start; windowStart < end; windowStart += maxSpan) {
+    windows.push({ start: windowStart, end: Math.min(windowStart + maxSpan, end) });
+  }
+  return windows;
+}
+
+/**
+ * Convert a chart range (e.g. '5d', '3mo', '2y', 'ytd', 'max') to the Unix
+ * timestamp (seconds) it starts at, relative to now. Returns null for 'max'.
+ */
+export function periodToTimestamp(period: string, now: Date = new Date()): number | null {
+  const normalized = period.toLowerCase();
+  const start = new Date(now);
+
+  if (normalized === 'max') {
+    return null;
+  }
+
+  if (normalized === 'ytd') {
+    return Math.floor(Date.UTC(now.getUTCFullYear(), 0, 1) / 1000);
+  }
+
+  const match = normalized.match(/^(\d+)(d|wk|mo|y)$/);
+  if (!match) {
+    throw new Error(`Invalid period: ${period}`);
+  }
+
+  const amount = parseInt(match[1], 10);
+  switch (match[2]) {
+    case 'd':
+      start.setUTCDate(start.getUTCDate() - amount);
+      break;
+    case 'wk':
+      start.setUTCDate(start.getUTCDate() - amount * 7);
+      break;
+    case 'mo':
+      start.setUTCMonth(start.getUTCMonth() - amount);
+      break;
+    case 'y':
+      start.setUTCFullYear(start.getUTCFullYear() - amount);
+      break;
+  }
+
+  return Math.floor(start.getTime() / 1000);
+}
+
+/**
+ * Map over items with at most `limit` promises in flight, preserving order
+ */
+export async function mapConcurrent<T, R>(
+  items: T[],
+  limit: number,
+  fn: (item: T, index: number) => Promise<R>
+): Promise<R[]> {
+  const results: R[] = new Array(items.length);
+  let next = 0;
+
+  const worker = async (): Promise<void> => {
+    while (next < items.length) {
+      const index = next++;
+      results[index] = await fn(items[index], index);
+    }
+  };
+
+  const workers = Array.from({ length: Math.min(Math.max(limit, 1), items.length) }, worker);
+  await Promise.all(workers);
+  return results;
+}
+
 /**
  * Sleep for a specified number of milliseconds
  */
@@ -488,3 +612,23 @@ export function stringifyBooleans<T extends Record<string, unknown>>(obj: T): T
   }
   return result as T;
 }
+
+/**
+ * Convert an HTML fragment to plain text, keeping paragraph and line breaks
+ */
+export function htmlToText(html: string): string {
+  const $ = cheerio.load(html);
+  $('script, style').remove();
+  $('br').replaceWith('\n');
+  $('p, div, li, tr, h1, h2, h3, h4, h5, h6').each((_, element) => {
+    $(element).append('\n');
+  });
+
+  return $.root()
+    .text()
+    .split('\n')
+    .map((line) => line.replace(/\s+/g, ' ').trim())
+    .join('\n')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim();
+}
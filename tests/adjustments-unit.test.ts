@@ -0,0 +1,101 @@
+/**
+ * Split/Dividend Adjustment Unit Tests
+ */
+
+import { adjustBars, adjustHistory, getAdjustmentFactors } from '../src/analysis/adjustments';
+import { HistoryRow } from '../src/types';
+
+function bar(close: number, extra: Partial<HistoryRow> = {}): HistoryRow {
+  return {
+    date: '2024-01-01',
+    open: close,
+    high: close,
+    low: close,
+    close,
+    volume: 1000,
+    dividends: 0,
+    splits: 0,
+    ...extra,
+  };
+}
+
+// Unadjusted prices: 2:1 split on the third bar, $1 dividend on the fourth
+const rows: HistoryRow[] = [
+  bar(100),
+  bar(102),
+  bar(51, { splits: 2 }),
+  bar(50, { dividends: 1 }),
+];
+
+describe('Adjustments', () => {
+  describe('getAdjustmentFactors', () => {
+    test('should apply events to every earlier bar', () => {
+      const factors = getAdjustmentFactors(rows, false);
+      expect(factors.split).toEqual([0.5, 0.5, 1, 1]);
+      expect(factors.dividend[3]).toBe(1);
+      for (const factor of factors.dividend.slice(0, 3)) {
+        expect(factor).toBeCloseTo(50 / 51);
+      }
+    });
+
+    test('should ignore splits for split-adjusted input by default', () => {
+      const factors = getAdjustmentFactors(rows);
+      expect(factors.split).toEqual([1, 1, 1, 1]);
+    });
+  });
+
+  describe('adjustBars', () => {
+    test('split mode should rescale prices and volume', () => {
+      const adjusted = adjustBars(rows, { mode: 'split', splitAdjusted: false });
+      expect(adjusted.map((row) => row.close)).toEqual([50, 51, 51, 50]);
+      expect(adjusted.map((row) => row.volume)).toEqual([2000, 2000, 1000, 1000]);
+    });
+
+    test('all mode should anchor to the latest bar', () => {
+      const adjusted = adjustBars(rows, { splitAdjusted: false });
+      expect(adjusted[3].close).toBe(50);
+      expect(adjusted[2].close).toBeCloseTo(50);
+      expect(adjusted[0].close).toBeCloseTo(50 * 50 / 51);
+      expect(adjusted[0].volume).toBe(2000);
+    });
+
+    test('totalReturn mode should anchor to the first bar', () => {
+      const adjusted = adjustBars(rows, { mode: 'totalReturn', splitAdjusted: false });
+      expect(adjusted[0].close).toBeCloseTo(50);
+      expect(adjusted[3].close).toBeCloseTo(51);
+    });
+
+    test('should not reapply splits to getHistory bars by default', () => {
+      // getHistory bars are split-adjusted but still carry the split event
+      const adjusted = adjustBars([
+        bar(50, { volume: 2000 }),
+        bar(51, { volume: 2000 }),
+        bar(51, { splits: 2 }),
+        bar(50, { dividends: 1 }),
+      ]);
+      expect(adjusted[0].close).toBeCloseTo(50 * 50 / 51);
+      expect(adjusted[2].close).toBeCloseTo(50);
+      expect(adjusted.map((row) => row.volume)).toEqual([2000, 2000, 1000, 1000]);
+    });
+
+    test('should keep null prices and drop adjclose', () => {
+      const adjusted = adjustBars([
+        bar(10, { adjclose: 9 }),
+        bar(10, { close: null, open: null }),
+        bar(10, { dividends: 0.5 }),
+      ]);
+      expect(adjusted[1].close).toBeNull();
+      expect(adjusted[1].open).toBeNull();
+      expect(adjusted[0].close).toBeCloseTo(9.5);
+      expect('adjclose' in adjusted[0]).toBe(false);
+    });
+  });
+
+  describe('adjustHistory', () => {
+    test('should adjust each symbol and pass through errors', () => {
+      const result = adjustHistory({ AAPL: rows, BAD: 'No data found' }, { mode: 'split', splitAdjusted: false });
+      expect((result.AAPL as HistoryRow[])[0].close).toBe(50);
+      expect(result.BAD).toBe('No data found');
+    });
+  });
+});
@@ -0,0 +1,176 @@
+/**
+ * Exchange Calendar Unit Tests
+ */
+
+import {
+  calendarFromMeta,
+  findMissingBars,
+  getMarketClock,
+  getTradingDays,
+  isTradingDay,
+  resolveCalendar,
+} from '../src/analysis/calendar';
+import { HistoryMeta, HistoryRow } from '../src/types';
+
+function bar(date: string | Date, close: number | null = 10): HistoryRow {
+  return { date, open: close, high: close, low: close, close, volume: 100 };
+}
+
+describe('Exchange Calendar', () => {
+  describe('resolveCalendar', () => {
+    test('should resolve by key, exchange code and time zone', () => {
+      expect(resolveCalendar('US').key).toBe('US');
+      expect(resolveCalendar('NMS').key).toBe('US');
+      expect(resolveCalendar('Asia/Tokyo').key).toBe('JPX');
+      expect(resolveCalendar({ exchangeName: 'GER', exchangeTimezoneName: 'Europe/Berlin' }).key).toBe('XETRA');
+    });
+
+    test('should throw for an unknown exchange name', () => {
+      expect(() => resolveCalendar('NOPE')).toThrow('Unknown exchange: NOPE');
+    });
+
+    test('should build a calendar from meta for unlisted exchanges', () => {
+      // TSX, 09:30-16:00 America/Toronto on 2025-03-10 (EDT)
+      const meta: HistoryMeta = {
+        exchangeName: 'TOR',
+        exchangeTimezoneName: 'America/Toronto',
+        currentTradingPeriod: {
+          regular: { start: 1741613400, end: 1741636800 },
+        },
+      };
+
+      const calendar = resolveCalendar(meta);
+
+      expect(calendar).toEqual(calendarFromMeta(meta));
+      expect(calendar.key).toBe('TOR');
+      expect(calendar.open).toBe('09:30');
+      expect(calendar.close).toBe('16:00');
+      expect(calendar.holidays).toEqual({});
+    });
+  });
+
+  describe('trading days', () => {
+    const us = resolveCalendar('US');
+
+    test('should skip weekends and holidays', () => {
+      expect(isTradingDay(us, '2025-07-04')).toBe(false);
+      expect(isTradingDay(us, '2025-07-05')).toBe(false);
+      expect(isTradingDay(us, '2025-07-07')).toBe(true);
+    });
+
+    test('should list trading days in a range', () => {
+      expect(getTradingDays(us, '2025-12-22', '2025-12-31')).toEqual([
+        '2025-12-22',
+        '2025-12-23',
+        '2025-12-24',
+        '2025-12-26',
+        '2025-12-29',
+        '2025-12-30',
+        '2025-12-31',
+      ]);
+    });
+  });
+
+  describe('getMarketClock', () => {
+    const us = resolveCalendar('US');
+
+    test('should report the regular session with the next close', () => {
+      // 10:00 New York, the day after the DST change
+      const clock = getMarketClock(us, new Date('2025-03-10T14:00:00Z'));
+
+      expect(clock.isOpen).toBe(true);
+      expect(clock.session).toBe('regular');
+      expect(clock.nextClose).toBe('2025-03-10T16:00:00.000-04:00');
+      expect(clock.nextOpen).toBe('2025-03-11T09:30:00.000-04:00');
+      expect(clock.holidayDataAvailable).toBe(true);
+    });
+
+    test('should report pre-market before the open', () => {
+      const clock = getMarketClock(us, new Date('2025-03-10T12:00:00Z'));
+
+      expect(clock.isOpen).toBe(false);
+      expect(clock.session).toBe('pre');
+      expect(clock.nextOpen).toBe('2025-03-10T09:30:00.000-04:00');
+    });
+
+    test('should report holidays and the next open after them', () => {
+      const clock = getMarketClock(us, new Date('2025-07-04T15:00:00Z'));
+
+      expect(clock.isOpen).toBe(false);
+      expect(clock.isTradingDay).toBe(false);
+      expect(clock.holiday).toBe('Independence Day');
+      expect(clock.nextOpen).toBe('2025-07-07T09:30:00.000-04:00');
+      expect(clock.nextClose).toBe('2025-07-07T16:00:00.000-04:00');
+    });
+
+    test('should close early on early-close days', () => {
+      // 13:30 New York on the day after Thanksgiving
+      const clock = getMarketClock(us, new Date('2025-11-28T18:30:00Z'));
+
+      expect(clock.isOpen).toBe(false);
+      expect(clock.isEarlyClose).toBe(true);
+      expect(clock.nextOpen).toBe('2025-12-01T09:30:00.000-05:00');
+    });
+
+    test('should report the lunch break', () => {
+      // 12:00 Tokyo
+      const clock = getMarketClock(resolveCalendar('JPX'), new Date('2025-03-10T03:00:00Z'));
+
+      expect(clock.session).toBe('break');
+      expect(clock.isOpen).toBe(false);
+      expect(clock.nextOpen).toBe('2025-03-10T12:30:00.000+09:00');
+      expect(clock.nextClose).toBe('2025-03-10T15:30:00.000+09:00');
+    });
+
+    test('should prefer currentTradingPeriod for the day it covers', () => {
+      // Unscheduled 13:00 close on 2025-03-10
+      const meta: HistoryMeta = {
+        currentTradingPeriod: {
+          regular: { start: 1741613400, end: 1741626000 },
+        },
+      };
+
+      const clock = getMarketClock(us, new Date('2025-03-10T17:30:00Z'), meta);
+
+      expect(clock.isOpen).toBe(false);
+      expect(clock.session).toBe('post');
+      expect(clock.nextOpen).toBe('2025-03-11T09:30:00.000-04:00');
+    });
+
+    test('should flag years without holiday data', () => {
+      const clock = getMarketClock(us, new Date('2031-03-10T14:00:00Z'));
+
+      expect(clock.holidayDataAvailable).toBe(false);
+    });
+  });
+
+  describe('findMissingBars', () => {
+    const us = resolveCalendar('US');
+
+    test('should report missing trading days, ignoring holidays', () => {
+      // 2025-01-09 was a market closure
+      const rows = ['2025-01-06', '2025-01-07', '2025-01-10'].map((date) => bar(date));
+
+      expect(findMissingBars(rows, us, '1d')).toEqual(['2025-01-08']);
+    });
+
+    test('should report missing intraday slots and bars without a close', () => {
+      // 30m bars 09:30-15:30 New York on 2025-03-10, 11:00 absent, 12:00 empty
+      const rows: HistoryRow[] = [];
+      for (let i = 0; i < 13; i++) {
+        const time = new Date(Date.UTC(2025, 2, 10, 13, 30 + i * 30));
+        if (i === 3) continue;
+        rows.push(bar(time, i === 5 ? null : 10));
+      }
+
+      expect(findMissingBars(rows, us, '30m')).toEqual([
+        '2025-03-10T11:00:00.000-04:00',
+        '2025-03-10T12:00:00.000-04:00',
+      ]);
+    });
+
+    test('should ignore intervals that are not checked', () => {
+      expect(findMissingBars([bar('2025-01-06'), bar('2025-01-20')], us, '1wk')).toEqual([]);
+    });
+  });
+});
@@ -0,0 +1,87 @@
+/**
+ * Option Chain Analytics Unit Tests
+ */
+
+import { computeOptionAnalytics, expectedMove, maxPain, unusualContracts } from '../src/analysis/chain';
+import { OptionChainResult, OptionContractRow } from '../src/types';
+
+const JAN = new Date('2024-01-19T00:00:00Z');
+const FEB = new Date('2024-02-16T00:00:00Z');
+
+function contract(
+  optionType: 'call' | 'put',
+  strike: number,
+  fields: Partial<OptionContractRow> = {},
+  expiration = JAN
+): OptionContractRow {
+  return { optionType, strike, expiration, ...fields };
+}
+
+describe('Option Chain Analytics', () => {
+  test('maxPain should minimize the payout to option holders', () => {
+    const calls = [contract('call', 90, { openInterest: 100 }), contract('call', 100, { openInterest: 500 })];
+    const puts = [contract('put', 100, { openInterest: 100 }), contract('put', 110, { openInterest: 1000 })];
+
+    // Payouts: 90 -> 1000*20 + 100*10 = 21000; 100 -> 100*10 + 1000*10 = 11000; 110 -> 100*20 + 500*10 = 7000
+    expect(maxPain(calls, puts)).toBe(110);
+    expect(maxPain([contract('call', 100)], [])).toBeNull();
+  });
+
+  test('expectedMove should use the straddle nearest the underlying price', () => {
+    const calls = [contract('call', 95, { bid: 7, ask: 8 }), contract('call', 100, { bid: 4, ask: 4.4 })];
+    const puts = [contract('put', 95, { bid: 2, ask: 2.2 }), contract('put', 100, { lastPrice: 3.8 })];
+
+    const move = expectedMove(calls, puts, 101);
+
+    expect(move?.strike).toBe(100);
+    expect(move?.straddlePrice).toBeCloseTo(8);
+    expect(move?.movePercent).toBeCloseTo(8 / 101);
+    expect(move?.lower).toBeCloseTo(93);
+    expect(expectedMove(calls, puts, null)).toBeNull();
+  });
+
+  test('unusualContracts should rank volume against open interest', () => {
+    const ranked = unusualContracts([
+      contract('call', 100, { volume: 500, openInterest: 1000 }),
+      contract('put', 90, { volume: 2000, openInterest: 100, contractSymbol: 'AAPL240119P00090000' }),
+      contract('call', 120, { volume: 300, openInterest: 0 }),
+      contract('call', 130, { volume: 50, openInterest: 1 }),
+    ], { unusualLimit: 2 });
+
+    expect(ranked.map((row) => row.strike)).toEqual([120, 90]);
+    expect(ranked[0].volumeToOpenInterest).toBe(300);
+    expect(ranked[1]).toMatchObject({ contractSymbol: 'AAPL240119P00090000', expiration: '2024-01-19', optionType: 'put' });
+  });
+
+  test('computeOptionAnalytics should summarize each expiration and the chain', () => {
+    const chain: OptionChainResult = {
+      underlyingSymbol: 'AAPL',
+      underlyingPrice: 100,
+      calls: [
+        contract('call', 100, { volume: 200, openInterest: 400, bid: 3, ask: 3.2 }),
+        contract('call', 105, { volume: 100, openInterest: 100 }),
+        contract('call', 100, { volume: 50, openInterest: 300 }, FEB),
+      ],
+      puts: [
+        contract('put', 100, { volume: 150, openInterest: 200, bid: 2.8, ask: 3 }),
+        contract('put', 95, { volume: 150, openInterest: 100 }, FEB),
+      ],
+    };
+
+    const analytics = computeOptionAnalytics(chain);
+
+    expect(analytics.expirations.map((row) => row.expiration)).toEqual(['2024-01-19', '2024-02-16']);
+    expect(analytics.putCallVolumeRatio).toBeCloseTo(300 / 350);
+    expect(analytics.putCallOpenInterestRatio).toBeCloseTo(300 / 800);
+
+    const [jan, feb] = analytics.expirations;
+    expect(jan.putCallVolumeRatio).toBeCloseTo(0.5);
+    expect(jan.expectedMove?.straddlePrice).toBeCloseTo(6);
+    expect(jan.strikes).toEqual([
+      { strike: 100, callOpenInterest: 400, putOpenInterest: 200, callVolume: 200, putVolume: 150 },
+      { strike: 105, callOpenInterest: 100, putOpenInterest: 0, callVolume: 100, putVolume: 0 },
+    ]);
+    expect(feb.expectedMove).toBeNull();
+    expect(analytics.unusual[0].strike).toBe(95);
+  });
+});
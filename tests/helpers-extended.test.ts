@@ -11,6 +11,7 @@ import {
   chunkArray,
   stringifyBooleans,
   isPlainObject,
+  isSymbolError,
   deepClone,
   sleep,
   retry,
@@ -18,6 +19,12 @@ import {
   parseBoolean,
   keysToLowerCase,
   removeNullish,
+  formatDateInZone,
+  formatDateTimeInZone,
+  splitTimeWindows,
+  periodToTimestamp,
+  mapConcurrent,
+  htmlToText,
 } from '../src/utils/helpers';
 
 describe('Helpers - Extended Coverage', () => {
@@ -277,4 +284,104 @@ describe('Helpers - Extended Coverage', () => {
       expect(result.a).toEqual({ nested: null }); // nested nulls are preserved
     });
   });
+
+  describe('time zone formatting', () => {
+    test('formatDateInZone should use the zone calendar date', () => {
+      // 2024-01-03T15:00:00Z is already 2024-01-04 in Tokyo and Sydney
+      expect(formatDateInZone(1704294000, 'Asia/Tokyo')).toBe('2024-01-04');
+      expect(formatDateInZone(1704294000, 'Australia/Sydney')).toBe('2024-01-04');
+      expect(formatDateInZone(1704294000, 'America/New_York')).toBe('2024-01-03');
+    });
+
+    test('formatDateInZone should fall back to UTC for unknown zones', () => {
+      expect(formatDateInZone(1704294000, 'Not/AZone')).toBe('2024-01-03');
+    });
+
+    test('formatDateTimeInZone should include the UTC offset', () => {
+      expect(formatDateTimeInZone(1704205800, 'America/New_York')).toBe('2024-01-02T09:30:00.000-05:00');
+      expect(formatDateTimeInZone(1704205800, 'Not/AZone')).toBe('2024-01-02T14:30:00.000Z');
+    });
+  });
+
+  describe('splitTimeWindows', () => {
+    test('should split a range into bounded windows', () => {
+      expect(splitTimeWindows(0, 25, 10)).toEqual([
+        { start: 0, end: 10 },
+        { start: 10, end: 20 },
+        { start: 20, end: 25 },
+      ]);
+    });
+
+    test('should return no windows for an empty range', () => {
+      expect(splitTimeWindows(10, 10, 5)).toEqual([]);
+    });
+  });
+
+  describe('periodToTimestamp', () => {
+    const now = new Date('2024-03-15T12:00:00Z');
+
+    test('should handle day, week, month and year periods', () => {
+      expect(periodToTimestamp('5d', now)).toBe(Date.parse('2024-03-10T12:00:00Z') / 1000);
+      expect(periodToTimestamp('1wk', now)).toBe(Date.parse('2024-03-08T12:00:00Z') / 1000);
+      expect(periodToTimestamp('3mo', now)).toBe(Date.parse('2023-12-15T12:00:00Z') / 1000);
+      expect(periodToTimestamp('2y', now)).toBe(Date.parse('2022-03-15T12:00:00Z') / 1000);
+    });
+
+    test('should handle ytd and max', () => {
+      expect(periodToTimestamp('ytd', now)).toBe(Date.parse('2024-01-01T00:00:00Z') / 1000);
+      expect(periodToTimestamp('max', now)).toBeNull();
+    });
+
+    test('should throw for unknown periods', () => {
+      expect(() => periodToTimestamp('forever', now)).toThrow('Invalid period');
+    });
+  });
+
+  describe('mapConcurrent', () => {
+    test('should preserve order and bound concurrency', async () => {
+      let active = 0;
+      let peak = 0;
+
+      const results = await mapConcurrent([30, 10, 20, 5], 2, async (ms, index) => {
+        active++;
+        peak = Math.max(peak, active);
+        await sleep(ms);
+        active--;
+        return index;
+      });
+
+      expect(results).toEqual([0, 1, 2, 3]);
+      expect(peak).toBe(2);
+    });
+
+    test('should handle an empty list', async () => {
+      await expect(mapConcurrent([], 3, async () => 1)).resolves.toEqual([]);
+    });
+  });
+
+  describe('htmlToText', () => {
+    test('should keep paragraphs and line breaks and drop markup', () => {
+      const html = '<h2>Summary</h2><p>We  maintain <b>BUY</b>.<br>Target $200.</p><ul><li>Growth</li><li>Margins</li></ul><script>x()</script>';
+
+      expect(htmlToText(html)).toBe('Summary\nWe maintain BUY.\nTarget $200.\nGrowth\nMargins');
+    });
+
+    test('should decode entities and return plain text unchanged', () => {
+      expect(htmlToText('AT&amp;T &gt; peers')).toBe('AT&T > peers');
+      expect(htmlToText('No markup')).toBe('No markup');
+    });
+  });
+
+  describe('isSymbolError', () => {
+    test('should detect error messages and error objects', () => {
+      expect(isSymbolError('Quote not found for symbol: XYZ')).toBe(true);
+      expect(isSymbolError({ error: 'No data found' })).toBe(true);
+    });
+
+    test('should not flag data', () => {
+      expect(isSymbolError({ regularMarketPrice: 150 })).toBe(false);
+      expect(isSymbolError([])).toBe(false);
+      expect(isSymbolError(undefined)).toBe(false);
+    });
+  });
 });
@@ -0,0 +1,224 @@
+/**
+ * Technical Indicator Unit Tests
+ */
+
+import {
+  addHistoryIndicators,
+  addIndicators,
+  adx,
+  atr,
+  bollingerBands,
+  ema,
+  macd,
+  obv,
+  parseIndicators,
+  rsi,
+  sma,
+  stochastic,
+  vwap,
+  wma,
+} from '../src/analysis/indicators';
+import { HistoryRow } from '../src/types';
+
+function bar(close: number | null, extra: Partial<HistoryRow> = {}): HistoryRow {
+  return {
+    date: '2024-01-01',
+    open: close,
+    high: close === null ? null : close + 1,
+    low: close === null ? null : close - 1,
+    close,
+    volume: 100,
+    ...extra,
+  };
+}
+
+describe('Technical Indicators', () => {
+  describe('moving averages', () => {
+    test('sma should average the trailing window', () => {
+      expect(sma([1, 2, 3, 4, 5], 3)).toEqual([null, null, 2, 3, 4]);
+    });
+
+    test('ema should seed with the SMA and then smooth', () => {
+      expect(ema([1, 2, 3, 4, 5], 3)).toEqual([null, null, 2, 3, 4]);
+    });
+
+    test('wma should weight recent values more', () => {
+      const result = wma([1, 2, 3], 3);
+      expect(result[2]).toBeCloseTo(14 / 6);
+    });
+
+    test('should skip null values without breaking the window', () => {
+      expect(sma([1, null, 2, 3], 2)).toEqual([null, null, 1.5, 2.5]);
+    });
+  });
+
+  describe('oscillators', () => {
+    test('rsi should use Wilder smoothing', () => {
+      expect(rsi([1, 2, 1, 2], 2)).toEqual([null, null, 50, 75]);
+    });
+
+    test('rsi should be 100 when prices only rise', () => {
+      const result = rsi([1, 2, 3, 4, 5, 6], 3);
+      expect(result.slice(3)).toEqual([100, 100, 100]);
+    });
+
+    test('macd should start once the slow EMA and signal are warmed up', () => {
+      const values = Array.from({ length: 40 }, (_, i) => i + 1);
+      const result = macd(values);
+
+      expect(result.macd[24]).toBeNull();
+      expect(result.macd[25]).not.toBeNull();
+      expect(result.signal[32]).toBeNull();
+      expect(result.signal[33]).not.toBeNull();
+      expect(result.histogram[33]).toBeCloseTo((result.macd[33] as number) - (result.signal[33] as number));
+    });
+
+    test('stochastic %K should be 100 when closing at the high', () => {
+      const rows = [1, 2, 3, 4].map((close) => bar(close, { high: close }));
+      const result = stochastic(rows, 2, 2);
+
+      expect(result.k).toEqual([null, 100, 100, 100]);
+      expect(result.d).toEqual([null, null, 100, 100]);
+    });
+  });
+
+  describe('volatility and volume', () => {
+    test('bollinger bands should use population standard deviation', () => {
+      const result = bollingerBands([1, 2, 3], 3, 2);
+
+      expect(result.middle[2]).toBe(2);
+      expect(result.upper[2]).toBeCloseTo(2 + 2 * Math.sqrt(2 / 3));
+      expect(result.lower[2]).toBeCloseTo(2 - 2 * Math.sqrt(2 / 3));
+    });
+
+    test('atr should average the true range', () => {
+      const rows = [10, 10, 10, 10].map((close) => bar(close));
+      expect(atr(rows, 3)).toEqual([null, null, 2, 2]);
+    });
+
+    test('atr should skip bars without a range', () => {
+      const rows = [bar(10), bar(null), bar(10), bar(10)];
+      expect(atr(rows, 2)).toEqual([null, null, 2, 2]);
+    });
+
+    test('obv should add volume on up bars and subtract on down bars', () => {
+      const rows = [10, 11, 10, 10].map((close, i) => bar(close, { volume: (i + 1) * 100 }));
+      expect(obv(rows)).toEqual([0, 200, -100, -100]);
+    });
+
+    test('vwap should reset each exchange day for intraday bars', () => {
+      const rows = [
+        bar(10, { date: new Date('2024-01-02T14:30:00Z'), localDate: '2024-01-02T09:30:00.000-05:00', volume: 100 }),
+        bar(12, { date: new Date('2024-01-02T14:35:00Z'), localDate: '2024-01-02T09:35:00.000-05:00', volume: 300 }),
+        bar(20, { date: new Date('2024-01-03T14:30:00Z'), localDate: '2024-01-03T09:30:00.000-05:00', volume: 100 }),
+      ];
+
+      expect(vwap(rows)).toEqual([10, 11.5, 20]);
+    });
+  });
+
+  describe('adx', () => {
+    test('should report a strong trend with no opposing movement', () => {
+      const rows = Array.from({ length: 7 }, (_, i) => ({
+        date: '2024-01-01',
+        open: 9 + i,
+        high: 10 + i,
+        low: 8 + i,
+        close: 9 + i,
+        volume: 100,
+      }));
+      const result = adx(rows, 3);
+
+      expect(result.plusDI[2]).toBeNull();
+      expect(result.plusDI[3]).toBeCloseTo(50);
+      expect(result.minusDI[3]).toBe(0);
+      expect(result.adx[4]).toBeNull();
+      expect(result.adx[5]).toBeCloseTo(100);
+    });
+  });
+
+  describe('addIndicators', () => {
+    test('should attach named indicator columns to each row', () => {
+      const rows = [1, 2, 3, 4, 5].map((close) => bar(close));
+      const result = addIndicators(rows, [
+        { name: 'sma', period: 3 },
+        { name: 'rsi', period: 2 },
+        { name: 'bollinger', period: 3 },
+      ]);
+
+      expect(result).toHaveLength(5);
+      expect(result[4].close).toBe(5);
+      expect(Object.keys(result[4].indicators)).toEqual([
+        'sma3', 'rsi2', 'bbUpper3_2', 'bbMiddle3_2', 'bbLower3_2',
+      ]);
+      expect(result[4].indicators.sma3).toBe(4);
+      expect(result[0].indicators.sma3).toBeNull();
+    });
+
+    test('should keep one column set per parameter set', () => {
+      const rows = Array.from({ length: 40 }, (_, i) => bar(10 + Math.sin(i / 3) * 5 + i * 0.1));
+      const result = addIndicators(rows, [
+        { name: 'macd' },
+        { name: 'macd', fast: 5, slow: 10, signal: 3 },
+        { name: 'bollinger', period: 5, stdDev: 1 },
+        { name: 'bollinger', period: 5, stdDev: 2.5 },
+        { name: 'stochastic' },
+        { name: 'stochastic', kPeriod: 5, dPeriod: 2 },
+      ]);
+      const { indicators } = result[39];
+
+      expect(Object.keys(indicators)).toEqual([
+        'macd12_26_9', 'macdSignal12_26_9', 'macdHistogram12_26_9',
+        'macd5_10_3', 'macdSignal5_10_3', 'macdHistogram5_10_3',
+        'bbUpper5_1', 'bbMiddle5_1', 'bbLower5_1',
+        'bbUpper5_2.5', 'bbMiddle5_2.5', 'bbLower5_2.5',
+        'stochK14_3', 'stochD14_3',
+        'stochK5_2', 'stochD5_2',
+      ]);
+      expect(indicators.macd5_10_3).not.toBe(indicators.macd12_26_9);
+      expect(indicators['bbUpper5_2.5']).toBeGreaterThan(indicators.bbUpper5_1 as number);
+    });
+
+    test('should leave null bars null', () => {
+      const rows = [bar(1), bar(null), bar(3), bar(5)];
+      const result = addIndicators(rows, [{ name: 'sma', period: 2 }]);
+
+      expect(result.map((row) => row.indicators.sma2)).toEqual([null, null, 2, 4]);
+    });
+
+    test('should pass symbol errors through', () => {
+      const result = addHistoryIndicators(
+        { AAPL: [bar(1), bar(2)], BAD: 'No data found' },
+        [{ name: 'sma', period: 2 }]
+      );
+
+      expect(result.BAD).toBe('No data found');
+      expect(Array.isArray(result.AAPL)).toBe(true);
+    });
+  });
+
+  describe('parseIndicators', () => {
+    test('should parse names and positional parameters', () => {
+      expect(parseIndicators('sma:50, RSI, macd:5:10:3, bollinger:20:2.5, obv')).toEqual([
+        { name: 'sma', period: 50 },
+        { name: 'rsi', period: undefined },
+        { name: 'macd', fast: 5, slow: 10, signal: 3 },
+        { name: 'bollinger', period: 20, stdDev: 2.5 },
+        { name: 'obv' },
+      ]);
+    });
+
+    test('should reject unknown indicators and bad parameters', () => {
+      expect(() => parseIndicators('foo')).toThrow('Invalid indicator: foo');
+      expect(() => parseIndicators('sma:abc')).toThrow('Invalid indicator parameters: sma:abc');
+    });
+
+    test('should reject fractional window lengths and extra parameters', () => {
+      expect(() => parseIndicators('wma:0.5')).toThrow('Invalid indicator parameters: wma:0.5 (wma period must be a whole number)');
+      expect(() => parseIndicators('macd:12:26.5:9')).toThrow('macd slow must be a whole number');
+      expect(() => parseIndicators('rsi:14:3:9')).toThrow('Too many parameters for rsi: rsi:14:3:9 (expected period)');
+      expect(() => parseIndicators('obv:5')).toThrow('Too many parameters for obv: obv:5 (expected none)');
+      expect(parseIndicators('bollinger:20:2.5')).toEqual([{ name: 'bollinger', period: 20, stdDev: 2.5 }]);
+    });
+  });
+});
@@ -135,6 +135,19 @@ describe('MCP Config', () => {
       options = freshFn3();
       expect(options.retry?.enabled).toBe(false);
     });
+
+    test('should read Premium credentials only when both are set', async () => {
+      process.env[ENV_VARS.USERNAME] = 'user@example.com';
+      delete process.env[ENV_VARS.PASSWORD];
+      let { getSessionOptionsFromEnv: freshFn } = await import('../src/mcp/config');
+      expect(freshFn().username).toBeUndefined();
+
+      jest.resetModules();
+
+      process.env[ENV_VARS.PASSWORD] = 'secret';
+      ({ getSessionOptionsFromEnv: freshFn } = await import('../src/mcp/config'));
+      expect(freshFn()).toMatchObject({ username: 'user@example.com', password: 'secret' });
+    });
   });
 
   describe('getMcpSessionOptions', () => {
@@ -165,6 +178,20 @@ describe('MCP Config', () => {
       mockStderr.mockRestore();
     });
 
+    test('hasPremiumSession should follow the configured credentials', async () => {
+      delete process.env[ENV_VARS.USERNAME];
+      delete process.env[ENV_VARS.PASSWORD];
+      const { hasPremiumSession: withoutLogin } = await import('../src/mcp/config');
+      expect(withoutLogin()).toBe(false);
+
+      jest.resetModules();
+
+      process.env[ENV_VARS.USERNAME] = 'user@example.com';
+      process.env[ENV_VARS.PASSWORD] = 'secret';
+      const { hasPremiumSession: withLogin } = await import('../src/mcp/config');
+      expect(withLogin()).toBe(true);
+    });
+
     test('should not log when no proxies configured', async () => {
       delete process.env[ENV_VARS.PROXY_LIST];
       const mockStderr = jest.spyOn(console, 'error').mockImplementation();
@@ -188,6 +215,8 @@ describe('MCP Config', () => {
       expect(ENV_VARS.RETRY_INITIAL_DELAY).toBe('YFINANCE_RETRY_INITIAL_DELAY');
       expect(ENV_VARS.RETRY_MAX_DELAY).toBe('YFINANCE_RETRY_MAX_DELAY');
       expect(ENV_VARS.TIMEOUT).toBe('YFINANCE_TIMEOUT');
+      expect(ENV_VARS.USERNAME).toBe('YFINANCE_USERNAME');
+      expect(ENV_VARS.PASSWORD).toBe('YFINANCE_PASSWORD');
     });
   });
 });
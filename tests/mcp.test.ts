@@ -5,10 +5,14 @@
 
 import { z } from 'zod';
 
+// Premium login state reported by mocked tickers
+let mockPremiumLogin = true;
+
 // Mock the core modules before importing MCP tools
 jest.mock('../src/core/Ticker', () => ({
   Ticker: jest.fn().mockImplementation((symbols) => ({
     symbols: Array.isArray(symbols) ? symbols : symbols.split(' '),
+    hasPremium: jest.fn().mockImplementation(() => Promise.resolve(mockPremiumLogin)),
     getPrice: jest.fn().mockResolvedValue({
       AAPL: {
         regularMarketPrice: 150.0,
@@ -64,6 +68,13 @@ jest.mock('../src/core/Ticker', () => ({
         cashFlow: { operatingCashFlow: 120000000000 },
       },
     }),
+    getFinancialRatios: jest.fn().mockResolvedValue({
+      AAPL: {
+        periods: [{ asOfDate: '2024-09-30', periodType: '12M', grossMargin: 0.46, netMargin: 0.24 }],
+        cagr: { revenue: 0.08 },
+        cagrYears: 3,
+      },
+    }),
     getOptionChain: jest.fn().mockResolvedValue({
       AAPL: {
         calls: [{ strike: 150, lastPrice: 5.0, volume: 1000 }],
@@ -71,6 +82,45 @@ jest.mock('../src/core/Ticker', () => ({
         expirationDates: ['2024-01-19', '2024-01-26'],
       },
     }),
+    getOptionAnalytics: jest.fn().mockResolvedValue({
+      AAPL: {
+        underlyingPrice: 150,
+        putCallVolumeRatio: 0.8,
+        expirations: [{ expiration: '2024-01-19', maxPain: 150, strikes: [{ strike: 150, callOpenInterest: 10 }] }],
+        unusual: [],
+      },
+    }),
+    getEsgChart: jest.fn().mockResolvedValue({
+      AAPL: {
+        symbol: 'AAPL',
+        peerGroup: 'Technology Hardware',
+        series: [{ date: '2023-09-01', esgScore: 17.2, environmentScore: 0.6, socialScore: 7.6, governanceScore: 9 }],
+        peerSeries: [],
+      },
+    }),
+    getEsgPeerScores: jest.fn().mockResolvedValue({
+      AAPL: { symbol: 'AAPL', peerGroup: 'Technology Hardware' },
+    }),
+    getFairValue: jest.fn().mockResolvedValue({
+      AAPL: { symbol: 'AAPL', price: 180, fairValue: 200, premium: -0.1, classification: 'undervalued', label: 'Undervalued' },
+    }),
+    getValueAnalyzer: jest.fn().mockResolvedValue({
+      AAPL: {
+        symbol: 'AAPL',
+        price: 180,
+        fairValue: 200,
+        premium: -0.1,
+        classification: 'undervalued',
+        label: 'Undervalued',
+        band: { low: 185, fair: 200, high: 215 },
+      },
+    }),
+    getTechnicalEvents: jest.fn().mockResolvedValue({
+      AAPL: [{ pattern: 'Double Bottom', direction: 'bullish', horizon: 'short', date: '2024-01-02', target: 200 }],
+    }),
+    getPremiumInsights: jest.fn().mockResolvedValue({
+      AAPL: { instrumentInfo: { valuation: { description: 'Overvalued' } } },
+    }),
     getKeyStats: jest.fn().mockResolvedValue({
       AAPL: {
         forwardPE: 22.0,
@@ -98,6 +148,16 @@ jest.mock('../src/core/Ticker', () => ({
         },
       },
     }),
+    getMarketStatus: jest.fn().mockResolvedValue({
+      AAPL: {
+        symbol: 'AAPL',
+        exchange: 'US',
+        isOpen: false,
+        session: 'closed',
+        regularMarketPrice: 150.0,
+        isLive: false,
+      },
+    }),
   })),
   createTicker: jest.fn(),
 }));
@@ -184,6 +244,14 @@ import {
   getKeyStats,
   getRecommendations,
   getEarnings,
+  getMarketStatus,
+  getTechnicalIndicators,
+  getFinancialRatios,
+  getOptionAnalytics,
+  getEsg,
+  getFairValue,
+  getTechnicalEvents,
+  getPremiumInsights,
 } from '../src/mcp/tools/ticker';
 
 import {
@@ -212,7 +280,7 @@ import {
 describe('MCP Tools', () => {
   describe('Tool Registration', () => {
     test('should have correct number of ticker tools', () => {
-      expect(tickerTools.length).toBe(9);
+      expect(tickerTools.length).toBe(17);
     });
 
     test('should have correct number of screener tools', () => {
@@ -243,6 +311,11 @@ describe('MCP Tools', () => {
       }
     });
 
+    test('only Premium endpoint tools should be flagged premium', () => {
+      const premiumTools = tickerTools.filter((tool) => tool.premium).map((tool) => tool.name);
+      expect(premiumTools).toEqual(['get_fair_value', 'get_technical_events', 'get_premium_insights']);
+    });
+
     test('tool names should be unique', () => {
       const allTools = [...tickerTools, ...screenerTools, ...researchTools, ...miscTools];
       const names = allTools.map((t) => t.name);
@@ -336,6 +409,30 @@ describe('MCP Tools', () => {
       expect(parsed.AAPL.puts).toBeDefined();
     });
 
+    test('getOptions should pass chain filters to the ticker', async () => {
+      const { Ticker } = require('../src/core/Ticker');
+      const getOptionChain = jest.fn().mockResolvedValue({
+        AAPL: { calls: [{ strike: 150 }], puts: [{ strike: 150 }], straddles: [{ strike: 150 }] },
+      });
+      Ticker.mockImplementationOnce(() => ({ getOptionChain }));
+
+      const result = await getOptions({
+        symbol: 'AAPL',
+        expirations: '2024-01-19, 2024-01-26',
+        moneyness: 0.1,
+        straddle: true,
+      });
+      const parsed = JSON.parse(result);
+
+      expect(getOptionChain).toHaveBeenCalledWith(expect.objectContaining({
+        expirations: ['2024-01-19', '2024-01-26'],
+        moneyness: 0.1,
+        straddle: true,
+      }));
+      expect(parsed.AAPL.calls).toEqual([]);
+      expect(parsed.AAPL.straddles).toHaveLength(1);
+    });
+
     test('getKeyStats should return key statistics', async () => {
       const result = await getKeyStats({ symbols: 'AAPL' });
       const parsed = JSON.parse(result);
@@ -361,6 +458,97 @@ describe('MCP Tools', () => {
       expect(parsed.AAPL).toBeDefined();
       expect(parsed.AAPL.earningsChart).toBeDefined();
     });
+
+    test('getTechnicalIndicators should return recent indicator values', async () => {
+      const result = await getTechnicalIndicators({ symbols: 'AAPL', indicators: 'sma:2', limit: 1 });
+      const parsed = JSON.parse(result);
+
+      expect(parsed.AAPL).toEqual([{ date: '2024-01-02', close: 149, sma2: 148 }]);
+    });
+
+    test('getTechnicalIndicators should reject unknown indicators', async () => {
+      await expect(getTechnicalIndicators({ symbols: 'AAPL', indicators: 'foo' }))
+        .rejects.toThrow('Failed to get technical indicators: Invalid indicator: foo');
+    });
+
+    test('getFinancialRatios should return ratios per period', async () => {
+      const result = await getFinancialRatios({ symbols: 'AAPL', frequency: 'quarterly' });
+      const parsed = JSON.parse(result);
+
+      expect(parsed.AAPL.periods[0].grossMargin).toBe(0.46);
+      expect(parsed.AAPL.cagr.revenue).toBe(0.08);
+    });
+
+    test('getOptionAnalytics should drop the strike profile unless requested', async () => {
+      const parsed = JSON.parse(await getOptionAnalytics({ symbol: 'AAPL' }));
+      expect(parsed.AAPL.expirations[0].maxPain).toBe(150);
+      expect(parsed.AAPL.expirations[0].strikes).toEqual([]);
+
+      const withStrikes = JSON.parse(await getOptionAnalytics({ symbol: 'AAPL', includeStrikes: true }));
+      expect(withStrikes.AAPL.expirations[0].strikes).toHaveLength(1);
+    });
+
+    test('getEsg should return the score history and peer scores', async () => {
+      const parsed = JSON.parse(await getEsg({ symbols: 'AAPL' }));
+      expect(parsed.chart.AAPL.series[0].esgScore).toBe(17.2);
+      expect(parsed.peerScores.AAPL.peerGroup).toBe('Technology Hardware');
+
+      const chartOnly = JSON.parse(await getEsg({ symbols: 'AAPL', type: 'chart' }));
+      expect(chartOnly.peerScores).toBeUndefined();
+    });
+
+    test('getFairValue should add the band on request', async () => {
+      const parsed = JSON.parse(await getFairValue({ symbols: 'AAPL' }));
+      expect(parsed.AAPL.classification).toBe('undervalued');
+      expect(parsed.AAPL.band).toBeUndefined();
+
+      const withBand = JSON.parse(await getFairValue({ symbols: 'AAPL', band: true }));
+      expect(withBand.AAPL.band.low).toBe(185);
+    });
+
+    test('getTechnicalEvents should return normalized events', async () => {
+      const parsed = JSON.parse(await getTechnicalEvents({ symbols: 'AAPL', horizons: ['short'] }));
+      expect(parsed.AAPL[0]).toEqual({ pattern: 'Double Bottom', direction: 'bullish', horizon: 'short', date: '2024-01-02', target: 200 });
+    });
+
+    test('getPremiumInsights should return insights per symbol', async () => {
+      const parsed = JSON.parse(await getPremiumInsights({ symbols: 'AAPL' }));
+      expect(parsed.AAPL.instrumentInfo.valuation.description).toBe('Overvalued');
+    });
+
+    test('premium tools should fail without a Premium login', async () => {
+      mockPremiumLogin = false;
+      try {
+        await expect(getFairValue({ symbols: 'AAPL' })).rejects.toThrow(
+          'Failed to get fair value: Requires a Yahoo Finance Premium login'
+        );
+        await expect(getTechnicalEvents({ symbols: 'AAPL' })).rejects.toThrow('Requires a Yahoo Finance Premium login');
+        await expect(getPremiumInsights({ symbols: 'AAPL' })).rejects.toThrow('Requires a Yahoo Finance Premium login');
+      } finally {
+        mockPremiumLogin = true;
+      }
+    });
+
+    test('getMarketStatus should return exchange status for symbols', async () => {
+      const result = await getMarketStatus({ symbols: 'AAPL' });
+      const parsed = JSON.parse(result);
+
+      expect(parsed.AAPL.session).toBe('closed');
+      expect(parsed.AAPL.isLive).toBe(false);
+    });
+
+    test('getMarketStatus should return the clock for an exchange', async () => {
+      const result = await getMarketStatus({ exchange: 'LSE' });
+      const parsed = JSON.parse(result);
+
+      expect(parsed.exchange).toBe('LSE');
+      expect(parsed.timezone).toBe('Europe/London');
+      expect(typeof parsed.isOpen).toBe('boolean');
+    });
+
+    test('getMarketStatus should require symbols or exchange', async () => {
+      await expect(getMarketStatus({})).rejects.toThrow('Either symbols or exchange is required');
+    });
   });
 
   describe('Screener Tools', () => {
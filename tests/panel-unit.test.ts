@@ -0,0 +1,105 @@
+/**
+ * Price Panel and Correlation Unit Tests
+ */
+
+import {
+  buildPanel,
+  correlationMatrix,
+  covarianceMatrix,
+  panelColumns,
+  rollingCorrelation,
+} from '../src/analysis/panel';
+import { HistoryRow } from '../src/types';
+
+function bar(date: string | Date, close: number | null, adjclose?: number): HistoryRow {
+  return { date, open: close, high: close, low: close, close, volume: 100, adjclose };
+}
+
+describe('Price Panel', () => {
+  // MSFT has no bar on 01-03; AAA has no bar on 01-04
+  const history = {
+    AAA: [bar('2024-01-02', 10), bar('2024-01-03', 11), bar('2024-01-05', 12)],
+    MSFT: [bar('2024-01-02', 100, 99), bar('2024-01-04', 102, 101), bar('2024-01-05', 104, 103)],
+    BAD: 'No data found',
+  };
+
+  describe('buildPanel', () => {
+    test('should forward-fill gaps on the shared date index by default', () => {
+      const panel = buildPanel(history);
+
+      expect(panel.symbols).toEqual(['AAA', 'MSFT']);
+      expect(panel.rows.map((row) => row.date)).toEqual(['2024-01-02', '2024-01-03', '2024-01-04', '2024-01-05']);
+      expect(panelColumns(panel)).toEqual({
+        AAA: [10, 11, 11, 12],
+        MSFT: [99, 99, 101, 103],
+      });
+      expect(panel.errors).toEqual({ BAD: 'No data found' });
+    });
+
+    test('should leave gaps null or drop incomplete dates', () => {
+      expect(panelColumns(buildPanel(history, { gaps: 'null', field: 'close' }))).toEqual({
+        AAA: [10, 11, null, 12],
+        MSFT: [100, null, 102, 104],
+      });
+
+      const dropped = buildPanel(history, { gaps: 'drop' });
+      expect(dropped.rows.map((row) => row.date)).toEqual(['2024-01-02', '2024-01-05']);
+    });
+
+    test('should order intraday timestamps across symbols', () => {
+      const panel = buildPanel({
+        A: [bar(new Date('2024-01-02T14:35:00Z'), 2)],
+        B: [bar(new Date('2024-01-02T14:30:00Z'), 1)],
+      }, { gaps: 'null' });
+
+      expect(panel.rows.map((row) => (row.date as Date).toISOString())).toEqual([
+        '2024-01-02T14:30:00.000Z',
+        '2024-01-02T14:35:00.000Z',
+      ]);
+    });
+  });
+
+  describe('correlation', () => {
+    const panel = buildPanel({
+      A: [1, 2, 4, 3, 6].map((close, i) => bar(`2024-01-0${i + 1}`, close)),
+      B: [2, 4, 8, 6, 12].map((close, i) => bar(`2024-01-0${i + 1}`, close)),
+      C: [8, 4, 2, 3, 1.5].map((close, i) => bar(`2024-01-0${i + 1}`, close)),
+    });
+
+    test('should correlate returns by default', () => {
+      const { symbols, matrix } = correlationMatrix(panel);
+
+      expect(symbols).toEqual(['A', 'B', 'C']);
+      expect(matrix[0][0]).toBe(1);
+      expect(matrix[0][1]).toBe(1);
+      expect(matrix[1][0]).toBe(matrix[0][1]);
+      expect(matrix[0][2]).toBeCloseTo(-1);
+    });
+
+    test('should compute sample covariance of price levels', () => {
+      const { matrix } = covarianceMatrix(panel, { returns: false });
+
+      // A: mean 3.2, sample variance 3.7; B = 2A
+      expect(matrix[0][0]).toBeCloseTo(3.7);
+      expect(matrix[0][1]).toBeCloseTo(7.4);
+    });
+
+    test('should use pairwise observations around gaps', () => {
+      const gappy = buildPanel({
+        A: [1, 2, 3, 4].map((close, i) => bar(`2024-01-0${i + 1}`, close)),
+        B: [bar('2024-01-01', 5), bar('2024-01-02', null), bar('2024-01-03', 7), bar('2024-01-04', 8)],
+      }, { gaps: 'null' });
+
+      expect(correlationMatrix(gappy, { returns: false }).matrix[0][1]).toBeCloseTo(1);
+      expect(correlationMatrix(gappy).matrix[0][1]).toBeNull();
+    });
+
+    test('should compute rolling correlation once the window is full', () => {
+      const rolling = rollingCorrelation(panel, 3);
+
+      expect(rolling.map((entry) => entry.date)).toEqual(['2024-01-04', '2024-01-05']);
+      expect(rolling[0].matrix[0][1]).toBe(1);
+      expect(() => rollingCorrelation(panel, 1)).toThrow('Rolling window must be an integer of at least 2');
+    });
+  });
+});
@@ -0,0 +1,144 @@
+/**
+ * Option Pricing Unit Tests
+ */
+
+import {
+  addOptionGreeks,
+  baroneAdesiWhaleyPrice,
+  blackScholesPrice,
+  contractPrice,
+  impliedVolatility,
+  normalCdf,
+  optionGreeks,
+  PricingInputs,
+  yearsToExpiration,
+} from '../src/analysis/pricing';
+import { OptionChainResult, OptionContractRow } from '../src/types';
+
+const CALL: PricingInputs = {
+  type: 'call',
+  spot: 60,
+  strike: 65,
+  years: 0.25,
+  rate: 0.08,
+  dividendYield: 0,
+  volatility: 0.3,
+};
+
+function contract(optionType: 'call' | 'put', strike: number, fields: Partial<OptionContractRow>): OptionContractRow {
+  return { optionType, strike, expiration: new Date('2024-03-15T00:00:00Z'), ...fields };
+}
+
+describe('Option Pricing', () => {
+  test('normalCdf should match reference values', () => {
+    expect(normalCdf(0)).toBeCloseTo(0.5, 7);
+    expect(normalCdf(1.96)).toBeCloseTo(0.975, 4);
+    expect(normalCdf(-1)).toBeCloseTo(0.158655, 5);
+  });
+
+  test('blackScholesPrice should match the textbook value and put-call parity', () => {
+    const call = blackScholesPrice(CALL);
+    const put = blackScholesPrice({ ...CALL, type: 'put' });
+
+    expect(call).toBeCloseTo(2.1334, 4);
+    expect(call - put).toBeCloseTo(60 - 65 * Math.exp(-0.08 * 0.25), 8);
+  });
+
+  test('baroneAdesiWhaleyPrice should add an early-exercise premium', () => {
+    // Barone-Adesi & Whaley (1987), table I: S = X = 100, r = 0.08, b = -0.04, sigma = 0.2, T = 0.25
+    const call: PricingInputs = { type: 'call', spot: 100, strike: 100, years: 0.25, rate: 0.08, dividendYield: 0.12, volatility: 0.2 };
+    expect(baroneAdesiWhaleyPrice(call)).toBeCloseTo(3.52, 2);
+    expect(baroneAdesiWhaleyPrice(call)).toBeGreaterThan(blackScholesPrice(call));
+
+    const put: PricingInputs = { ...call, type: 'put', rate: 0.05, dividendYield: 0 };
+    expect(baroneAdesiWhaleyPrice(put)).toBeGreaterThan(blackScholesPrice(put));
+    expect(baroneAdesiWhaleyPrice({ ...put, spot: 50 })).toBe(50);
+  });
+
+  test('American calls on dividend payers should price continuously through a zero rate', () => {
+    const call: PricingInputs = { type: 'call', spot: 100, strike: 100, years: 0.25, rate: 0, dividendYield: 0.02, volatility: 0.3 };
+    const price = baroneAdesiWhaleyPrice(call);
+
+    expect(price).toBeGreaterThanOrEqual(blackScholesPrice(call));
+    expect(price).toBeCloseTo(baroneAdesiWhaleyPrice({ ...call, rate: 1e-6 }), 3);
+    expect(price).toBeCloseTo(baroneAdesiWhaleyPrice({ ...call, rate: -1e-6 }), 3);
+    expect(impliedVolatility(price, call)).toBeCloseTo(0.3, 5);
+  });
+
+  test('American calls without dividends should price as European', () => {
+    expect(baroneAdesiWhaleyPrice(CALL)).toBe(blackScholesPrice(CALL));
+  });
+
+  test('optionGreeks should give analytic European Greeks', () => {
+    const greeks = optionGreeks({ ...CALL, type: 'put', spot: 100, strike: 100, years: 0.5, rate: 0.05, volatility: 0.25 }, 'european');
+
+    expect(greeks.delta).toBeCloseTo(-0.4091, 4);
+    expect(greeks.gamma).toBeCloseTo(0.02198, 5);
+    expect(greeks.vega).toBeCloseTo(0.2747, 4);
+    expect(greeks.theta).toBeLessThan(0);
+    expect(greeks.rho).toBeLessThan(0);
+  });
+
+  test('finite-difference Greeks should agree with analytic ones when early exercise has no value', () => {
+    const analytic = optionGreeks(CALL, 'european');
+    const numeric = optionGreeks(CALL, 'american');
+
+    expect(numeric.delta).toBeCloseTo(analytic.delta, 4);
+    expect(numeric.gamma).toBeCloseTo(analytic.gamma, 4);
+    expect(numeric.vega).toBeCloseTo(analytic.vega, 4);
+    expect(numeric.rho).toBeCloseTo(analytic.rho, 4);
+    expect(numeric.theta).toBeCloseTo(analytic.theta, 3);
+  });
+
+  test('impliedVolatility should recover the pricing volatility', () => {
+    const { volatility, ...inputs } = { ...CALL, type: 'put' as const, dividendYield: 0.02 };
+
+    expect(impliedVolatility(baroneAdesiWhaleyPrice({ ...inputs, volatility }), inputs)).toBeCloseTo(0.3, 5);
+    expect(impliedVolatility(blackScholesPrice({ ...inputs, volatility }), inputs, 'european')).toBeCloseTo(0.3, 5);
+  });
+
+  test('impliedVolatility should return null for prices no volatility produces', () => {
+    const { volatility: _volatility, ...inputs } = CALL;
+
+    expect(impliedVolatility(0, inputs)).toBeNull();
+    expect(impliedVolatility(70, inputs)).toBeNull();
+  });
+
+  test('yearsToExpiration should count to the close on expiration day', () => {
+    const expiration = new Date('2024-03-15T00:00:00Z');
+
+    expect(yearsToExpiration(expiration, new Date('2024-03-14T20:00:00Z'))).toBeCloseTo(1 / 365, 8);
+    // 16:00 New York is 21:00 UTC in winter
+    expect(yearsToExpiration(new Date('2024-01-19T00:00:00Z'), new Date('2024-01-18T21:00:00Z'))).toBeCloseTo(1 / 365, 8);
+    expect(yearsToExpiration(expiration, new Date('2024-03-16T00:00:00Z'))).toBeGreaterThan(0);
+  });
+
+  test('contractPrice should prefer the bid/ask midpoint', () => {
+    expect(contractPrice(contract('call', 100, { bid: 1, ask: 1.2, lastPrice: 5 }))).toBeCloseTo(1.1);
+    expect(contractPrice(contract('call', 100, { bid: 0, ask: 1.2, lastPrice: 5 }))).toBe(5);
+    expect(contractPrice(contract('call', 100, {}))).toBeNull();
+  });
+
+  test('addOptionGreeks should price every contract and keep straddle legs in sync', () => {
+    const now = new Date('2024-01-15T20:00:00Z');
+    const years = yearsToExpiration(new Date('2024-03-15T00:00:00Z'), now);
+    const fair = baroneAdesiWhaleyPrice({ type: 'call', spot: 100, strike: 100, years, rate: 0.05, dividendYield: 0, volatility: 0.25 });
+    const call = contract('call', 100, { lastPrice: fair });
+    // Stale quote below intrinsic value
+    const put = contract('put', 120, { lastPrice: 5 });
+    const chain: OptionChainResult = {
+      calls: [call],
+      puts: [put],
+      underlyingPrice: 100,
+      straddles: [{ expiration: call.expiration, strike: 100, call, put: null }],
+    };
+
+    const priced = addOptionGreeks(chain, { riskFreeRate: 0.05, now });
+
+    expect(priced.calls[0].greeks?.impliedVolatility).toBeCloseTo(0.25, 5);
+    expect(priced.calls[0].greeks?.delta).toBeGreaterThan(0.5);
+    expect(priced.puts[0].greeks).toBeNull();
+    expect(priced.straddles?.[0].call).toBe(priced.calls[0]);
+    expect(chain.calls[0].greeks).toBeUndefined();
+  });
+});
@@ -0,0 +1,90 @@
+/**
+ * Financial Ratio Unit Tests
+ */
+
+import { cagr, computeFinancialRatios, growthRate, safeDivide } from '../src/analysis/ratios';
+import { FinancialStatementRow } from '../src/types';
+
+function period(asOfDate: string, items: Record<string, number>, periodType = '12M'): FinancialStatementRow {
+  return { asOfDate, periodType, currencyCode: 'USD', ...items };
+}
+
+describe('Financial Ratios', () => {
+  describe('helpers', () => {
+    test('safeDivide should return null for missing values and zero divisors', () => {
+      expect(safeDivide(1, 4)).toBe(0.25);
+      expect(safeDivide(null, 4)).toBeNull();
+      expect(safeDivide(1, 0)).toBeNull();
+    });
+
+    test('growthRate should measure change against the magnitude of the base', () => {
+      expect(growthRate(110, 100)).toBeCloseTo(0.1);
+      expect(growthRate(-50, -100)).toBeCloseTo(0.5);
+      expect(growthRate(10, 0)).toBeNull();
+    });
+
+    test('cagr should require positive endpoints', () => {
+      expect(cagr(100, 121, 2)).toBeCloseTo(0.1);
+      expect(cagr(-100, 121, 2)).toBeNull();
+    });
+  });
+
+  describe('computeFinancialRatios', () => {
+    const rows = [
+      period('2023-09-30', {
+        TotalRevenue: 1000, GrossProfit: 400, OperatingIncome: 200, NetIncome: 150,
+        TotalAssets: 2000, StockholdersEquity: 1000, InvestedCapital: 1500,
+      }),
+      period('2024-09-28', {
+        TotalRevenue: 1200, GrossProfit: 500, OperatingIncome: 300, EBIT: 310, InterestExpense: 10,
+        PretaxIncome: 300, TaxProvision: 60, NetIncome: 240, FreeCashFlow: 180,
+        TotalAssets: 2200, CurrentAssets: 800, Inventory: 200, CurrentLiabilities: 400,
+        StockholdersEquity: 1200, TotalDebt: 600, InvestedCapital: 1700,
+      }),
+      period('2024-09-28', { TotalRevenue: 1200 }, 'TTM'),
+    ];
+
+    test('should compute ratios per period with average balances', () => {
+      const { periods } = computeFinancialRatios(rows);
+      const latest = periods[1];
+
+      expect(periods).toHaveLength(2);
+      expect(latest.grossMargin).toBeCloseTo(500 / 1200);
+      expect(latest.operatingMargin).toBeCloseTo(0.25);
+      expect(latest.netMargin).toBeCloseTo(0.2);
+      expect(latest.returnOnEquity).toBeCloseTo(240 / 1100);
+      expect(latest.returnOnAssets).toBeCloseTo(240 / 2100);
+      expect(latest.returnOnInvestedCapital).toBeCloseTo((300 * 0.8) / 1600);
+      expect(latest.currentRatio).toBe(2);
+      expect(latest.quickRatio).toBe(1.5);
+      expect(latest.debtToEquity).toBe(0.5);
+      expect(latest.interestCoverage).toBe(31);
+      expect(latest.freeCashFlowMargin).toBeCloseTo(0.15);
+      expect(latest.assetTurnover).toBeCloseTo(1200 / 2100);
+      expect(periods[0].returnOnEquity).toBeCloseTo(0.15);
+    });
+
+    test('should compute YoY growth and CAGR for annual data', () => {
+      const report = computeFinancialRatios(rows);
+
+      expect(report.periods[0].yoyGrowth.revenue).toBeNull();
+      expect(report.periods[1].yoyGrowth.revenue).toBeCloseTo(0.2);
+      expect(report.periods[1].yoyGrowth.netIncome).toBeCloseTo(0.6);
+      expect(report.periods[1].qoqGrowth).toBeNull();
+      expect(report.cagrYears).toBeCloseTo(1, 1);
+      expect(report.cagr.revenue).toBeCloseTo(1.2 ** (1 / (report.cagrYears as number)) - 1);
+      expect(report.cagr.freeCashFlow).toBeNull();
+    });
+
+    test('should compute QoQ and YoY growth for quarterly data', () => {
+      const quarters = ['2023-03-31', '2023-06-30', '2023-09-30', '2023-12-31', '2024-03-31'].map(
+        (date, i) => period(date, { TotalRevenue: 100 + i * 10 }, '3M')
+      );
+      const { periods } = computeFinancialRatios(quarters);
+
+      expect(periods[4].qoqGrowth?.revenue).toBeCloseTo(10 / 130);
+      expect(periods[4].yoyGrowth.revenue).toBeCloseTo(0.4);
+      expect(periods[3].yoyGrowth.revenue).toBeNull();
+    });
+  });
+});
@@ -0,0 +1,116 @@
+/**
+ * Bar Resampling Unit Tests
+ */
+
+import { resampleBars, resampleHistory } from '../src/analysis/resample';
+import { HistoryRow } from '../src/types';
+
+function daily(date: string, close: number, extra: Partial<HistoryRow> = {}): HistoryRow {
+  return { date, open: close - 1, high: close + 1, low: close - 2, close, volume: 100, ...extra };
+}
+
+function intraday(localDate: string, close: number): HistoryRow {
+  return {
+    date: new Date(localDate),
+    localDate,
+    open: close,
+    high: close + 0.5,
+    low: close - 0.5,
+    close,
+    volume: 10,
+    session: 'regular',
+  };
+}
+
+describe('Resampling', () => {
+  describe('daily to weekly/monthly/quarterly', () => {
+    // Wed 2024-01-03 through Tue 2024-01-09 (weekend skipped)
+    const rows = [
+      daily('2024-01-03', 10, { dividends: 0, splits: 0 }),
+      daily('2024-01-04', 12, { dividends: 0.5, splits: 0 }),
+      daily('2024-01-05', 11, { dividends: 0, splits: 2 }),
+      daily('2024-01-08', 15, { dividends: 0.25, splits: 0 }),
+      daily('2024-01-09', 14, { dividends: 0, splits: 0 }),
+    ];
+
+    test('should aggregate into ISO weeks', () => {
+      const weekly = resampleBars(rows, 'weekly');
+      expect(weekly).toHaveLength(2);
+      expect(weekly[0]).toEqual({
+        date: '2024-01-03',
+        open: 9,
+        high: 13,
+        low: 8,
+        close: 11,
+        volume: 300,
+        dividends: 0.5,
+        splits: 2,
+      });
+      expect(weekly[1].date).toBe('2024-01-08');
+      expect(weekly[1].splits).toBe(0);
+    });
+
+    test('should aggregate into months and quarters', () => {
+      const extended = [...rows, daily('2024-02-01', 20), daily('2024-04-01', 30)];
+      expect(resampleBars(extended, 'monthly').map((bar) => bar.close)).toEqual([14, 20, 30]);
+      expect(resampleBars(extended, '3mo').map((bar) => bar.close)).toEqual([20, 30]);
+    });
+
+    test('should group every N bars', () => {
+      const grouped = resampleBars(rows, { bars: 2 });
+      expect(grouped.map((bar) => bar.volume)).toEqual([200, 200, 100]);
+    });
+  });
+
+  describe('intraday', () => {
+    const rows = [
+      intraday('2024-01-02T09:30:00.000-05:00', 1),
+      intraday('2024-01-02T10:00:00.000-05:00', 2),
+      intraday('2024-01-02T10:30:00.000-05:00', 3),
+      intraday('2024-01-02T15:30:00.000-05:00', 4),
+      intraday('2024-01-03T09:30:00.000-05:00', 5),
+    ];
+
+    test('should anchor hourly bars at the session open', () => {
+      const hourly = resampleBars(rows, '1h');
+      expect(hourly.map((bar) => bar.localDate)).toEqual([
+        '2024-01-02T09:30:00.000-05:00',
+        '2024-01-02T10:30:00.000-05:00',
+        '2024-01-02T15:30:00.000-05:00',
+        '2024-01-03T09:30:00.000-05:00',
+      ]);
+      expect(hourly[0]).toMatchObject({ open: 1, high: 2.5, low: 0.5, close: 2, volume: 20, session: 'regular' });
+    });
+
+    test('should support custom minute windows and daily bars', () => {
+      expect(resampleBars(rows, { minutes: 90 }).map((bar) => bar.close)).toEqual([3, 4, 5]);
+      expect(resampleBars(rows, '1d').map((bar) => bar.close)).toEqual([4, 5]);
+    });
+
+    test('should restart N-bar windows each day', () => {
+      expect(resampleBars(rows, { bars: 3 }).map((bar) => bar.close)).toEqual([3, 4, 5]);
+    });
+  });
+
+  test('should keep null-only bars as null', () => {
+    const bars = resampleBars(
+      [daily('2024-01-03', 1, { open: null, high: null, low: null, close: null, volume: null })],
+      'weekly'
+    );
+    expect(bars[0]).toMatchObject({ open: null, high: null, low: null, close: null, volume: null });
+  });
+
+  test('should reject invalid rules', () => {
+    expect(() => resampleBars([], '2h' as '1h')).toThrow('Invalid resample rule');
+    expect(() => resampleBars([], { minutes: 0 })).toThrow('Invalid resample rule');
+  });
+
+  test('resampleHistory should pass through errors', () => {
+    const result = resampleHistory(
+      { AAPL: [daily('2024-01-03', 1), daily('2024-01-04', 2)], BAD: 'No data found' },
+      'weekly'
+    );
+    expect((result.AAPL as HistoryRow[])).toHaveLength(1);
+    expect(result.BAD).toBe('No data found');
+  });
+});
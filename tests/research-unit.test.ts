@@ -259,6 +259,72 @@ describe('Research - Unit Tests', () => {
     });
   });
 
+  describe('Report and trade idea details', () => {
+    const detailResponse = (url: string) => {
+      if (url.includes('researchreports/overlay')) {
+        return mockResponse({
+          researchReportsOverlay: {
+            result: [{
+              id: 'ARGUS_1',
+              title: 'Apple Analysis',
+              reportHtml: '<p>We maintain <b>BUY</b>.</p><p>Target $200.</p>',
+              sections: [{ heading: 'Risks', body: '<ul><li>Supply</li><li>Demand</li></ul>' }],
+              summary: { text: '<p>Upgrade</p>', rating: 'BUY' },
+            }],
+          },
+        });
+      }
+      if (url.includes('tradeideas/overlay')) {
+        return mockResponse({
+          tradeIdeasOverlay: { error: { description: 'Trade idea not found' } },
+        });
+      }
+      return url.includes('getcrumb') ? mockResponse('mock_crumb_value') : mockResponse('<html></html>');
+    };
+
+    beforeEach(() => {
+      mockGet.mockImplementation((url: string) => Promise.resolve(detailResponse(url)));
+    });
+
+    test('should fetch a report detail as plain text', async () => {
+      const research = new Research();
+      const detail = await research.getReportDetail('ARGUS_1');
+
+      expect(detail).toEqual({
+        id: 'ARGUS_1',
+        title: 'Apple Analysis',
+        reportHtml: 'We maintain BUY.\nTarget $200.',
+        sections: [{ heading: 'Risks', body: 'Supply\nDemand' }],
+        summary: { text: 'Upgrade', rating: 'BUY' },
+      });
+      const [, config] = mockGet.mock.calls.find(([url]) => String(url).includes('overlay')) ?? [];
+      expect(config.params.reportId).toBe('ARGUS_1');
+    });
+
+    test('should return null and warn when a detail request fails', async () => {
+      const warn = jest.spyOn(console, 'warn').mockImplementation();
+      const research = new Research();
+
+      expect(await research.getTradeIdeaDetail('IDEA_1')).toBeNull();
+      expect(warn).toHaveBeenCalledWith(expect.stringContaining('Trade idea not found'));
+
+      warn.mockRestore();
+    });
+
+    test('should hydrate report rows with their details', async () => {
+      mockPost.mockResolvedValue(mockResponse({
+        documents: [{ columns: [{ label: 'id' }, { label: 'ticker' }], rows: [['ARGUS_1', 'AAPL'], [null, 'MSFT']] }],
+      }));
+      const research = new Research();
+
+      const result = await research.getReports(10, {}, { details: true });
+
+      expect(result[0].detail).toMatchObject({ reportHtml: 'We maintain BUY.\nTarget $200.' });
+      expect(result[1].detail).toBeNull();
+      expect(mockGet.mock.calls.filter(([url]) => String(url).includes('overlay'))).toHaveLength(1);
+    });
+  });
+
   describe('getEarnings', () => {
     test('should fetch earnings calendar', async () => {
       const research = new Research();
@@ -0,0 +1,145 @@
+/**
+ * Return and Risk Analytics Unit Tests
+ */
+
+import {
+  annualizedVolatility,
+  betaAlpha,
+  computeReturns,
+  computeRiskMetrics,
+  conditionalValueAtRisk,
+  historyReturns,
+  logReturns,
+  maxDrawdown,
+  periodsPerYear,
+  rollingRiskMetrics,
+  sharpeRatio,
+  simpleReturns,
+  sortinoRatio,
+  valueAtRisk,
+} from '../src/analysis/risk';
+import { HistoryRow } from '../src/types';
+
+function bar(date: string, close: number | null, adjclose?: number | null): HistoryRow {
+  return { date, open: close, high: close, low: close, close, volume: 100, adjclose };
+}
+
+function series(closes: number[]): HistoryRow[] {
+  return closes.map((close, i) => bar(`2024-01-${String(i + 1).padStart(2, '0')}`, close));
+}
+
+describe('Risk Analytics', () => {
+  describe('returns', () => {
+    test('should compute simple and log returns', () => {
+      const simple = simpleReturns([100, 110, 99]);
+      expect(simple[0]).toBeCloseTo(0.1);
+      expect(simple[1]).toBeCloseTo(-0.1);
+      expect(logReturns([100, 110])[0]).toBeCloseTo(Math.log(1.1));
+    });
+
+    test('should prefer adjclose and skip bars without a price', () => {
+      const rows = [bar('2024-01-01', 100, 50), bar('2024-01-02', null, null), bar('2024-01-03', 110, 55)];
+      const result = computeReturns(rows);
+
+      expect(result).toHaveLength(1);
+      expect(result[0].date).toBe('2024-01-03');
+      expect(result[0].return).toBeCloseTo(0.1);
+    });
+
+    test('should pass symbol errors through', () => {
+      const result = historyReturns({ AAPL: series([1, 2]), BAD: 'No data found' });
+
+      expect(result.BAD).toBe('No data found');
+      expect(result.AAPL).toHaveLength(1);
+    });
+  });
+
+  describe('risk measures', () => {
+    const returns = [0.01, -0.02, 0.015, -0.005, 0.02];
+
+    test('should annualize volatility with the sample standard deviation', () => {
+      expect(annualizedVolatility([0.01, -0.01], 252)).toBeCloseTo(Math.sqrt(0.0002) * Math.sqrt(252));
+      expect(annualizedVolatility([0.01])).toBeNull();
+    });
+
+    test('should compute Sharpe and Sortino ratios', () => {
+      const mean = 0.004;
+      const std = Math.sqrt(returns.reduce((s, r) => s + (r - mean) ** 2, 0) / 4);
+      const downside = Math.sqrt((0.02 ** 2 + 0.005 ** 2) / 5);
+
+      expect(sharpeRatio(returns, 0, 252)).toBeCloseTo((mean / std) * Math.sqrt(252));
+      expect(sortinoRatio(returns, 0, 252)).toBeCloseTo((mean / downside) * Math.sqrt(252));
+      expect(sortinoRatio([0.01, 0.02])).toBeNull();
+    });
+
+    test('should find the max drawdown with peak, trough and recovery dates', () => {
+      const dates = ['d0', 'd1', 'd2', 'd3', 'd4', 'd5'];
+      const result = maxDrawdown([100, 120, 90, 100, 125, 110], dates);
+
+      expect(result).toEqual({ maxDrawdown: -0.25, peakDate: 'd1', troughDate: 'd2', recoveryDate: 'd4' });
+      expect(maxDrawdown([100, 80], ['a', 'b'])?.recoveryDate).toBeNull();
+    });
+
+    test('should compute beta and alpha against a benchmark', () => {
+      const benchmark = [0.01, -0.02, 0.03, 0.0];
+      const asset = benchmark.map((r) => 2 * r + 0.001);
+      const result = betaAlpha(asset, benchmark, 0, 252);
+
+      expect(result?.beta).toBeCloseTo(2);
+      expect(result?.alpha).toBeCloseTo(0.252);
+    });
+
+    test('should compute historical and parametric value-at-risk', () => {
+      const values = Array.from({ length: 101 }, (_, i) => (i - 50) / 1000);
+
+      expect(valueAtRisk(values, 0.95)).toBeCloseTo(0.045);
+      expect(conditionalValueAtRisk(values, 0.95)).toBeCloseTo(0.0475);
+      expect(valueAtRisk([0.01, -0.01], 0.95, 'parametric')).toBeCloseTo(1.6449 * Math.sqrt(0.0002), 4);
+    });
+
+    test('should map intervals to bars per year', () => {
+      expect(periodsPerYear('1d')).toBe(252);
+      expect(periodsPerYear('1wk')).toBe(52);
+      expect(periodsPerYear('1mo')).toBe(12);
+      expect(periodsPerYear('5m')).toBe(252 * 78);
+      expect(periodsPerYear('1h')).toBe(252 * 6.5);
+    });
+  });
+
+  describe('computeRiskMetrics', () => {
+    test('should summarize returns and drawdown', () => {
+      const result = computeRiskMetrics(series([100, 110, 99, 121]));
+
+      expect(result.observations).toBe(3);
+      expect(result.startDate).toBe('2024-01-01');
+      expect(result.endDate).toBe('2024-01-04');
+      expect(result.totalReturn).toBeCloseTo(0.21);
+      expect(result.annualizedReturn).toBeCloseTo(1.21 ** (252 / 3) - 1);
+      expect(result.drawdown?.maxDrawdown).toBeCloseTo(-0.1);
+      expect(result.beta).toBeNull();
+    });
+
+    test('should align benchmark returns by date', () => {
+      const benchmark = series([100, 101, 99, 100, 102]);
+      // Asset is missing 2024-01-03, so its 01-04 return spans two benchmark bars
+      const asset = [bar('2024-01-01', 100), bar('2024-01-02', 101), bar('2024-01-04', 100), bar('2024-01-05', 102)];
+      const result = computeRiskMetrics(asset, benchmark);
+
+      expect(result.observations).toBe(3);
+      expect(result.beta).toBeCloseTo(1);
+      expect(result.alpha).toBeCloseTo(0);
+    });
+
+    test('should compute rolling metrics once the window is full', () => {
+      const rows = series([100, 101, 99, 102, 104, 103]);
+      const result = rollingRiskMetrics(rows, 3);
+
+      expect(result).toHaveLength(3);
+      expect(result[0].date).toBe('2024-01-04');
+      expect(result[0].annualizedVolatility).toBeCloseTo(
+        computeRiskMetrics(rows.slice(0, 4)).annualizedVolatility as number
+      );
+      expect(() => rollingRiskMetrics(rows, 1)).toThrow('Rolling window must be an integer of at least 2');
+    });
+  });
+});
@@ -0,0 +1,129 @@
+/**
+ * Volatility Surface Unit Tests
+ */
+
+import { addOptionGreeks, baroneAdesiWhaleyPrice, yearsToExpiration } from '../src/analysis/pricing';
+import { buildVolatilitySurface, constantMaturityVolatility, interpolate } from '../src/analysis/surface';
+import { OptionChainResult, OptionContractRow } from '../src/types';
+
+const NOW = new Date('2024-01-01T21:00:00Z');
+
+function contract(
+  optionType: 'call' | 'put',
+  strike: number,
+  expiration: string,
+  delta: number,
+  impliedVolatility: number
+): OptionContractRow {
+  return {
+    optionType,
+    strike,
+    expiration: new Date(`${expiration}T00:00:00Z`),
+    greeks: { impliedVolatility, delta, gamma: 0, theta: 0, vega: 0, rho: 0 },
+  };
+}
+
+// Expirations 21 and 42 days after NOW (expiring at 16:00 New York, 21:00 UTC)
+const CHAIN: OptionChainResult = {
+  underlyingSymbol: 'AAPL',
+  underlyingPrice: 100,
+  calls: [
+    contract('call', 95, '2024-01-22', 0.7, 0.5),
+    contract('call', 100, '2024-01-22', 0.5, 0.2),
+    contract('call', 105, '2024-01-22', 0.3, 0.19),
+    contract('call', 110, '2024-01-22', 0.2, 0.18),
+    contract('call', 100, '2024-02-12', 0.5, 0.3),
+    contract('call', 110, '2024-02-12', 0.3, 0.28),
+  ],
+  puts: [
+    contract('put', 90, '2024-01-22', -0.2, 0.26),
+    contract('put', 95, '2024-01-22', -0.3, 0.22),
+    contract('put', 100, '2024-01-22', -0.5, 0.9),
+    contract('put', 90, '2024-02-12', -0.3, 0.34),
+    { optionType: 'put', strike: 85, expiration: new Date('2024-02-12T00:00:00Z'), greeks: null },
+  ],
+};
+
+describe('Volatility Surface', () => {
+  test('interpolate should be linear inside the range and null outside', () => {
+    const points: Array<[number, number]> = [[0, 0], [10, 1]];
+
+    expect(interpolate(points, 2.5)).toBeCloseTo(0.25);
+    expect(interpolate(points, 10)).toBe(1);
+    expect(interpolate(points, 11)).toBeNull();
+    expect(interpolate([], 1)).toBeNull();
+  });
+
+  test('constantMaturityVolatility should interpolate total variance', () => {
+    const term = [
+      { expiration: '2024-01-22', days: 20, atmVolatility: 0.2 },
+      { expiration: '2024-02-22', days: 40, atmVolatility: 0.3 },
+    ];
+
+    // Variance: 0.04 * 20 = 0.8 and 0.09 * 40 = 3.6, so 2.2 at 30 days
+    expect(constantMaturityVolatility(term, 30)).toBeCloseTo(Math.sqrt(2.2 / 30));
+    expect(constantMaturityVolatility(term, 60)).toBeNull();
+  });
+
+  test('should build out-of-the-money slices with ATM volatility and 25-delta skew', () => {
+    const surface = buildVolatilitySurface(CHAIN, { now: NOW });
+    const [near, far] = surface.slices;
+
+    expect(surface.asOf).toBe('2024-01-01T21:00:00.000Z');
+    expect(near.expiration).toBe('2024-01-22');
+    expect(near.days).toBeCloseTo(21);
+    // ITM contracts (95 call, 100 put) are left out
+    expect(near.points.map((point) => `${point.optionType}${point.strike}`)).toEqual(['put90', 'put95', 'call100', 'call105', 'call110']);
+    expect(near.points[0].moneyness).toBeCloseTo(0.9);
+    expect(near.atmVolatility).toBeCloseTo(0.2);
+    expect(near.put25DeltaVolatility).toBeCloseTo(0.24);
+    expect(near.call25DeltaVolatility).toBeCloseTo(0.185);
+    expect(near.skew25Delta).toBeCloseTo(0.055);
+
+    expect(far.points).toHaveLength(3);
+    expect(far.put25DeltaVolatility).toBeNull();
+  });
+
+  test('should report the term structure and constant-maturity volatilities', () => {
+    const surface = buildVolatilitySurface(CHAIN, { now: NOW, tenors: [30, 60] });
+
+    expect(surface.termStructure.map((point) => point.atmVolatility)).toEqual([0.2, 0.3]);
+    const expected = Math.sqrt((0.04 * 21 + (0.09 * 42 - 0.04 * 21) * (9 / 21)) / 30);
+    expect(surface.constantMaturity[0].volatility).toBeCloseTo(expected, 6);
+    expect(surface.constantMaturity[1]).toEqual({ days: 60, volatility: null });
+  });
+
+  test('should keep calls priced at a zero risk-free rate', () => {
+    // American contracts on a dividend payer, priced at a flat 25% volatility
+    const expiration = new Date('2024-01-22T00:00:00Z');
+    const years = yearsToExpiration(expiration, NOW);
+    const priced = (optionType: 'call' | 'put', strike: number): OptionContractRow => ({
+      optionType,
+      strike,
+      expiration,
+      lastPrice: baroneAdesiWhaleyPrice({
+        type: optionType, spot: 100, strike, years, rate: 0, dividendYield: 0.02, volatility: 0.25,
+      }),
+    });
+    const strikes = [85, 90, 95, 97.5, 100, 102.5, 105, 110, 115];
+    const chain = addOptionGreeks({
+      underlyingPrice: 100,
+      dividendYield: 0.02,
+      calls: strikes.map((strike) => priced('call', strike)),
+      puts: strikes.map((strike) => priced('put', strike)),
+    }, { riskFreeRate: 0, now: NOW });
+
+    const [slice] = buildVolatilitySurface(chain, { now: NOW }).slices;
+
+    expect(slice.points.filter((point) => point.optionType === 'call')).toHaveLength(5);
+    expect(slice.atmVolatility).toBeCloseTo(0.25, 3);
+    expect(slice.call25DeltaVolatility).toBeCloseTo(0.25, 3);
+    expect(slice.skew25Delta).toBeCloseTo(0, 3);
+  });
+
+  test('should survive a JSON round trip', () => {
+    const surface = buildVolatilitySurface(CHAIN, { now: NOW });
+
+    expect(JSON.parse(JSON.stringify(surface))).toEqual(surface);
+  });
+});
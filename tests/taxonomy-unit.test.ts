@@ -0,0 +1,98 @@
+/**
+ * Line-Item Taxonomy Unit Tests
+ */
+
+import { FUNDAMENTALS_OPTIONS } from '../src/config/modules';
+import {
+  getChildLineItems,
+  getLineItem,
+  LINE_ITEM_TAXONOMY,
+  StatementType,
+} from '../src/config/taxonomy';
+import { buildStatementTree } from '../src/analysis/statements';
+
+const STATEMENTS = Object.keys(LINE_ITEM_TAXONOMY) as StatementType[];
+
+describe('Line-Item Taxonomy', () => {
+  test('should cover exactly the fundamentals options of each statement', () => {
+    for (const statement of STATEMENTS) {
+      expect(Object.keys(LINE_ITEM_TAXONOMY[statement]).sort()).toEqual(
+        [...FUNDAMENTALS_OPTIONS[statement]].sort()
+      );
+    }
+  });
+
+  test('should only roll up into items on the same statement, without cycles', () => {
+    for (const statement of STATEMENTS) {
+      for (const name of Object.keys(LINE_ITEM_TAXONOMY[statement])) {
+        const seen = new Set<string>();
+        let current: string | null = name;
+        while (current !== null) {
+          expect(seen.has(current)).toBe(false);
+          seen.add(current);
+          const definition = getLineItem(statement, current);
+          expect(definition).toBeDefined();
+          current = definition?.parent ?? null;
+        }
+      }
+    }
+  });
+
+  test('should describe sign and units', () => {
+    expect(getLineItem('income_statement', 'CostOfRevenue')).toEqual({
+      section: 'revenue',
+      parent: 'GrossProfit',
+      sign: -1,
+      units: 'currency',
+    });
+    expect(getLineItem('income_statement', 'DilutedEPS')?.units).toBe('perShare');
+    expect(getLineItem('balance_sheet', 'ShareIssued')?.units).toBe('shares');
+    expect(getLineItem('valuation', 'PeRatio')?.units).toBe('ratio');
+    expect(getLineItem('cash_flow', 'NetIncome')?.section).toBe('supplemental');
+  });
+
+  test('should list child line items', () => {
+    expect(getChildLineItems('income_statement', 'GrossProfit')).toEqual(['TotalRevenue', 'CostOfRevenue']);
+    expect(getChildLineItems('balance_sheet', null)).toEqual(
+      expect.arrayContaining(['TotalAssets', 'TotalLiabilitiesNetMinorityInterest', 'TotalEquityGrossMinorityInterest'])
+    );
+  });
+});
+
+describe('buildStatementTree', () => {
+  test('should nest reported items under their parents', () => {
+    const tree = buildStatementTree(
+      {
+        asOfDate: '2024-09-30',
+        periodType: '12M',
+        currencyCode: 'USD',
+        TotalRevenue: 100,
+        CostOfRevenue: 60,
+        OperatingExpense: 25,
+        NetIncome: 12,
+        DilutedEPS: 1.2,
+        CustomMetric: 5,
+      },
+      'income_statement'
+    );
+
+    expect(tree.map((node) => node.name)).toEqual(['DilutedNIAvailtoComStockholders', 'DilutedEPS', 'CustomMetric']);
+
+    const root = tree[0];
+    expect(root.value).toBeNull();
+    const netIncome = root.children[0].children[0];
+    expect(netIncome.name).toBe('NetIncome');
+    expect(netIncome.value).toBe(12);
+
+    // NetIncome <- ... <- PretaxIncome <- OperatingIncome <- GrossProfit
+    let node = netIncome;
+    while (node.name !== 'GrossProfit') {
+      node = node.children[0];
+    }
+    expect(node.children.map((child) => [child.name, child.value, child.sign])).toEqual([
+      ['TotalRevenue', 100, 1],
+      ['CostOfRevenue', 60, -1],
+    ]);
+    expect(tree[2]).toEqual({ name: 'CustomMetric', section: 'other', sign: 1, units: 'currency', value: 5, children: [] });
+  });
+});
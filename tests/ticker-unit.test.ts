@@ -21,7 +21,10 @@ jest.mock('axios-cookiejar-support', () => ({
   wrapper: jest.fn((instance) => instance),
 }));
 
+import { SessionManager } from '../src/core/SessionManager';
 import { Ticker } from '../src/core/Ticker';
+import { isSymbolError } from '../src/utils/helpers';
+import { TechnicalEventRow } from '../src/types';
 
 // Helper to create a mock axios response
 function mockResponse<T>(data: T) {
@@ -261,6 +264,60 @@ describe('Ticker - Unit Tests with Mocked HTTP', () => {
       expect(result).toBeDefined();
     });
 
+    test('should type each requested module', async () => {
+      const ticker = new Ticker('AAPL');
+
+      mockGet.mockImplementation((url: string) => {
+        if (url.includes('getcrumb')) {
+          return Promise.resolve(mockResponse('mock_crumb'));
+        }
+        if (url.includes('quoteSummary')) {
+          return Promise.resolve(mockResponse({
+            quoteSummary: {
+              result: [
+                {
+                  price: { regularMarketPrice: { raw: 150 } },
+                  assetProfile: { sector: 'Technology' },
+                },
+              ],
+            },
+          }));
+        }
+        return Promise.resolve(mockResponse({}));
+      });
+
+      const result = await ticker.getModules(['price', 'assetProfile']);
+      const data = result.AAPL;
+
+      if (isSymbolError(data)) {
+        throw new Error('expected module data');
+      }
+      expect(data.price?.regularMarketPrice).toBe(150);
+      expect(data.assetProfile?.sector).toBe('Technology');
+    });
+
+    test('should unwrap a single module', async () => {
+      const ticker = new Ticker('AAPL');
+
+      mockGet.mockImplementation((url: string) => {
+        if (url.includes('getcrumb')) {
+          return Promise.resolve(mockResponse('mock_crumb'));
+        }
+        if (url.includes('quoteSummary')) {
+          return Promise.resolve(mockResponse({
+            quoteSummary: { result: [{ price: { regularMarketPrice: { raw: 150 } } }] },
+          }));
+        }
+        return Promise.resolve(mockResponse({}));
+      });
+
+      const result = await ticker.getModules(['price']);
+      const price = result.AAPL;
+
+      expect(isSymbolError(price)).toBe(false);
+      expect(!isSymbolError(price) && price.regularMarketPrice).toBe(150);
+    });
+
     test('should throw for invalid modules', async () => {
       const ticker = new Ticker('AAPL');
 
@@ -275,33 +332,912 @@ describe('Ticker - Unit Tests with Mocked HTTP', () => {
     });
   });
 
-  describe('Historical Data - getHistory', () => {
-    test('should fetch historical data with default params', async () => {
+  describe('Historical Data - getHistory', () => {
+    test('should fetch historical data with default params', async () => {
+      const ticker = new Ticker('AAPL');
+
+      mockGet.mockImplementation((url: string) => {
+        if (url.includes('getcrumb')) {
+          return Promise.resolve(mockResponse('mock_crumb'));
+        }
+        if (url.includes('chart')) {
+          return Promise.resolve(mockResponse({
+            chart: {
+              result: [
+                {
+                  meta: { symbol: 'AAPL', exchangeTimezoneName: 'America/New_York' },
+                  timestamp: [1704067200, 1704153600],
+                  indicators: {
+                    quote: [
+                      {
+                        open: [150, 151],
+                        high: [151.5, 152.5],
+                        low: [149.5, 150.5],
+                        close: [151, 152],
+                        volume: [1000000, 1100000],
+                      },
+                    ],
+                    adjclose: [{ adjclose: [150.9, 151.9] }],
+                  },
+                },
+              ],
+            },
+          }));
+        }
+        return Promise.resolve(mockResponse({}));
+      });
+
+      const result = await ticker.getHistory();
+      expect(result).toBeDefined();
+      expect(result.AAPL).toBeDefined();
+    });
+
+    test('should fetch historical data with custom period', async () => {
+      const ticker = new Ticker('AAPL');
+
+      mockGet.mockImplementation((url: string) => {
+        if (url.includes('getcrumb')) {
+          return Promise.resolve(mockResponse('mock_crumb'));
+        }
+        if (url.includes('chart')) {
+          return Promise.resolve(mockResponse({
+            chart: {
+              result: [
+                {
+                  meta: { symbol: 'AAPL' },
+                  timestamp: [1704067200],
+                  indicators: {
+                    quote: [{ open: [150], high: [151], low: [149], close: [150.5], volume: [1000000] }],
+                  },
+                },
+              ],
+            },
+          }));
+        }
+        return Promise.resolve(mockResponse({}));
+      });
+
+      const result = await ticker.getHistory({ period: '1mo', interval: '1d' });
+      expect(result).toBeDefined();
+    });
+
+    test('should fetch historical data with start/end dates', async () => {
+      const ticker = new Ticker('AAPL');
+
+      mockGet.mockImplementation((url: string) => {
+        if (url.includes('getcrumb')) {
+          return Promise.resolve(mockResponse('mock_crumb'));
+        }
+        if (url.includes('chart')) {
+          return Promise.resolve(mockResponse({
+            chart: {
+              result: [
+                {
+                  meta: { symbol: 'AAPL' },
+                  timestamp: [1704067200],
+                  indicators: {
+                    quote: [{ open: [150], high: [151], low: [149], close: [150.5], volume: [1000000] }],
+                  },
+                },
+              ],
+            },
+          }));
+        }
+        return Promise.resolve(mockResponse({}));
+      });
+
+      const result = await ticker.getHistory({ start: '2024-01-01', end: '2024-01-31' });
+      expect(result).toBeDefined();
+    });
+
+    test('should label daily bars with the exchange trading date', async () => {
+      const ticker = new Ticker('7203.T');
+
+      mockGet.mockImplementation((url: string) => {
+        if (url.includes('getcrumb')) {
+          return Promise.resolve(mockResponse('mock_crumb'));
+        }
+        if (url.includes('chart')) {
+          return Promise.resolve(mockResponse({
+            chart: {
+              result: [
+                {
+                  meta: { symbol: '7203.T', exchangeTimezoneName: 'Asia/Tokyo' },
+                  // 2024-01-03T15:00:00Z is midnight on 2024-01-04 in Tokyo
+                  timestamp: [1704294000],
+                  indicators: {
+                    quote: [{ open: [2500], high: [2550], low: [2490], close: [2540], volume: [100] }],
+                  },
+                },
+              ],
+            },
+          }));
+        }
+        return Promise.resolve(mockResponse({}));
+      });
+
+      const adjusted = await ticker.getHistory({ period: '5d', interval: '1d' });
+      expect((adjusted['7203.T'] as Array<{ date: string }>)[0].date).toBe('2024-01-04');
+
+      const utc = await ticker.getHistory({ period: '5d', interval: '1d', adjTimezone: false });
+      expect((utc['7203.T'] as Array<{ date: string }>)[0].date).toBe('2024-01-03');
+    });
+
+    test('should add exchange-local timestamps to intraday bars', async () => {
+      const ticker = new Ticker('AAPL');
+
+      mockGet.mockImplementation((url: string) => {
+        if (url.includes('getcrumb')) {
+          return Promise.resolve(mockResponse('mock_crumb'));
+        }
+        if (url.includes('chart')) {
+          return Promise.resolve(mockResponse({
+            chart: {
+              result: [
+                {
+                  meta: { symbol: 'AAPL', exchangeTimezoneName: 'America/New_York' },
+                  timestamp: [1704205800],
+                  indicators: {
+                    quote: [{ open: [185], high: [186], low: [184], close: [185.5], volume: [1000] }],
+                  },
+                },
+              ],
+            },
+          }));
+        }
+        return Promise.resolve(mockResponse({}));
+      });
+
+      const result = await ticker.getHistory({ period: '1d', interval: '5m' });
+      const row = (result.AAPL as Array<{ date: Date; localDate: string }>)[0];
+      expect(row.date).toEqual(new Date('2024-01-02T14:30:00Z'));
+      expect(row.localDate).toBe('2024-01-02T09:30:00.000-05:00');
+    });
+
+    test('should request extended hours and tag bar sessions', async () => {
+      const ticker = new Ticker('AAPL');
+      let chartParams: Record<string, unknown> = {};
+
+      mockGet.mockImplementation((url: string, config?: { params?: Record<string, unknown> }) => {
+        if (url.includes('getcrumb')) {
+          return Promise.resolve(mockResponse('mock_crumb'));
+        }
+        if (url.includes('chart')) {
+          chartParams = config?.params ?? {};
+          return Promise.resolve(mockResponse({
+            chart: {
+              result: [
+                {
+                  meta: {
+                    symbol: 'AAPL',
+                    exchangeTimezoneName: 'America/New_York',
+                    tradingPeriods: {
+                      pre: [[{ start: 1704186000, end: 1704205800 }]],
+                      regular: [[{ start: 1704205800, end: 1704229200 }]],
+                      post: [[{ start: 1704229200, end: 1704243600 }]],
+                    },
+                  },
+                  // 08:00, 09:30 and 16:00 New York time
+                  timestamp: [1704200400, 1704205800, 1704229200],
+                  indicators: {
+                    quote: [{ open: [1, 2, 3], high: [1, 2, 3], low: [1, 2, 3], close: [1, 2, 3], volume: [1, 2, 3] }],
+                  },
+                },
+              ],
+            },
+          }));
+        }
+        return Promise.resolve(mockResponse({}));
+      });
+
+      const result = await ticker.getHistory({ period: '1d', interval: '5m', prepost: true });
+      const rows = result.AAPL as Array<{ session: string }>;
+
+      expect(chartParams.includePrePost).toBe('true');
+      expect(rows.map((row) => row.session)).toEqual(['pre', 'regular', 'post']);
+    });
+
+    test('should tag sessions from currentTradingPeriod when tradingPeriods is missing', async () => {
+      const ticker = new Ticker('AAPL');
+
+      mockGet.mockImplementation((url: string) => {
+        if (url.includes('getcrumb')) {
+          return Promise.resolve(mockResponse('mock_crumb'));
+        }
+        if (url.includes('chart')) {
+          return Promise.resolve(mockResponse({
+            chart: {
+              result: [
+                {
+                  meta: {
+                    symbol: 'AAPL',
+                    exchangeTimezoneName: 'America/New_York',
+                    // Regular session on a later day: 09:30-16:00 New York time
+                    currentTradingPeriod: {
+                      regular: { start: 1704292200, end: 1704315600 },
+                    },
+                  },
+                  timestamp: [1704200400, 1704205800, 1704229200],
+                  indicators: {
+                    quote: [{ open: [1, 2, 3], high: [1, 2, 3], low: [1, 2, 3], close: [1, 2, 3], volume: [1, 2, 3] }],
+                  },
+                },
+              ],
+            },
+          }));
+        }
+        return Promise.resolve(mockResponse({}));
+      });
+
+      const result = await ticker.getHistory({ period: '1d', interval: '5m' });
+      const rows = result.AAPL as Array<{ session: string }>;
+
+      expect(rows.map((row) => row.session)).toEqual(['pre', 'regular', 'post']);
+    });
+
+    test('should attach intraday dividends and adjust OHLC without adjclose', async () => {
+      const ticker = new Ticker('AAPL');
+
+      mockGet.mockImplementation((url: string) => {
+        if (url.includes('getcrumb')) {
+          return Promise.resolve(mockResponse('mock_crumb'));
+        }
+        if (url.includes('chart')) {
+          return Promise.resolve(mockResponse({
+            chart: {
+              result: [
+                {
+                  meta: { symbol: 'AAPL', exchangeTimezoneName: 'America/New_York' },
+                  timestamp: [1704229100, 1704292200, 1704292500],
+                  indicators: {
+                    quote: [{ open: [100, 99, 99], high: [100, 99, 99], low: [100, 99, 99], close: [100, 99, 99], volume: [1, 1, 1] }],
+                  },
+                  events: {
+                    // Ex-date a few seconds before the next session's first bar
+                    dividends: { '1704292199': { amount: 1, date: 1704292199 } },
+                  },
+                },
+              ],
+            },
+          }));
+        }
+        return Promise.resolve(mockResponse({}));
+      });
+
+      const raw = await ticker.getHistory({ period: '5d', interval: '5m' });
+      expect((raw.AAPL as Array<{ dividends: number }>).map((row) => row.dividends)).toEqual([0, 1, 0]);
+
+      const adjusted = await ticker.getHistory({ period: '5d', interval: '5m', adjOhlc: true });
+      const closes = (adjusted.AAPL as Array<{ close: number }>).map((row) => row.close);
+      expect(closes[0]).toBeCloseTo(99);
+      expect(closes.slice(1)).toEqual([99, 99]);
+    });
+
+    test('should split long 1m ranges into windows and merge the rows', async () => {
+      const ticker = new Ticker('AAPL');
+      const chartParams: Array<Record<string, unknown>> = [];
+
+      mockGet.mockImplementation((url: string, config?: { params?: Record<string, unknown> }) => {
+        if (url.includes('getcrumb')) {
+          return Promise.resolve(mockResponse('mock_crumb'));
+        }
+        if (url.includes('chart')) {
+          chartParams.push(config?.params ?? {});
+          // Every window returns an overlapping, unsorted pair of bars
+          return Promise.resolve(mockResponse({
+            chart: {
+              result: [
+                {
+                  meta: { symbol: 'AAPL' },
+                  timestamp: [1704205860, 1704205800],
+                  indicators: {
+                    quote: [{ open: [2, 1], high: [2, 1], low: [2, 1], close: [2, 1], volume: [20, 10] }],
+                  },
+                },
+              ],
+            },
+          }));
+        }
+        return Promise.resolve(mockResponse({}));
+      });
+
+      const result = await ticker.getHistory({ period: '1mo', interval: '1m' });
+      const rows = result.AAPL as Array<{ date: Date; close: number }>;
+
+      // 30-day lookback in 7-day windows
+      expect(chartParams).toHaveLength(5);
+      for (const params of chartParams) {
+        expect(Number(params.period2) - Number(params.period1)).toBeLessThanOrEqual(7 * 86400);
+        expect(params.range).toBeUndefined();
+      }
+      expect(rows.map((row) => row.close)).toEqual([1, 2]);
+    });
+
+    test('should adjust windowed history across window boundaries', async () => {
+      const ticker = new Ticker('AAPL');
+      const now = Math.floor(Date.now() / 1000);
+
+      mockGet.mockImplementation((url: string, config?: { params?: Record<string, unknown> }) => {
+        if (url.includes('getcrumb')) {
+          return Promise.resolve(mockResponse('mock_crumb'));
+        }
+        if (url.includes('chart')) {
+          // One bar per window; a split in the first window, a dividend in the last
+          const timestamp = Number(config?.params?.period1) + 60;
+          const first = timestamp < now - 25 * 86400;
+          const last = Number(config?.params?.period2) >= now - 60;
+          return Promise.resolve(mockResponse({
+            chart: {
+              result: [
+                {
+                  meta: { symbol: 'AAPL' },
+                  timestamp: [timestamp],
+                  indicators: { quote: [{ open: [100], high: [100], low: [100], close: [100], volume: [10] }] },
+                  events: {
+                    ...(first && { splits: { [timestamp]: { date: timestamp, numerator: 2, denominator: 1 } } }),
+                    ...(last && { dividends: { [timestamp]: { amount: 1, date: timestamp } } }),
+                  },
+                },
+              ],
+            },
+          }));
+        }
+        return Promise.resolve(mockResponse({}));
+      });
+
+      const result = await ticker.getHistory({ period: '1mo', interval: '1m', adjOhlc: true });
+      const rows = result.AAPL as Array<{ close: number; volume: number; splits?: number }>;
+
+      expect(rows).toHaveLength(5);
+      expect(rows[0].splits).toBe(2);
+      // The dividend in the last window adjusts the bars of every earlier window;
+      // the split is already reflected in Yahoo's prices and is not re-applied
+      expect(rows.slice(0, 4).map((row) => row.close)).toEqual([99, 99, 99, 99].map((close) => expect.closeTo(close)));
+      expect(rows[4].close).toBe(100);
+      expect(rows.map((row) => row.volume)).toEqual([10, 10, 10, 10, 10]);
+    });
+
+    test('should throw with the failed ranges when some windows fail', async () => {
+      const ticker = new Ticker('AAPL');
+      const now = Math.floor(Date.now() / 1000);
+
+      mockGet.mockImplementation((url: string, config?: { params?: Record<string, unknown> }) => {
+        if (url.includes('getcrumb')) {
+          return Promise.resolve(mockResponse('mock_crumb'));
+        }
+        if (url.includes('chart')) {
+          const period1 = Number(config?.params?.period1);
+          if (period1 < now - 25 * 86400) {
+            return Promise.resolve(mockResponse({ chart: { error: { description: 'Data unavailable' } } }));
+          }
+          return Promise.resolve(mockResponse({
+            chart: {
+              result: [
+                {
+                  meta: { symbol: 'AAPL' },
+                  timestamp: [period1 + 60],
+                  indicators: { quote: [{ open: [1], high: [1], low: [1], close: [1], volume: [1] }] },
+                },
+              ],
+            },
+          }));
+        }
+        return Promise.resolve(mockResponse({}));
+      });
+
+      await expect(ticker.getHistory({ period: '1mo', interval: '1m' }))
+        .rejects.toThrow(/Incomplete history for AAPL; failed windows: .* to .* \(Data unavailable\)/);
+    });
+
+    test('should clamp ranges beyond the interval lookback', async () => {
+      const ticker = new Ticker('AAPL');
+      const chartParams: Array<Record<string, unknown>> = [];
+
+      mockGet.mockImplementation((url: string, config?: { params?: Record<string, unknown> }) => {
+        if (url.includes('getcrumb')) {
+          return Promise.resolve(mockResponse('mock_crumb'));
+        }
+        if (url.includes('chart')) {
+          chartParams.push(config?.params ?? {});
+          return Promise.resolve(mockResponse({
+            chart: {
+              result: [
+                {
+                  meta: { symbol: 'AAPL' },
+                  timestamp: [1704205800],
+                  indicators: { quote: [{ open: [1], high: [1], low: [1], close: [1], volume: [1] }] },
+                },
+              ],
+            },
+          }));
+        }
+        return Promise.resolve(mockResponse({}));
+      });
+
+      const warn = jest.spyOn(console, 'warn').mockImplementation();
+      await ticker.getHistory({ period: '1y', interval: '5m' });
+
+      expect(warn).not.toHaveBeenCalled();
+      warn.mockRestore();
+      expect(chartParams).toHaveLength(1);
+      const span = Number(chartParams[0].period2) - Number(chartParams[0].period1);
+      expect(span).toBeLessThanOrEqual(60 * 86400);
+    });
+
+    test('should warn when an explicit start is beyond the interval lookback', async () => {
+      const ticker = new Ticker('AAPL');
+      const warn = jest.spyOn(console, 'warn').mockImplementation();
+      const chartParams: Array<Record<string, unknown>> = [];
+
+      mockGet.mockImplementation((url: string, config?: { params?: Record<string, unknown> }) => {
+        if (url.includes('getcrumb')) {
+          return Promise.resolve(mockResponse('mock_crumb'));
+        }
+        if (url.includes('chart')) {
+          chartParams.push(config?.params ?? {});
+          return Promise.resolve(mockResponse({ chart: { result: [{ meta: { symbol: 'AAPL' }, timestamp: [] }] } }));
+        }
+        return Promise.resolve(mockResponse({}));
+      });
+
+      await ticker.getHistory({ interval: '5m', start: new Date(Date.now() - 90 * 86400 * 1000) });
+
+      expect(warn).toHaveBeenCalledWith(expect.stringMatching(/^5m data is only available for the last 60 days; history starts at /));
+      expect(Number(chartParams[0].period1)).toBeGreaterThanOrEqual(Math.floor(Date.now() / 1000) - 60 * 86400 - 5);
+      warn.mockRestore();
+    });
+
+    test('should reject ranges entirely outside the interval lookback', async () => {
+      const ticker = new Ticker('AAPL');
+
+      await expect(
+        ticker.getHistory({ interval: '1m', start: '2020-01-01', end: '2020-01-05' })
+      ).rejects.toThrow('only available for the last 30 days');
+    });
+
+    test('should throw for invalid interval', async () => {
+      const ticker = new Ticker('AAPL');
+
+      mockGet.mockImplementation((url: string) => {
+        if (url.includes('getcrumb')) {
+          return Promise.resolve(mockResponse('mock_crumb'));
+        }
+        return Promise.resolve(mockResponse({}));
+      });
+
+      await expect(ticker.getHistory({ interval: 'invalid' as string })).rejects.toThrow('Invalid interval');
+    });
+  });
+
+  describe('Market Status', () => {
+    function mockChart(result: Record<string, unknown>) {
+      mockGet.mockImplementation((url: string) => {
+        if (url.includes('getcrumb')) {
+          return Promise.resolve(mockResponse('mock_crumb'));
+        }
+        if (url.includes('chart')) {
+          return Promise.resolve(mockResponse({ chart: { result: [result] } }));
+        }
+        return Promise.resolve(mockResponse({}));
+      });
+    }
+
+    test('should report exchange status with the last trade', async () => {
+      const ticker = new Ticker('AAPL');
+      mockChart({
+        meta: {
+          symbol: 'AAPL',
+          exchangeName: 'NMS',
+          exchangeTimezoneName: 'America/New_York',
+          regularMarketPrice: 190.5,
+          regularMarketTime: 1736542800,
+        },
+        timestamp: [1736519400],
+        indicators: { quote: [{ open: [190], high: [191], low: [189], close: [190.5], volume: [1000] }] },
+      });
+
+      const result = await ticker.getMarketStatus();
+      const status = result.AAPL as Record<string, unknown>;
+
+      expect(status.exchange).toBe('US');
+      expect(status.exchangeName).toBe('NMS');
+      expect(status.regularMarketPrice).toBe(190.5);
+      expect(status.lastTradeTime).toBe('2025-01-10T16:00:00.000-05:00');
+      expect(status.isLive).toBe(status.isOpen);
+      expect(typeof status.nextOpen).toBe('string');
+    });
+
+    test('should report missing daily bars from history', async () => {
+      const ticker = new Ticker('AAPL');
+      // 2025-01-06, 01-07 and 01-10; 01-09 was a market closure
+      mockChart({
+        meta: { symbol: 'AAPL', exchangeName: 'NMS', exchangeTimezoneName: 'America/New_York' },
+        timestamp: [1736173800, 1736260200, 1736519400],
+        indicators: {
+          quote: [{ open: [1, 2, 3], high: [1, 2, 3], low: [1, 2, 3], close: [1, 2, 3], volume: [1, 2, 3] }],
+        },
+      });
+
+      const result = await ticker.getMissingBars({ start: '2025-01-06', end: '2025-01-11' });
+
+      expect(result.AAPL).toEqual(['2025-01-08']);
+    });
+
+    test('should compare bars in exchange time without adjTimezone', async () => {
+      const ticker = new Ticker('BHP.AX');
+      // 10:00 Sydney on 2025-01-06, 01-07 and 01-10, the prior day in UTC
+      mockChart({
+        meta: { symbol: 'BHP.AX', exchangeName: 'ASX', exchangeTimezoneName: 'Australia/Sydney' },
+        timestamp: [1736118000, 1736204400, 1736463600],
+        indicators: {
+          quote: [{ open: [1, 2, 3], high: [1, 2, 3], low: [1, 2, 3], close: [1, 2, 3], volume: [1, 2, 3] }],
+        },
+      });
+
+      const result = await ticker.getMissingBars({ start: '2025-01-06', end: '2025-01-11', adjTimezone: false });
+
+      expect(result['BHP.AX']).toEqual(['2025-01-08', '2025-01-09']);
+    });
+  });
+
+  describe('Returns & Risk', () => {
+    function chart(closes: number[]) {
+      return {
+        meta: { exchangeName: 'NMS', exchangeTimezoneName: 'America/New_York' },
+        timestamp: [1736173800, 1736260200, 1736346600, 1736519400],
+        indicators: {
+          quote: [{ open: closes, high: closes, low: closes, close: closes, volume: [1, 1, 1, 1] }],
+        },
+      };
+    }
+
+    beforeEach(() => {
+      mockGet.mockImplementation((url: string) => {
+        if (url.includes('getcrumb')) {
+          return Promise.resolve(mockResponse('mock_crumb'));
+        }
+        if (url.includes('chart/^GSPC')) {
+          return Promise.resolve(mockResponse({ chart: { result: [chart([100, 101, 99, 102])] } }));
+        }
+        if (url.includes('chart/')) {
+          return Promise.resolve(mockResponse({ chart: { result: [chart([50, 52, 48, 54])] } }));
+        }
+        return Promise.resolve(mockResponse({}));
+      });
+    });
+
+    test('should compute returns per symbol', async () => {
+      const ticker = new Ticker('AAPL');
+      const result = await ticker.getReturns({ start: '2025-01-06', end: '2025-01-11' });
+      const returns = result.AAPL as Array<{ date: string; return: number }>;
+
+      expect(returns).toHaveLength(3);
+      expect(returns[0].date).toBe('2025-01-07');
+      expect(returns[0].return).toBeCloseTo(0.04);
+    });
+
+    test('should fetch the benchmark for beta and add rolling metrics', async () => {
+      const ticker = new Ticker('AAPL');
+      const result = await ticker.getRiskMetrics({ start: '2025-01-06', end: '2025-01-11', window: 2 });
+      const metrics = result.AAPL;
+
+      if (isSymbolError(metrics)) {
+        throw new Error('Expected risk metrics');
+      }
+      expect(metrics.benchmark).toBe('^GSPC');
+      expect(metrics.observations).toBe(3);
+      expect(metrics.beta).not.toBeNull();
+      expect(metrics.rolling).toHaveLength(2);
+      expect(mockGet.mock.calls.some(([url]) => String(url).includes('chart/^GSPC'))).toBe(true);
+    });
+
+    test('should correlate symbols on an aligned panel', async () => {
+      const ticker = new Ticker(['AAPL', '^GSPC']);
+      const result = await ticker.getCorrelation({ start: '2025-01-06', end: '2025-01-11', window: 2 });
+
+      expect(result.symbols).toEqual(['AAPL', '^GSPC']);
+      expect(result.startDate).toBe('2025-01-06');
+      expect(result.correlation[0][0]).toBe(1);
+      expect(result.correlation[0][1]).toBeGreaterThan(0);
+      expect(result.covariance[0][1]).toBe(result.covariance[1][0]);
+      expect(result.rolling).toHaveLength(2);
+    });
+  });
+
+  describe('Financial Statements', () => {
+    test('should fetch income statement', async () => {
+      const ticker = new Ticker('AAPL');
+
+      mockGet.mockImplementation((url: string) => {
+        if (url.includes('getcrumb')) {
+          return Promise.resolve(mockResponse('mock_crumb'));
+        }
+        if (url.includes('fundamentals')) {
+          return Promise.resolve(mockResponse({
+            timeseries: {
+              result: [
+                {
+                  meta: { symbol: ['AAPL'] },
+                  annualTotalRevenue: [{ raw: 365000000000 }],
+                },
+              ],
+            },
+          }));
+        }
+        return Promise.resolve(mockResponse({}));
+      });
+
+      const result = await ticker.getIncomeStatement();
+      expect(result).toBeDefined();
+    });
+
+    test('should fetch quarterly income statement', async () => {
+      const ticker = new Ticker('AAPL');
+
+      mockGet.mockImplementation((url: string) => {
+        if (url.includes('getcrumb')) {
+          return Promise.resolve(mockResponse('mock_crumb'));
+        }
+        if (url.includes('fundamentals')) {
+          return Promise.resolve(mockResponse({
+            timeseries: {
+              result: [{ meta: { symbol: ['AAPL'] } }],
+            },
+          }));
+        }
+        return Promise.resolve(mockResponse({}));
+      });
+
+      const result = await ticker.getIncomeStatement('q');
+      expect(result).toBeDefined();
+    });
+
+    test('should pivot timeseries into one row per period', async () => {
+      const ticker = new Ticker('AAPL');
+      const point = (asOfDate: string, periodType: string, raw: number) => ({
+        asOfDate,
+        periodType,
+        currencyCode: 'USD',
+        reportedValue: { raw, fmt: String(raw) },
+      });
+
+      mockGet.mockImplementation((url: string) => {
+        if (url.includes('getcrumb')) {
+          return Promise.resolve(mockResponse('mock_crumb'));
+        }
+        if (url.includes('fundamentals')) {
+          return Promise.resolve(mockResponse({
+            timeseries: {
+              result: [
+                {
+                  meta: { symbol: ['AAPL'], type: ['annualTotalRevenue'] },
+                  annualTotalRevenue: [point('2023-09-30', '12M', 383), null, point('2022-09-30', '12M', 394)],
+                },
+                {
+                  meta: { symbol: ['AAPL'], type: ['annualNetIncome'] },
+                  annualNetIncome: [point('2022-09-30', '12M', 99), point('2023-09-30', '12M', 97)],
+                },
+                {
+                  meta: { symbol: ['AAPL'], type: ['trailingTotalRevenue'] },
+                  trailingTotalRevenue: [point('2023-09-30', 'TTM', 383)],
+                },
+                { meta: { symbol: ['AAPL'], type: ['annualEBIT'] } },
+              ],
+            },
+          }));
+        }
+        return Promise.resolve(mockResponse({}));
+      });
+
+      const result = await ticker.getIncomeStatement();
+
+      expect(result.AAPL).toEqual([
+        { asOfDate: '2022-09-30', periodType: '12M', currencyCode: 'USD', TotalRevenue: 394, NetIncome: 99 },
+        { asOfDate: '2023-09-30', periodType: '12M', currencyCode: 'USD', TotalRevenue: 383, NetIncome: 97 },
+        { asOfDate: '2023-09-30', periodType: 'TTM', currencyCode: 'USD', TotalRevenue: 383 },
+      ]);
+
+      const noTrailing = await ticker.getIncomeStatement('a', false);
+      expect(noTrailing.AAPL).toHaveLength(2);
+    });
+
+    test('should compute financial ratios from the requested line items', async () => {
+      const ticker = new Ticker('AAPL');
+      const series = (type: string, raw: number) => ({
+        meta: { symbol: ['AAPL'], type: [type] },
+        [type]: [{ asOfDate: '2024-09-30', periodType: '12M', currencyCode: 'USD', reportedValue: { raw } }],
+      });
+
+      mockGet.mockImplementation((url: string) => {
+        if (url.includes('getcrumb')) {
+          return Promise.resolve(mockResponse('mock_crumb'));
+        }
+        if (url.includes('fundamentals')) {
+          return Promise.resolve(mockResponse({
+            timeseries: {
+              result: [series('annualTotalRevenue', 400), series('annualGrossProfit', 180)],
+            },
+          }));
+        }
+        return Promise.resolve(mockResponse({}));
+      });
+
+      const result = await ticker.getFinancialRatios('a');
+      const report = result.AAPL;
+
+      if (isSymbolError(report)) {
+        throw new Error('Expected ratios');
+      }
+      expect(report.periods[0].grossMargin).toBeCloseTo(0.45);
+      const [, config] = mockGet.mock.calls.find(([url]) => String(url).includes('fundamentals')) ?? [];
+      expect(config.params.type).toContain('annualStockholdersEquity');
+      expect(config.params.type).not.toContain('trailing');
+    });
+
+    describe('premium statements', () => {
+      beforeEach(() => {
+        mockGet.mockImplementation((url: string) => {
+          if (url.includes('getcrumb')) {
+            return Promise.resolve(mockResponse('mock_crumb'));
+          }
+          if (url.includes('fundamentals')) {
+            return Promise.resolve(mockResponse({
+              timeseries: { result: [{ meta: { symbol: ['AAPL'] } }] },
+            }));
+          }
+          return Promise.resolve(mockResponse({}));
+        });
+      });
+
+      afterEach(() => {
+        jest.restoreAllMocks();
+      });
+
+      const fundamentalsUrl = (): string =>
+        String(mockGet.mock.calls.find(([url]) => String(url).includes('fundamentals'))?.[0]);
+
+      test('should use the premium endpoint when the session has premium', async () => {
+        const ticker = new Ticker('AAPL');
+        jest.spyOn(SessionManager.prototype, 'hasPremium').mockReturnValue(true);
+
+        await ticker.getBalanceSheet('q', true);
+
+        expect(fundamentalsUrl()).toContain('/premium/timeseries/AAPL');
+      });
+
+      test('should fall back to standard fundamentals with a warning', async () => {
+        const ticker = new Ticker('AAPL');
+        const warn = jest.spyOn(console, 'warn').mockImplementation();
+
+        await ticker.getFinancialData(['TotalRevenue'], 'a', false, true);
+
+        expect(fundamentalsUrl()).not.toContain('/premium/');
+        expect(warn).toHaveBeenCalledWith(expect.stringContaining('Premium'));
+      });
+    });
+
+    test('should build trailing financials from quarterly data', async () => {
+      const ticker = new Ticker('AAPL');
+      const revenue = ['2023-03-31', '2023-06-30', '2023-09-30', '2023-12-31'].map((asOfDate, i) => ({
+        asOfDate,
+        periodType: '3M',
+        currencyCode: 'USD',
+        reportedValue: { raw: 100 + i * 10 },
+      }));
+
+      mockGet.mockImplementation((url: string) => {
+        if (url.includes('getcrumb')) {
+          return Promise.resolve(mockResponse('mock_crumb'));
+        }
+        if (url.includes('fundamentals')) {
+          return Promise.resolve(mockResponse({
+            timeseries: {
+              result: [{ meta: { symbol: ['AAPL'], type: ['quarterlyTotalRevenue'] }, quarterlyTotalRevenue: revenue }],
+            },
+          }));
+        }
+        return Promise.resolve(mockResponse({}));
+      });
+
+      const result = await ticker.getTrailingFinancials('TotalRevenue');
+      const rows = result.AAPL;
+
+      if (isSymbolError(rows)) {
+        throw new Error('Expected TTM rows');
+      }
+      expect(rows[3]).toMatchObject({ asOfDate: '2023-12-31', TotalRevenue: 460, complete: true });
+      expect(rows[0].complete).toBe(false);
+      const [, config] = mockGet.mock.calls.find(([url]) => String(url).includes('fundamentals')) ?? [];
+      expect(config.params.type).toBe('quarterlyTotalRevenue');
+    });
+
+    test('should fetch balance sheet', async () => {
+      const ticker = new Ticker('AAPL');
+
+      mockGet.mockImplementation((url: string) => {
+        if (url.includes('getcrumb')) {
+          return Promise.resolve(mockResponse('mock_crumb'));
+        }
+        if (url.includes('fundamentals')) {
+          return Promise.resolve(mockResponse({
+            timeseries: {
+              result: [{ meta: { symbol: ['AAPL'] } }],
+            },
+          }));
+        }
+        return Promise.resolve(mockResponse({}));
+      });
+
+      const result = await ticker.getBalanceSheet();
+      expect(result).toBeDefined();
+    });
+
+    test('should fetch cash flow statement', async () => {
+      const ticker = new Ticker('AAPL');
+
+      mockGet.mockImplementation((url: string) => {
+        if (url.includes('getcrumb')) {
+          return Promise.resolve(mockResponse('mock_crumb'));
+        }
+        if (url.includes('fundamentals')) {
+          return Promise.resolve(mockResponse({
+            timeseries: {
+              result: [{ meta: { symbol: ['AAPL'] } }],
+            },
+          }));
+        }
+        return Promise.resolve(mockResponse({}));
+      });
+
+      const result = await ticker.getCashFlow();
+      expect(result).toBeDefined();
+    });
+
+    test('should fetch valuation measures', async () => {
+      const ticker = new Ticker('AAPL');
+
+      mockGet.mockImplementation((url: string) => {
+        if (url.includes('getcrumb')) {
+          return Promise.resolve(mockResponse('mock_crumb'));
+        }
+        if (url.includes('fundamentals')) {
+          return Promise.resolve(mockResponse({
+            timeseries: {
+              result: [{ meta: { symbol: ['AAPL'] } }],
+            },
+          }));
+        }
+        return Promise.resolve(mockResponse({}));
+      });
+
+      const result = await ticker.getValuationMeasures();
+      expect(result).toBeDefined();
+    });
+  });
+
+  describe('Options', () => {
+    test('should fetch option chain', async () => {
       const ticker = new Ticker('AAPL');
 
       mockGet.mockImplementation((url: string) => {
         if (url.includes('getcrumb')) {
           return Promise.resolve(mockResponse('mock_crumb'));
         }
-        if (url.includes('chart')) {
+        if (url.includes('options')) {
           return Promise.resolve(mockResponse({
-            chart: {
+            optionChain: {
               result: [
                 {
-                  meta: { symbol: 'AAPL', exchangeTimezoneName: 'America/New_York' },
-                  timestamp: [1704067200, 1704153600],
-                  indicators: {
-                    quote: [
-                      {
-                        open: [150, 151],
-                        high: [151.5, 152.5],
-                        low: [149.5, 150.5],
-                        close: [151, 152],
-                        volume: [1000000, 1100000],
-                      },
-                    ],
-                    adjclose: [{ adjclose: [150.9, 151.9] }],
-                  },
+                  underlyingSymbol: 'AAPL',
+                  expirationDates: [1705622400],
+                  strikes: [150, 155, 160],
+                  options: [
+                    {
+                      expirationDate: 1705622400,
+                      calls: [{ strike: 150, lastPrice: 5.5 }],
+                      puts: [{ strike: 150, lastPrice: 2.5 }],
+                    },
+                  ],
                 },
               ],
             },
@@ -310,232 +1246,401 @@ describe('Ticker - Unit Tests with Mocked HTTP', () => {
         return Promise.resolve(mockResponse({}));
       });
 
-      const result = await ticker.getHistory();
+      const result = await ticker.getOptionChain();
       expect(result).toBeDefined();
-      expect(result.AAPL).toBeDefined();
     });
 
-    test('should fetch historical data with custom period', async () => {
+    test('should fetch requested expirations and filter strikes by moneyness', async () => {
+      const ticker = new Ticker('AAPL');
+      const chain = (expirationDate: number) => ({
+        underlyingSymbol: 'AAPL',
+        quote: { regularMarketPrice: 100 },
+        expirationDates: [1705622400, 1706227200],
+        strikes: [80, 95, 100, 105, 120],
+        options: [
+          {
+            expirationDate,
+            calls: [80, 95, 100, 105, 120].map((strike) => ({ strike, lastPrice: 1 })),
+            puts: [95, 100, 120].map((strike) => ({ strike, lastPrice: 1 })),
+          },
+        ],
+      });
+
+      mockGet.mockImplementation((url: string, config?: { params?: Record<string, unknown> }) => {
+        if (url.includes('getcrumb')) {
+          return Promise.resolve(mockResponse('mock_crumb'));
+        }
+        if (url.includes('options')) {
+          return Promise.resolve(mockResponse({
+            optionChain: { result: [chain(Number(config?.params?.date))] },
+          }));
+        }
+        return Promise.resolve(mockResponse({}));
+      });
+
+      const result = await ticker.getOptionChain({
+        expirations: ['2024-01-19', new Date('2024-01-26T15:00:00Z')],
+        moneyness: 0.05,
+        straddle: true,
+      });
+      const data = result.AAPL;
+
+      if (isSymbolError(data)) {
+        throw new Error('Expected option chain');
+      }
+      const dates = mockGet.mock.calls
+        .filter(([url]) => String(url).includes('options'))
+        .map(([, config]) => config.params.date);
+      expect(dates).toEqual([1705622400, 1706227200]);
+      expect(data.underlyingPrice).toBe(100);
+      expect(data.strikes).toEqual([95, 100, 105]);
+      expect(data.calls).toHaveLength(6);
+      expect(data.puts.map((put) => put.strike)).toEqual([95, 100, 95, 100]);
+      expect(data.straddles?.slice(0, 3).map((row) => [row.strike, row.call !== null, row.put !== null])).toEqual([
+        [95, true, true],
+        [100, true, true],
+        [105, true, false],
+      ]);
+    });
+
+    test('should price contracts with the ^IRX rate unless one is given', async () => {
       const ticker = new Ticker('AAPL');
+      const closes = [5.1, 5.2, 5.2, 5.0];
 
       mockGet.mockImplementation((url: string) => {
         if (url.includes('getcrumb')) {
           return Promise.resolve(mockResponse('mock_crumb'));
         }
-        if (url.includes('chart')) {
+        if (url.includes('chart/^IRX')) {
           return Promise.resolve(mockResponse({
             chart: {
-              result: [
-                {
-                  meta: { symbol: 'AAPL' },
-                  timestamp: [1704067200],
-                  indicators: {
-                    quote: [{ open: [150], high: [151], low: [149], close: [150.5], volume: [1000000] }],
-                  },
-                },
-              ],
+              result: [{
+                meta: { exchangeTimezoneName: 'America/New_York' },
+                timestamp: [1736173800, 1736260200, 1736346600, 1736519400],
+                indicators: { quote: [{ open: closes, high: closes, low: closes, close: closes, volume: [0, 0, 0, 0] }] },
+              }],
+            },
+          }));
+        }
+        if (url.includes('options')) {
+          return Promise.resolve(mockResponse({
+            optionChain: {
+              result: [{
+                underlyingSymbol: 'AAPL',
+                quote: { regularMarketPrice: 100, trailingAnnualDividendYield: 0.01 },
+                options: [{
+                  expirationDate: 1894924800,
+                  calls: [{ strike: 100, bid: 20, ask: 21 }],
+                  puts: [{ strike: 100, bid: 0, ask: 0 }],
+                }],
+              }],
             },
           }));
         }
         return Promise.resolve(mockResponse({}));
       });
 
-      const result = await ticker.getHistory({ period: '1mo', interval: '1d' });
-      expect(result).toBeDefined();
+      const result = await ticker.getOptionGreeks();
+      const data = result.AAPL;
+
+      if (isSymbolError(data)) {
+        throw new Error('Expected option chain');
+      }
+      expect(data.calls[0].greeks?.impliedVolatility).toBeGreaterThan(0);
+      expect(data.calls[0].greeks?.delta).toBeGreaterThan(0);
+      expect(data.puts[0].greeks).toBeNull();
+      expect(mockGet.mock.calls.some(([url]) => String(url).includes('chart/^IRX'))).toBe(true);
+
+      mockGet.mockClear();
+      await ticker.getOptionGreeks({ riskFreeRate: 0.03, style: 'european' });
+      expect(mockGet.mock.calls.some(([url]) => String(url).includes('chart/'))).toBe(false);
     });
 
-    test('should fetch historical data with start/end dates', async () => {
+    test('should compute option analytics per symbol', async () => {
       const ticker = new Ticker('AAPL');
 
       mockGet.mockImplementation((url: string) => {
         if (url.includes('getcrumb')) {
           return Promise.resolve(mockResponse('mock_crumb'));
         }
-        if (url.includes('chart')) {
+        if (url.includes('options')) {
           return Promise.resolve(mockResponse({
-            chart: {
-              result: [
-                {
-                  meta: { symbol: 'AAPL' },
-                  timestamp: [1704067200],
-                  indicators: {
-                    quote: [{ open: [150], high: [151], low: [149], close: [150.5], volume: [1000000] }],
-                  },
-                },
-              ],
+            optionChain: {
+              result: [{
+                underlyingSymbol: 'AAPL',
+                quote: { regularMarketPrice: 100 },
+                options: [{
+                  expirationDate: 1705622400,
+                  calls: [{ strike: 100, volume: 500, openInterest: 100, lastPrice: 3 }],
+                  puts: [{ strike: 100, volume: 250, openInterest: 300, lastPrice: 2 }],
+                }],
+              }],
             },
           }));
         }
         return Promise.resolve(mockResponse({}));
       });
 
-      const result = await ticker.getHistory({ start: '2024-01-01', end: '2024-01-31' });
-      expect(result).toBeDefined();
+      const result = await ticker.getOptionAnalytics({ unusualLimit: 1 });
+      const analytics = result.AAPL;
+
+      if (isSymbolError(analytics)) {
+        throw new Error('Expected option analytics');
+      }
+      expect(analytics.putCallVolumeRatio).toBeCloseTo(0.5);
+      expect(analytics.expirations[0]).toMatchObject({ expiration: '2024-01-19', maxPain: 100 });
+      expect(analytics.expirations[0].expectedMove?.straddlePrice).toBe(5);
+      expect(analytics.unusual).toHaveLength(1);
     });
 
-    test('should throw for invalid interval', async () => {
+    test('should build a volatility surface from the priced chain', async () => {
       const ticker = new Ticker('AAPL');
 
       mockGet.mockImplementation((url: string) => {
         if (url.includes('getcrumb')) {
           return Promise.resolve(mockResponse('mock_crumb'));
         }
+        if (url.includes('options')) {
+          return Promise.resolve(mockResponse({
+            optionChain: {
+              result: [{
+                underlyingSymbol: 'AAPL',
+                quote: { regularMarketPrice: 100 },
+                options: [{
+                  expirationDate: 1894924800,
+                  calls: [{ strike: 105, bid: 18, ask: 19 }],
+                  puts: [{ strike: 95, bid: 14, ask: 15 }],
+                }],
+              }],
+            },
+          }));
+        }
         return Promise.resolve(mockResponse({}));
       });
 
-      await expect(ticker.getHistory({ interval: 'invalid' as string })).rejects.toThrow('Invalid interval');
+      const result = await ticker.getVolatilitySurface({ riskFreeRate: 0.04, tenors: [30] });
+      const surface = result.AAPL;
+
+      if (isSymbolError(surface)) {
+        throw new Error('Expected volatility surface');
+      }
+      expect(surface.slices).toHaveLength(1);
+      expect(surface.slices[0].expiration).toBe('2030-01-18');
+      expect(surface.slices[0].atmVolatility).toBeGreaterThan(0);
+      expect(surface.constantMaturity).toEqual([{ days: 30, volatility: null }]);
     });
-  });
 
-  describe('Financial Statements', () => {
-    test('should fetch income statement', async () => {
+    test('should list option expirations', async () => {
       const ticker = new Ticker('AAPL');
 
       mockGet.mockImplementation((url: string) => {
         if (url.includes('getcrumb')) {
           return Promise.resolve(mockResponse('mock_crumb'));
         }
-        if (url.includes('fundamentals')) {
+        if (url.includes('options')) {
           return Promise.resolve(mockResponse({
-            timeseries: {
-              result: [
-                {
-                  meta: { symbol: ['AAPL'] },
-                  annualTotalRevenue: [{ raw: 365000000000 }],
-                },
-              ],
-            },
+            optionChain: { result: [{ underlyingSymbol: 'AAPL', expirationDates: [1705622400, 1706227200] }] },
           }));
         }
         return Promise.resolve(mockResponse({}));
       });
 
-      const result = await ticker.getIncomeStatement();
-      expect(result).toBeDefined();
+      const result = await ticker.getOptionExpirations();
+
+      expect(result.AAPL).toEqual(['2024-01-19', '2024-01-26']);
+      const [, config] = mockGet.mock.calls.find(([url]) => String(url).includes('options')) ?? [];
+      expect(config.params.getAllData).toBeUndefined();
     });
+  });
 
-    test('should fetch quarterly income statement', async () => {
+  describe('Additional Methods', () => {
+    test('should fetch ESG score history with formatted dates', async () => {
       const ticker = new Ticker('AAPL');
 
       mockGet.mockImplementation((url: string) => {
         if (url.includes('getcrumb')) {
           return Promise.resolve(mockResponse('mock_crumb'));
         }
-        if (url.includes('fundamentals')) {
+        if (url.includes('esgChart')) {
           return Promise.resolve(mockResponse({
-            timeseries: {
-              result: [{ meta: { symbol: ['AAPL'] } }],
+            esgChart: {
+              result: [{
+                symbol: 'AAPL',
+                peerGroup: 'Technology Hardware',
+                symbolSeries: {
+                  timestamp: [1693526400, 1696118400],
+                  esgScore: [17.2, 16.9],
+                  environmentScore: [0.6, 0.5],
+                  socialScore: [7.6, 7.4],
+                  governanceScore: [9, 9],
+                },
+                peerSeries: { timestamp: [1693526400], esgScore: [24.1] },
+              }],
+              error: null,
             },
           }));
         }
         return Promise.resolve(mockResponse({}));
       });
 
-      const result = await ticker.getIncomeStatement('q');
-      expect(result).toBeDefined();
+      const result = await ticker.getEsgChart();
+      const chart = result.AAPL;
+
+      if (isSymbolError(chart)) {
+        throw new Error('Expected ESG chart');
+      }
+      expect(chart.peerGroup).toBe('Technology Hardware');
+      expect(chart.series[1]).toEqual({
+        date: '2023-10-01',
+        esgScore: 16.9,
+        environmentScore: 0.5,
+        socialScore: 7.4,
+        governanceScore: 9,
+      });
+      expect(chart.peerSeries).toEqual([
+        { date: '2023-09-01', esgScore: 24.1, environmentScore: null, socialScore: null, governanceScore: null },
+      ]);
+      const [, config] = mockGet.mock.calls.find(([url]) => String(url).includes('esgChart')) ?? [];
+      expect(config.params.symbol).toBe('AAPL');
     });
 
-    test('should fetch balance sheet', async () => {
+    test('should fetch ESG peer scores', async () => {
       const ticker = new Ticker('AAPL');
 
       mockGet.mockImplementation((url: string) => {
         if (url.includes('getcrumb')) {
           return Promise.resolve(mockResponse('mock_crumb'));
         }
-        if (url.includes('fundamentals')) {
+        if (url.includes('esgPeerScores')) {
           return Promise.resolve(mockResponse({
-            timeseries: {
-              result: [{ meta: { symbol: ['AAPL'] } }],
+            esgPeerScores: {
+              result: [{
+                symbol: 'AAPL',
+                peerGroup: 'Technology Hardware',
+                timestamp: 1696118400,
+                esgScore: { raw: 17.2, fmt: '17.2' },
+                peers: [{ symbol: 'MSFT', timestamp: [1693526400, 1696118400] }],
+              }],
             },
           }));
         }
         return Promise.resolve(mockResponse({}));
       });
 
-      const result = await ticker.getBalanceSheet();
-      expect(result).toBeDefined();
+      const result = await ticker.getEsgPeerScores();
+
+      expect(result.AAPL).toEqual({
+        symbol: 'AAPL',
+        peerGroup: 'Technology Hardware',
+        timestamp: '2023-10-01',
+        esgScore: 17.2,
+        peers: [{ symbol: 'MSFT', timestamp: ['2023-09-01', '2023-10-01'] }],
+      });
     });
 
-    test('should fetch cash flow statement', async () => {
+    test('should fetch Company360 sections', async () => {
       const ticker = new Ticker('AAPL');
 
       mockGet.mockImplementation((url: string) => {
         if (url.includes('getcrumb')) {
           return Promise.resolve(mockResponse('mock_crumb'));
         }
-        if (url.includes('fundamentals')) {
+        if (url.includes('company360')) {
           return Promise.resolve(mockResponse({
-            timeseries: {
-              result: [{ meta: { symbol: ['AAPL'] } }],
+            finance: {
+              result: [{
+                symbol: 'AAPL',
+                hiring: { totalJobs: { raw: 1200, fmt: '1.2k' }, hiringTrend: [{ date: '2024-01-01', count: 1100 }] },
+                supplyChain: { suppliers: [{ symbol: 'TSM', name: 'Taiwan Semiconductor' }] },
+                dividend: { yield: 0.005 },
+              }],
             },
           }));
         }
         return Promise.resolve(mockResponse({}));
       });
 
-      const result = await ticker.getCashFlow();
-      expect(result).toBeDefined();
+      const result = await ticker.getCompany360('hiring, supplyChain');
+
+      expect(result.AAPL).toEqual({
+        hiring: { totalJobs: 1200, hiringTrend: [{ date: '2024-01-01', count: 1100 }] },
+        supplyChain: { suppliers: [{ symbol: 'TSM', name: 'Taiwan Semiconductor' }] },
+      });
+      const [, config] = mockGet.mock.calls.find(([url]) => String(url).includes('company360')) ?? [];
+      expect(config.params.modules).toBe('hiring,supplyChain');
     });
 
-    test('should fetch valuation measures', async () => {
+    test('should reject invalid Company360 modules', async () => {
       const ticker = new Ticker('AAPL');
 
+      await expect(ticker.getCompany360(['hiring', 'patents'])).rejects.toThrow('Invalid modules: patents');
+    });
+
+    test('should fetch fair values for all symbols in one request', async () => {
+      const ticker = new Ticker(['AAPL', 'MSFT']);
+
       mockGet.mockImplementation((url: string) => {
         if (url.includes('getcrumb')) {
           return Promise.resolve(mockResponse('mock_crumb'));
         }
-        if (url.includes('fundamentals')) {
+        if (url.includes('multiquote')) {
           return Promise.resolve(mockResponse({
-            timeseries: {
-              result: [{ meta: { symbol: ['AAPL'] } }],
-            },
+            finance: { result: [{ symbol: 'AAPL', price: 180, fairValue: 200, valuation: 'Undervalued' }] },
           }));
         }
         return Promise.resolve(mockResponse({}));
       });
 
-      const result = await ticker.getValuationMeasures();
-      expect(result).toBeDefined();
+      const result = await ticker.getFairValue();
+
+      expect(result.AAPL).toEqual({
+        symbol: 'AAPL',
+        price: 180,
+        fairValue: 200,
+        premium: expect.closeTo(-0.1),
+        classification: 'undervalued',
+        label: 'Undervalued',
+      });
+      expect(result.MSFT).toBe('No data found');
+      const [, config] = mockGet.mock.calls.find(([url]) => String(url).includes('multiquote')) ?? [];
+      expect(config.params.symbols).toBe('AAPL,MSFT');
     });
-  });
 
-  describe('Options', () => {
-    test('should fetch option chain', async () => {
+    test('should fetch the Value Analyzer drilldown band', async () => {
       const ticker = new Ticker('AAPL');
 
       mockGet.mockImplementation((url: string) => {
         if (url.includes('getcrumb')) {
           return Promise.resolve(mockResponse('mock_crumb'));
         }
-        if (url.includes('options')) {
+        if (url.includes('valueAnalyzer')) {
           return Promise.resolve(mockResponse({
-            optionChain: {
-              result: [
-                {
-                  underlyingSymbol: 'AAPL',
-                  expirationDates: [1705622400],
-                  strikes: [150, 155, 160],
-                  options: [
-                    {
-                      expirationDate: 1705622400,
-                      calls: [{ strike: 150, lastPrice: 5.5 }],
-                      puts: [{ strike: 150, lastPrice: 2.5 }],
-                    },
-                  ],
-                },
-              ],
+            finance: {
+              result: [{
+                symbol: 'AAPL',
+                price: 120,
+                fairValue: 100,
+                lowerBound: 90,
+                upperBound: 110,
+                series: { timestamp: [1704153600], price: [95], fairValue: [100], lowerBound: [90], upperBound: [110] },
+              }],
             },
           }));
         }
         return Promise.resolve(mockResponse({}));
       });
 
-      const result = await ticker.getOptionChain();
-      expect(result).toBeDefined();
+      const result = await ticker.getValueAnalyzerDrilldown('2024-01-01', '2024-02-01');
+
+      expect(result.AAPL).toMatchObject({
+        classification: 'overvalued',
+        band: { low: 90, fair: 100, high: 110 },
+        series: [{ date: '2024-01-02', price: 95, classification: 'fair' }],
+      });
+      const [, config] = mockGet.mock.calls.find(([url]) => String(url).includes('valueAnalyzer')) ?? [];
+      expect(config.params).toMatchObject({ symbol: 'AAPL', start: 1704067200, end: 1706745600 });
     });
-  });
 
-  describe('Additional Methods', () => {
     test('should fetch quotes', async () => {
       const ticker = new Ticker('AAPL');
 
@@ -601,6 +1706,68 @@ describe('Ticker - Unit Tests with Mocked HTTP', () => {
       expect(result).toBeDefined();
     });
 
+    test('should fetch premium insights', async () => {
+      const ticker = new Ticker('AAPL');
+
+      mockGet.mockImplementation((url: string) => {
+        if (url.includes('getcrumb')) {
+          return Promise.resolve(mockResponse('mock_crumb'));
+        }
+        if (url.includes('premium/insights')) {
+          return Promise.resolve(mockResponse({ finance: { result: [{ symbol: 'AAPL', reports: [] }] } }));
+        }
+        return Promise.resolve(mockResponse({}));
+      });
+
+      const result = await ticker.getPremiumInsights(5);
+
+      expect(result.AAPL).toEqual({ symbol: 'AAPL', reports: [] });
+      const [, config] = mockGet.mock.calls.find(([url]) => String(url).includes('premium/insights')) ?? [];
+      expect(config.params.reportsCount).toBe(5);
+    });
+
+    test('should fetch and normalize technical events', async () => {
+      const ticker = new Ticker('AAPL');
+
+      mockGet.mockImplementation((url: string) => {
+        if (url.includes('getcrumb')) {
+          return Promise.resolve(mockResponse('mock_crumb'));
+        }
+        if (url.includes('technicalevents')) {
+          return Promise.resolve(mockResponse({
+            technicalEvents: {
+              result: [{
+                symbol: 'AAPL',
+                events: [
+                  { eventType: 'Double Bottom', tradeType: 'BULLISH', tradingHorizon: 'SHORT_TERM', date: 1704153600, targetPrice: 200 },
+                  { eventType: 'Head and Shoulders', tradeType: 'Bearish', tradingHorizon: 'LONG_TERM', date: '2024-01-03T00:00:00Z' },
+                ],
+              }],
+            },
+          }));
+        }
+        return Promise.resolve(mockResponse({}));
+      });
+
+      const result = await ticker.getTechnicalEvents({ horizons: 'short', size: 10 });
+
+      expect(result.AAPL).toEqual([
+        { pattern: 'Double Bottom', direction: 'bullish', horizon: 'short', date: '2024-01-02', target: 200 },
+      ]);
+      const [, config] = mockGet.mock.calls.find(([url]) => String(url).includes('technicalevents')) ?? [];
+      expect(config.params).toMatchObject({ symbol: 'AAPL', tradingHorizons: 'SHORT_TERM', size: 10 });
+
+      const all = await ticker.getTechnicalEvents();
+      expect(all.AAPL).toHaveLength(2);
+      expect((all.AAPL as TechnicalEventRow[])[1]).toMatchObject({ direction: 'bearish', horizon: 'long', date: '2024-01-03', target: null });
+    });
+
+    test('should reject invalid trading horizons', async () => {
+      const ticker = new Ticker('AAPL');
+
+      await expect(ticker.getTechnicalEvents({ horizons: ['weekly' as 'short'] })).rejects.toThrow('Invalid trading horizons: weekly');
+    });
+
     test('should fetch news', async () => {
       const ticker = new Ticker('AAPL');
 
@@ -678,7 +1845,7 @@ describe('Ticker - Unit Tests with Mocked HTTP', () => {
       });
 
       const result = await ticker.getFundTopHoldings();
-      expect(result).toBeDefined();
+      expect(result.SPY).toEqual([{ symbol: 'AAPL' }]);
     });
 
     test('should fetch fund performance', async () => {
@@ -732,6 +1899,98 @@ describe('Ticker - Unit Tests with Mocked HTTP', () => {
       expect(result.valid).toBeDefined();
       expect(result.invalid).toBeDefined();
     });
+
+    describe('lazy validation', () => {
+      const validationResponse = (url: string) => {
+        if (url.includes('getcrumb')) {
+          return mockResponse('mock_crumb');
+        }
+        if (url.includes('validate')) {
+          return mockResponse({ symbolsValidation: { result: [{ AAPL: true, AAPLL: false }] } });
+        }
+        if (url.includes('finance/search')) {
+          return mockResponse({ quotes: [{ symbol: 'AAPLL' }, { symbol: 'AAPL' }, { symbol: 'APLE' }] });
+        }
+        if (url.includes('v7/finance/quote')) {
+          return mockResponse({ quoteResponse: { result: [{ symbol: 'AAPL', regularMarketPrice: 150 }] } });
+        }
+        if (url.includes('quoteSummary')) {
+          return mockResponse({
+            quoteSummary: { result: [{ price: { regularMarketPrice: { raw: 150 } } }] },
+          });
+        }
+        return mockResponse({});
+      };
+
+      test('should validate on the first data call and skip invalid symbols', async () => {
+        const ticker = new Ticker(['AAPL', 'AAPLL'], { validate: true });
+        mockGet.mockImplementation((url: string) => Promise.resolve(validationResponse(url)));
+
+        const result = await ticker.getPrice();
+        await ticker.getPrice();
+
+        expect(ticker.invalidSymbols).toEqual(['AAPLL']);
+        expect(ticker.symbols).toEqual(['AAPL', 'AAPLL']);
+        expect(result.AAPLL).toEqual({ error: 'Invalid symbol: AAPLL', invalidSymbol: true, suggestions: ['AAPL', 'APLE'] });
+        expect(isSymbolError(result.AAPL)).toBe(false);
+
+        const urls = mockGet.mock.calls.map(([url]) => String(url));
+        expect(urls.filter((url) => url.includes('validate'))).toHaveLength(1);
+        expect(urls.filter((url) => url.includes('quoteSummary/AAPLL'))).toHaveLength(0);
+      });
+
+      test('should validate once for concurrent first calls', async () => {
+        const ticker = new Ticker(['AAPL', 'AAPLL'], { validate: true });
+        mockGet.mockImplementation((url: string) => Promise.resolve(validationResponse(url)));
+
+        const [prices, quotes] = await Promise.all([ticker.getPrice(), ticker.getQuotes()]);
+
+        expect(prices.AAPLL).toMatchObject({ invalidSymbol: true });
+        expect(quotes.AAPLL).toMatchObject({ invalidSymbol: true });
+        expect(quotes.AAPL).toEqual({ regularMarketPrice: 150 });
+
+        const urls = mockGet.mock.calls.map(([url]) => String(url));
+        expect(urls.filter((url) => url.includes('validate'))).toHaveLength(1);
+        const [, config] = mockGet.mock.calls.find(([url]) => String(url).includes('v7/finance/quote')) ?? [];
+        expect(config.params.symbols).toBe('AAPL');
+      });
+
+      test('should not request multi-symbol endpoints when every symbol is invalid', async () => {
+        const ticker = new Ticker('AAPLL', { validate: true });
+        mockGet.mockImplementation((url: string) => Promise.resolve(validationResponse(url)));
+
+        const quotes = await ticker.getQuotes();
+
+        expect(quotes.AAPLL).toMatchObject({ error: 'Invalid symbol: AAPLL', invalidSymbol: true });
+        expect(mockGet.mock.calls.some(([url]) => String(url).includes('v7/finance/quote'))).toBe(false);
+      });
+
+      test('should drop invalid symbols on an explicit validate', async () => {
+        const ticker = new Ticker(['AAPL', 'AAPLL'], { validate: true });
+        mockGet.mockImplementation((url: string) => Promise.resolve(validationResponse(url)));
+
+        await ticker.validate();
+        const result = await ticker.getPrice();
+
+        expect(ticker.symbols).toEqual(['AAPL']);
+        expect(ticker.invalidSymbols).toEqual(['AAPLL']);
+        expect(Object.keys(result)).toEqual(['AAPL']);
+
+        const urls = mockGet.mock.calls.map(([url]) => String(url));
+        expect(urls.filter((url) => url.includes('validate'))).toHaveLength(1);
+        expect(urls.some((url) => url.includes('finance/search'))).toBe(false);
+      });
+
+      test('should not validate without the option', async () => {
+        const ticker = new Ticker(['AAPL', 'AAPLL']);
+        mockGet.mockImplementation((url: string) => Promise.resolve(validationResponse(url)));
+
+        await ticker.getPrice();
+
+        expect(ticker.invalidSymbols).toBeNull();
+        expect(mockGet.mock.calls.some(([url]) => String(url).includes('validate'))).toBe(false);
+      });
+    });
   });
 
   describe('Multiple Symbols', () => {
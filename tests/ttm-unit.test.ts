@@ -0,0 +1,94 @@
+/**
+ * TTM Builder Unit Tests
+ */
+
+import { buildFinancialsTtm, buildTtm, ttmAggregation } from '../src/analysis/ttm';
+import { FinancialStatementRow } from '../src/types';
+
+function quarter(asOfDate: string, items: Record<string, number>): FinancialStatementRow {
+  return { asOfDate, periodType: '3M', currencyCode: 'USD', ...items };
+}
+
+const QUARTERS = [
+  quarter('2023-03-31', { TotalRevenue: 100, TotalAssets: 1000, BasicAverageShares: 10 }),
+  quarter('2023-06-30', { TotalRevenue: 110, TotalAssets: 1010, BasicAverageShares: 10 }),
+  quarter('2023-09-30', { TotalRevenue: 120, TotalAssets: 1020, BasicAverageShares: 12 }),
+  quarter('2023-12-31', { TotalRevenue: 130, TotalAssets: 1030, BasicAverageShares: 12 }),
+  quarter('2024-03-31', { TotalRevenue: 140, TotalAssets: 1040, BasicAverageShares: 12 }),
+];
+
+describe('TTM Builder', () => {
+  test('ttmAggregation should classify line items by statement and units', () => {
+    expect(ttmAggregation('TotalRevenue')).toBe('sum');
+    expect(ttmAggregation('FreeCashFlow')).toBe('sum');
+    expect(ttmAggregation('TotalAssets')).toBe('last');
+    expect(ttmAggregation('MarketCap')).toBe('last');
+    expect(ttmAggregation('BasicAverageShares')).toBe('average');
+    expect(ttmAggregation('BeginningCashPosition')).toBe('first');
+    expect(ttmAggregation('EndCashPosition')).toBe('last');
+  });
+
+  test('should sum flows and take the latest balance over four quarters', () => {
+    const rows = buildTtm(QUARTERS);
+
+    expect(rows).toHaveLength(5);
+    expect(rows[3]).toEqual({
+      asOfDate: '2023-12-31',
+      periodType: 'TTM',
+      currencyCode: 'USD',
+      startDate: '2023-03-31',
+      quarters: 4,
+      complete: true,
+      TotalRevenue: 460,
+      TotalAssets: 1030,
+      BasicAverageShares: 11,
+    });
+    expect(rows[4].TotalRevenue).toBe(500);
+    expect(rows[4].startDate).toBe('2023-06-30');
+  });
+
+  test('should flag periods with fewer than four quarters', () => {
+    const rows = buildTtm(QUARTERS);
+
+    expect(rows.slice(0, 3).map((row) => row.quarters)).toEqual([1, 2, 3]);
+    expect(rows.slice(0, 3).every((row) => !row.complete)).toBe(true);
+    expect(rows[2].TotalRevenue).toBe(330);
+  });
+
+  test('should restart the window after a missing quarter', () => {
+    const gapped = [QUARTERS[0], QUARTERS[1], QUARTERS[3], QUARTERS[4]];
+    const rows = buildTtm(gapped);
+
+    expect(rows.map((row) => row.quarters)).toEqual([1, 2, 1, 2]);
+    expect(rows[3].complete).toBe(false);
+  });
+
+  test('should return null sums when a quarter lacks the line item', () => {
+    const rows = buildTtm([
+      QUARTERS[0],
+      quarter('2023-06-30', { TotalAssets: 1010 }),
+      QUARTERS[2],
+      QUARTERS[3],
+    ]);
+
+    expect(rows[3].TotalRevenue).toBeNull();
+    expect(rows[3].TotalAssets).toBe(1030);
+  });
+
+  test('should ignore annual and TTM rows and honour aggregation overrides', () => {
+    const rows = buildTtm(
+      [...QUARTERS, { asOfDate: '2023-12-31', periodType: '12M', currencyCode: 'USD', TotalRevenue: 460 }],
+      { aggregation: { TotalAssets: 'average' } }
+    );
+
+    expect(rows).toHaveLength(5);
+    expect(rows[3].TotalAssets).toBe(1015);
+  });
+
+  test('buildFinancialsTtm should pass symbol errors through', () => {
+    const result = buildFinancialsTtm({ AAPL: QUARTERS, BAD: 'No fundamentals data found' });
+
+    expect(result.BAD).toBe('No fundamentals data found');
+    expect(result.AAPL).toHaveLength(5);
+  });
+});
@@ -0,0 +1,70 @@
+/**
+ * Valuation Unit Tests
+ */
+
+import {
+  classifyValuation,
+  classifyValuationLabel,
+  normalizeValueAnalysis,
+  valuationBandRows,
+} from '../src/analysis/valuation';
+
+describe('Valuation', () => {
+  test('classifyValuationLabel should map provider labels', () => {
+    expect(classifyValuationLabel('Undervalued')).toBe('undervalued');
+    expect(classifyValuationLabel('Discount')).toBe('undervalued');
+    expect(classifyValuationLabel('OVERVALUED')).toBe('overvalued');
+    expect(classifyValuationLabel('Premium')).toBe('overvalued');
+    expect(classifyValuationLabel('Near Fair Value')).toBe('fair');
+    expect(classifyValuationLabel('n/a')).toBeNull();
+    expect(classifyValuationLabel(undefined)).toBeNull();
+  });
+
+  test('classifyValuation should use the band, or a tolerance around fair value', () => {
+    const band = { low: 90, fair: 100, high: 110 };
+
+    expect(classifyValuation(85, band)).toBe('undervalued');
+    expect(classifyValuation(110, band)).toBe('fair');
+    expect(classifyValuation(111, band)).toBe('overvalued');
+    expect(classifyValuation(108, { low: null, fair: 100, high: null }, { tolerance: 0.05 })).toBe('overvalued');
+    expect(classifyValuation(null, band)).toBeNull();
+    expect(classifyValuation(100, { low: null, fair: null, high: null })).toBeNull();
+  });
+
+  test('normalizeValueAnalysis should prefer the provider label', () => {
+    const analysis = normalizeValueAnalysis('AAPL', {
+      price: 120,
+      fairValue: 100,
+      lowerBound: 90,
+      upperBound: 110,
+      valuation: 'Near Fair Value',
+    });
+
+    expect(analysis).toEqual({
+      symbol: 'AAPL',
+      price: 120,
+      fairValue: 100,
+      premium: expect.closeTo(0.2),
+      classification: 'fair',
+      label: 'Near Fair Value',
+      band: { low: 90, fair: 100, high: 110 },
+    });
+    expect(normalizeValueAnalysis('AAPL', { price: 120 })).toMatchObject({ premium: null, classification: null, band: null });
+  });
+
+  test('valuationBandRows should classify each date against its band', () => {
+    const rows = valuationBandRows({
+      timestamp: [1704153600, 1704240000],
+      price: [80, 105],
+      fairValue: [100, 100],
+      lowerBound: [90, 90],
+      upperBound: [110, null],
+    });
+
+    expect(rows).toEqual([
+      { date: '2024-01-02', price: 80, low: 90, fair: 100, high: 110, classification: 'undervalued' },
+      { date: '2024-01-03', price: 105, low: 90, fair: 100, high: null, classification: 'fair' },
+    ]);
+    expect(valuationBandRows(undefined)).toEqual([]);
+  });
+});